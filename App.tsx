@@ -1,9 +1,49 @@
 import React, { useState, useCallback, useMemo, useRef, useEffect } from 'react';
-import type { Barge, RefuelingRequest, ScheduleItem, BargeState, ProductDetail, BargeProduct, BargeVolume, OperationHistoryItem, Priority, Location } from './types';
-import { ProductType, RequestStatus } from './types';
-import { generateSchedule } from './services/geminiService';
+import type { Barge, RefuelingRequest, ScheduleItem, ScheduleTimeline, BargeState, ProductDetail, ProductType, Product, BargeProduct, BargeVolume, OperationActuals, OperationHistoryItem, Priority, Location, LocationClosure, OperationalParameters, LocationFainaOverride, BdnSupplier } from './types';
+import { RequestStatus, LocationType } from './types';
 import type { BargeForPrompt, RequestForPrompt } from './services/geminiService';
-import { ShipIcon, FuelIcon, CalendarIcon, ClockIcon, TrashIcon, PlusIcon, PublishIcon, TerminalIcon, PencilIcon, CheckIcon, GripVerticalIcon, MapPinIcon, SpeedIcon, SaveIcon, LoadIcon, MapIcon, InfoIcon, XIcon } from './components/IconComponents';
+import { createSchedulingProvider, defaultProviderSettings, loadSessionApiKey, providerKindLabels, saveSessionApiKey } from './services/schedulingProvider';
+import type { SchedulingProviderSettings, SchedulingProviderKind, LlmBackendKind } from './services/schedulingProvider';
+import { loadRecordings, saveRecordings, serializeRecordings, parseRecordingsFile, mergeRecordings } from './services/replayService';
+import type { PromptRecording } from './services/replayService';
+import { defaultOperationalParameters, normalizeOperationalParameters, resolveBargePumpRate } from './services/operationalParameters';
+import { validateSchedule, groupViolationsByItem } from './services/scheduleValidator';
+import type { ScheduleViolation } from './services/scheduleValidator';
+import { attachTimelines } from './services/scheduleTimeline';
+import { projectInventory } from './services/inventoryProjection';
+import { buildNominationPreview, guessNominationMapping, missingNominationMappings, nominationFieldLabels } from './services/nominationImport';
+import type { NominationColumnMapping, NominationField } from './services/nominationImport';
+import { buildXlsx, normalizeHeader, readSpreadsheet, toCsv } from './services/spreadsheet';
+import type { SpreadsheetCell } from './services/spreadsheet';
+import { buildBargeCalendar, buildServiceOrdersPdf, historyExportRows, scheduleExportRows } from './services/scheduleExport';
+import { bdnMissingFields, buildBunkerDeliveryNotePdf, emptyBdnSupplier, isValidImoNumber, issueBunkerDeliveryNotes, loadBdnSequence, normalizeImoNumber, saveBdnSequence } from './services/bunkerDeliveryNote';
+import type { BargeInventoryProjection } from './services/inventoryProjection';
+import { HOUR_MS, toLocalIsoMinutes } from './services/localScheduler';
+import { editScheduleItem } from './services/scheduleEditor';
+import type { ScheduleItemChange } from './services/scheduleEditor';
+import { constrainToLockedOperations, isLockedItem } from './services/lockedOperations';
+import { linkScheduleReferences } from './services/scheduleReferences';
+import { isTerminalLocation, locationTypeLabels, normalizeLocations } from './services/locationTypes';
+import { applyForecastClosures, parseForecastCsv, DEFAULT_MAX_WAVE_HEIGHT } from './services/locationWindows';
+import { reconcileSchedule, unservedReasonLabels } from './services/scheduleReconciliation';
+import type { UnservedRequest } from './services/scheduleReconciliation';
+import { computeBargeUtilisation, computeScheduleKpis, historyTrend, kpiDefinitions, onTimeRates, servicesPerReloadCycle, tonnageByProduct } from './services/scheduleKpis';
+import type { OnTimeRate, ScheduleKpis, TrendGranularity } from './services/scheduleKpis';
+import type { ScheduleContext } from './services/scheduleTimeline';
+import { loadScenarios, requestsPublishedSince, saveScenarios, scheduleForPromotion } from './services/scenarioService';
+import type { Scenario } from './services/scenarioService';
+import { disruptionKindLabels, simulateDisruptions } from './services/disruptionSimulation';
+import type { DisruptionEvent, DisruptionInput, DisruptionKind, DisruptionResult } from './services/disruptionSimulation';
+import { defaultProducts, describeIncompatibleTank, incompatibleTanks, isProductInUse, isTankCompatible, knownTankGroups, normalizeBargeTankGroups, normalizeProductCatalogue, parseTankGroups } from './services/productCatalogue';
+import { outstandingRequests, productLineProgress } from './services/requestFulfilment';
+import { computeOperationVariances, summarizeVariances } from './services/executionVariance';
+import type { PlannedVsActual } from './services/executionVariance';
+import { APP_STATE_VERSION, appStateSectionLabels, appStateSectionsIn, mergeAppState, parseAppStateFile, parseStoredAppState, readAppState, replaceAppState, serializeAppState, serializeStoredAppState } from './services/appStateFile';
+import type { AppState, AppStateFile, AppStateMerge, AppStateSection } from './services/appStateFile';
+import { describeChange, emptyChangeHistory, recordChange, redoChange, undoChange } from './services/changeHistory';
+import type { ChangeHistory, UndoSnapshot } from './services/changeHistory';
+import { applyPublicationStatuses, applyScheduleStatuses, changeRequestStatus, manualRequestStatuses, normalizeRequestStatuses, requestStatusTransitions, schedulableRequestStatuses } from './services/requestLifecycle';
+import { ShipIcon, FuelIcon, CalendarIcon, ClockIcon, TrashIcon, PlusIcon, PublishIcon, TerminalIcon, PencilIcon, CheckIcon, GripVerticalIcon, MapPinIcon, SpeedIcon, SaveIcon, LoadIcon, MapIcon, InfoIcon, XIcon, LockIcon, UnlockIcon, UndoIcon, RedoIcon } from './components/IconComponents';
 
 // --- Helper Functions ---
 const formatDateTime = (isoString: string) => {
@@ -38,6 +78,26 @@ const formatDate = (dateString: string) => {
   }
 }
 
+const downloadFile = (fileName: string, content: BlobPart, mimeType: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// CSV files start with a byte order mark so spreadsheet software reads the accents as UTF-8.
+const downloadTable = (baseName: string, rows: SpreadsheetCell[][], format: 'csv' | 'xlsx', sheetName: string) => {
+  if (format === 'csv') downloadFile(`${baseName}.csv`, `\ufeff${toCsv(rows)}`, 'text/csv;charset=utf-8');
+  else downloadFile(`${baseName}.xlsx`, buildXlsx(rows, sheetName), 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+};
+
+const fileSlug = (text: string) => normalizeHeader(text).replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+
+const downloadAppState = (state: AppState) =>
+  downloadFile(`estado-programacao-${new Date().toISOString().slice(0, 10)}.json`, serializeAppState(state), 'application/json');
+
 // --- Card Component ---
 interface CardProps {
   children: React.ReactNode;
@@ -63,23 +123,36 @@ interface BargeSetupProps {
   setBarges: React.Dispatch<React.SetStateAction<Barge[]>>;
   setBargeStates: React.Dispatch<React.SetStateAction<BargeState[]>>;
   locations: Location[];
+  products: Product[];
 }
-const BargeSetup: React.FC<BargeSetupProps> = ({ barges, setBarges, setBargeStates, locations }) => {
-  const initialFormState = { name: '', vlsfoCapacity: 0, mgoCapacity: 0, speed: 4 };
+const BargeSetup: React.FC<BargeSetupProps> = ({ barges, setBarges, setBargeStates, locations, products: catalogue }) => {
+  const initialFormState = { name: '', capacities: {} as Record<ProductType, number>, tankGroups: {} as Record<ProductType, string>, speed: 4 };
+  const tankGroupOptions = knownTankGroups(catalogue);
   const [bargeForm, setBargeForm] = useState(initialFormState);
   const [editingBargeId, setEditingBargeId] = useState<string | null>(null);
 
-  const handleFormChange = (field: keyof typeof bargeForm, value: string | number) => {
+  const handleFormChange = (field: 'name' | 'speed', value: string | number) => {
     const numericValue = typeof value === 'string' ? parseInt(value, 10) || 0 : value;
     setBargeForm(prev => ({ ...prev, [field]: field === 'name' ? value : numericValue }));
   };
 
+  const handleCapacityChange = (productType: ProductType, value: string) => {
+    setBargeForm(prev => ({ ...prev, capacities: { ...prev.capacities, [productType]: parseInt(value, 10) || 0 } }));
+  };
+
+  // Until chosen, a tank is in the first group its product accepts.
+  const tankGroupOf = (product: Product) => bargeForm.tankGroups[product.code] ?? product.tankGroups[0] ?? '';
+
+  const handleTankGroupChange = (productType: ProductType, value: string) => {
+    setBargeForm(prev => ({ ...prev, tankGroups: { ...prev.tankGroups, [productType]: value } }));
+  };
+
   const startEditing = (barge: Barge) => {
     setEditingBargeId(barge.id);
     setBargeForm({
         name: barge.name,
-        vlsfoCapacity: barge.products.find(p => p.productType === ProductType.VLSFO)?.capacity || 0,
-        mgoCapacity: barge.products.find(p => p.productType === ProductType.MGO)?.capacity || 0,
+        capacities: Object.fromEntries(barge.products.map(p => [p.productType, p.capacity])),
+        tankGroups: Object.fromEntries(barge.products.map(p => [p.productType, p.tankGroup ?? ''])),
         speed: barge.speed
     });
   };
@@ -91,12 +164,16 @@ const BargeSetup: React.FC<BargeSetupProps> = ({ barges, setBarges, setBargeStat
 
   const handleFormSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    const { name, vlsfoCapacity, mgoCapacity, speed } = bargeForm;
-    if (!name.trim() || (vlsfoCapacity <= 0 && mgoCapacity <= 0) || speed <= 0) return;
-
-    const products: BargeProduct[] = [];
-    if (vlsfoCapacity > 0) products.push({ productType: ProductType.VLSFO, capacity: vlsfoCapacity });
-    if (mgoCapacity > 0) products.push({ productType: ProductType.MGO, capacity: mgoCapacity });
+    const { name, capacities, speed } = bargeForm;
+    const products: BargeProduct[] = catalogue
+        .filter(product => (capacities[product.code] || 0) > 0)
+        .map(product => ({ productType: product.code, capacity: capacities[product.code], tankGroup: tankGroupOf(product) }));
+    if (!name.trim() || products.length === 0 || speed <= 0) return;
+    const incompatible = products.filter(tank => !isTankCompatible(tank.productType, tank.tankGroup, catalogue));
+    if (incompatible.length > 0) {
+        alert(`Grupo de tanque incompatível: ${incompatible.map(tank => describeIncompatibleTank(tank, catalogue)).join('; ')}.`);
+        return;
+    }
 
     if (editingBargeId) {
         // Update logic
@@ -127,7 +204,7 @@ const BargeSetup: React.FC<BargeSetupProps> = ({ barges, setBarges, setBargeStat
             productType: p.productType,
             volume: Math.floor(p.capacity * 0.75)
         }));
-        setBargeStates(prev => [...prev, { bargeId: newBargeData.id, volumes: initialVolumes, locationId: locations.find(l=>l.name === 'TERMINAL')?.id || '' }]);
+        setBargeStates(prev => [...prev, { bargeId: newBargeData.id, volumes: initialVolumes, locationId: locations.find(isTerminalLocation)?.id || '' }]);
         setBargeForm(initialFormState);
     }
   };
@@ -152,14 +229,25 @@ const BargeSetup: React.FC<BargeSetupProps> = ({ barges, setBarges, setBargeStat
               </div>
             </div>
             <div className="grid grid-cols-2 gap-4">
-                <div>
-                    <label className="text-xs text-gray-300">Capacidade VLSFO (ton)</label>
-                    <input type="number" placeholder="0" value={bargeForm.vlsfoCapacity || ''} onChange={e => handleFormChange('vlsfoCapacity', e.target.value)} className="w-full bg-white/10 text-white placeholder-gray-400 p-2 rounded-md border border-white/20 focus:ring-2 focus:ring-amber-500 focus:outline-none" />
-                </div>
-                <div>
-                    <label className="text-xs text-gray-300">Capacidade MGO (ton)</label>
-                    <input type="number" placeholder="0" value={bargeForm.mgoCapacity || ''} onChange={e => handleFormChange('mgoCapacity', e.target.value)} className="w-full bg-white/10 text-white placeholder-gray-400 p-2 rounded-md border border-white/20 focus:ring-2 focus:ring-amber-500 focus:outline-none" />
-                </div>
+                {catalogue.map(product => (
+                    <div key={product.code}>
+                        <label className="text-xs text-gray-300" title={product.name}>Capacidade {product.code} (ton)</label>
+                        <div className="flex gap-2">
+                            <input type="number" placeholder="0" value={bargeForm.capacities[product.code] || ''} onChange={e => handleCapacityChange(product.code, e.target.value)} className="w-full bg-white/10 text-white placeholder-gray-400 p-2 rounded-md border border-white/20 focus:ring-2 focus:ring-amber-500 focus:outline-none" />
+                            {tankGroupOptions.length > 0 && (
+                                <select value={tankGroupOf(product)} onChange={e => handleTankGroupChange(product.code, e.target.value)} title="Grupo do tanque" className="bg-white/10 text-white p-2 rounded-md border border-white/20 focus:ring-2 focus:ring-amber-500 focus:outline-none">
+                                    <option value="" className="bg-gray-800">Sem grupo</option>
+                                    {tankGroupOptions.map(group => <option key={group} value={group} className="bg-gray-800">{group}</option>)}
+                                </select>
+                            )}
+                        </div>
+                        {product.tankGroups.length > 0 && (
+                            <p className={`text-xs mt-1 ${(bargeForm.capacities[product.code] || 0) > 0 && !isTankCompatible(product.code, tankGroupOf(product), catalogue) ? 'text-rose-400' : 'text-gray-500'}`}>
+                                Aceita tanques: {product.tankGroups.join(', ')}
+                            </p>
+                        )}
+                    </div>
+                ))}
             </div>
             <div className="flex gap-2">
                 <button type="submit" className="flex-grow bg-gradient-to-r from-teal-500 to-teal-600 hover:from-teal-600 hover:to-teal-700 text-white font-bold py-2 px-4 rounded-md transition-all duration-300 flex items-center justify-center gap-2">
@@ -180,12 +268,17 @@ const BargeSetup: React.FC<BargeSetupProps> = ({ barges, setBarges, setBargeStat
                   <p className="font-bold text-gray-200">{barge.name}</p>
                   <div className="flex gap-2 mt-1 items-center">
                      {barge.products.map(p => (
-                        <span key={p.productType} className="text-xs font-normal bg-teal-500/20 text-teal-200 px-2 py-0.5 rounded-full">{p.productType}: {p.capacity}t</span>
+                        <span key={p.productType} className="text-xs font-normal bg-teal-500/20 text-teal-200 px-2 py-0.5 rounded-full">{p.productType}: {p.capacity}t{p.tankGroup ? ` · ${p.tankGroup}` : ''}</span>
                      ))}
                      <span className="text-xs font-normal bg-amber-500/20 text-amber-200 px-2 py-0.5 rounded-full flex items-center gap-1">
                         <SpeedIcon className="w-3 h-3"/> {barge.speed} kn
                      </span>
                   </div>
+                  {incompatibleTanks(barge, catalogue).length > 0 && (
+                     <p className="text-xs text-rose-400 mt-1">
+                        Tanque incompatível: {incompatibleTanks(barge, catalogue).map(tank => describeIncompatibleTank(tank, catalogue)).join('; ')}. Não será usado na programação.
+                     </p>
+                  )}
                 </div>
                 <div className="flex items-center gap-2">
                     <button onClick={() => startEditing(barge)} className="text-amber-500 hover:text-amber-400 p-1 rounded-full transition-colors"><PencilIcon className="w-4 h-4"/></button>
@@ -207,8 +300,10 @@ interface BargeInitialStateProps {
     locations: Location[];
     simulationStartTime: string;
     setSimulationStartTime: React.Dispatch<React.SetStateAction<string>>;
+    inventory: BargeInventoryProjection[]; // projected along the current schedule
+    hasSchedule: boolean;
 }
-const BargeInitialState: React.FC<BargeInitialStateProps> = ({ barges, bargeStates, setBargeStates, locations, simulationStartTime, setSimulationStartTime }) => {
+const BargeInitialState: React.FC<BargeInitialStateProps> = ({ barges, bargeStates, setBargeStates, locations, simulationStartTime, setSimulationStartTime, inventory, hasSchedule }) => {
     
     const handleVolumeChange = (bargeId: string, productType: ProductType, value: number) => {
         setBargeStates(currentStates =>
@@ -257,6 +352,7 @@ const BargeInitialState: React.FC<BargeInitialStateProps> = ({ barges, bargeStat
                 {barges.map(barge => {
                     const state = bargeStates.find(s => s.bargeId === barge.id);
                     if (!state) return null;
+                    const projection = inventory.find(p => p.barge.id === barge.id);
                     return (
                         <div key={barge.id} className="bg-white/5 p-3 rounded-lg text-sm space-y-3">
                             <p className="font-bold text-gray-200">{barge.name}</p>
@@ -294,6 +390,13 @@ const BargeInitialState: React.FC<BargeInitialStateProps> = ({ barges, bargeStat
                                     )}
                                 </select>
                             </div>
+                            {hasSchedule && projection && (
+                                <div className="pt-2 border-t border-white/10 space-y-2">
+                                    <p className="text-xs font-semibold text-gray-300">Volume a Bordo Projetado</p>
+                                    <InventoryChart projection={projection} height={140} />
+                                    <InventoryEndState projection={projection} />
+                                </div>
+                            )}
                         </div>
                     )
                 })}
@@ -303,29 +406,174 @@ const BargeInitialState: React.FC<BargeInitialStateProps> = ({ barges, bargeStat
 };
 
 
+// --- Nomination Import Component ---
+interface NominationImportProps {
+    locations: Location[];
+    products: Product[];
+    existing: RefuelingRequest[];
+    onImport: (requests: RefuelingRequest[]) => void;
+}
+
+const NominationImport: React.FC<NominationImportProps> = ({ locations, products: catalogue, existing, onImport }) => {
+    const [file, setFile] = useState<{ name: string; rows: string[][]; decimalDot: boolean } | null>(null);
+    const [mapping, setMapping] = useState<NominationColumnMapping | null>(null);
+    const [includeDuplicates, setIncludeDuplicates] = useState(false);
+    const [message, setMessage] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const preview = useMemo(
+        () => (file && mapping && missingNominationMappings(mapping).length === 0 ? buildNominationPreview(file.rows, mapping, locations, catalogue, existing, file.decimalDot) : []),
+        [file, mapping, locations, catalogue, existing]
+    );
+    const importable = preview.filter(row => row.request && (!row.duplicateOf || includeDuplicates));
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const selected = e.target.files?.[0];
+        e.target.value = '';
+        if (!selected) return;
+        try {
+            const { rows, decimalDot } = await readSpreadsheet(selected);
+            if (rows.length < 2) throw new Error("A planilha não tem nenhuma nomeação abaixo do cabeçalho.");
+            setFile({ name: selected.name, rows, decimalDot });
+            setMapping(guessNominationMapping(rows[0], catalogue));
+            setIncludeDuplicates(false);
+            setMessage(null);
+        } catch (err: any) {
+            setMessage(err.message || "Não foi possível ler a planilha.");
+        }
+    };
+
+    const handleImport = () => {
+        if (!file) return;
+        const at = new Date().toISOString();
+        onImport(importable.map(row => ({
+            ...row.request!,
+            statusHistory: [{ to: row.request!.status, at, reason: `Importado de ${file.name}`, automatic: false }],
+        })));
+        setMessage(`${importable.length} pedido(s) importado(s) de ${file.name}.`);
+        setFile(null);
+        setMapping(null);
+    };
+
+    const columnSelect = (value: number, onChange: (column: number) => void) => (
+        <select value={value} onChange={e => onChange(Number(e.target.value))} className="w-full bg-white/10 text-white p-1 rounded border border-white/20 text-xs">
+            <option value={-1}>— não importar —</option>
+            {file?.rows[0].map((header, column) => <option key={column} value={column}>{header || `Coluna ${column + 1}`}</option>)}
+        </select>
+    );
+
+    const missing = mapping ? missingNominationMappings(mapping) : [];
+    const mappedProducts = catalogue.filter(product => (mapping?.products[product.code] ?? -1) >= 0);
+
+    return (
+        <div className="flex-shrink-0 mb-4 space-y-3">
+            <div className="flex items-center gap-3">
+                <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1.5 bg-white/10 hover:bg-white/20 text-gray-200 font-semibold py-1.5 px-3 rounded-md transition-colors text-xs">
+                    <LoadIcon className="w-4 h-4" /> Importar Planilha (CSV/XLSX)
+                </button>
+                <input ref={fileInputRef} type="file" accept="text/csv,.csv,.xlsx,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet" onChange={handleFile} className="hidden" />
+                {message && <p className="text-xs text-teal-300">{message}</p>}
+            </div>
+            {file && mapping && (
+                <div className="bg-black/20 rounded-lg p-4 space-y-3 text-sm">
+                    <p className="font-semibold text-gray-200">{file.name}: {file.rows.length - 1} linha(s)</p>
+                    <div className="grid grid-cols-2 md:grid-cols-4 gap-2">
+                        {(Object.keys(nominationFieldLabels) as NominationField[]).map(field => (
+                            <label key={field} className="text-xs text-gray-300 space-y-1">
+                                <span>{nominationFieldLabels[field]}</span>
+                                {columnSelect(mapping.fields[field], column => setMapping({ ...mapping, fields: { ...mapping.fields, [field]: column } }))}
+                            </label>
+                        ))}
+                        {catalogue.map(product => (
+                            <label key={product.code} className="text-xs text-gray-300 space-y-1">
+                                <span>Quantidade de {product.code} (t)</span>
+                                {columnSelect(mapping.products[product.code] ?? -1, column => setMapping({ ...mapping, products: { ...mapping.products, [product.code]: column } }))}
+                            </label>
+                        ))}
+                    </div>
+                    {missing.length > 0 ? (
+                        <p className="text-xs text-rose-300">Associe uma coluna a: {missing.join(', ')}.</p>
+                    ) : (
+                        <div className="max-h-64 overflow-auto">
+                            <table className="w-full text-xs text-left text-gray-300">
+                                <thead className="text-amber-400 uppercase bg-black/20 sticky top-0">
+                                    <tr>
+                                        <th className="px-2 py-2">Linha</th>
+                                        <th className="px-2 py-2">Navio</th>
+                                        <th className="px-2 py-2">Local</th>
+                                        {mappedProducts.map(product => <th key={product.code} className="px-2 py-2">{product.code}</th>)}
+                                        <th className="px-2 py-2">Janela</th>
+                                        <th className="px-2 py-2">Data Contratual</th>
+                                        <th className="px-2 py-2">Situação</th>
+                                    </tr>
+                                </thead>
+                                <tbody className="divide-y divide-white/10">
+                                    {preview.map(row => (
+                                        <tr key={row.rowNumber} className={row.errors.length > 0 ? 'bg-rose-500/10' : row.duplicateOf ? 'bg-amber-500/10' : ''}>
+                                            <td className="px-2 py-1">{row.rowNumber}</td>
+                                            <td className="px-2 py-1">{row.cells.shipName}{row.request?.imoNumber && <span className="text-gray-400"> (IMO {row.request.imoNumber})</span>}</td>
+                                            <td className="px-2 py-1">{row.location?.name || row.cells.location}</td>
+                                            {mappedProducts.map(product => <td key={product.code} className="px-2 py-1">{row.quantities[product.code] ?? '-'}</td>)}
+                                            <td className="px-2 py-1">
+                                                {row.request ? `${formatDateTime(row.request.windowStart)} a ${formatDateTime(row.request.windowEnd)}` : `${row.cells.windowStart} a ${row.cells.windowEnd}`}
+                                            </td>
+                                            <td className="px-2 py-1">{row.request ? formatDate(row.request.contractualDate) : row.cells.contractualDate}</td>
+                                            <td className="px-2 py-1 space-y-0.5">
+                                                {row.errors.map(error => <p key={error} className="text-rose-300">{error}</p>)}
+                                                {row.duplicateOf && <p className="text-amber-300">Duplicado de {row.duplicateOf}.</p>}
+                                                {row.notes.map(note => <p key={note} className="text-gray-400">{note}</p>)}
+                                                {row.errors.length === 0 && !row.duplicateOf && row.notes.length === 0 && <p className="text-emerald-300">OK</p>}
+                                            </td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    )}
+                    <div className="flex items-center gap-3">
+                        <label className="flex items-center gap-2 text-xs text-gray-300 mr-auto">
+                            <input type="checkbox" checked={includeDuplicates} onChange={e => setIncludeDuplicates(e.target.checked)} />
+                            Importar também as linhas duplicadas
+                        </label>
+                        <button onClick={() => { setFile(null); setMapping(null); }} className="bg-white/10 hover:bg-white/20 text-gray-200 font-semibold py-1.5 px-3 rounded-md transition-colors text-xs">Cancelar</button>
+                        <button onClick={handleImport} disabled={importable.length === 0} className="bg-gradient-to-r from-teal-500 to-teal-600 hover:from-teal-600 hover:to-teal-700 text-white font-semibold py-1.5 px-3 rounded-md transition-colors text-xs disabled:opacity-50">
+                            Importar {importable.length} pedido(s)
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+
 // --- Requests Table Component ---
 interface RequestsTableProps {
   requests: RefuelingRequest[];
   setRequests: React.Dispatch<React.SetStateAction<RefuelingRequest[]>>;
   locations: Location[];
+  products: Product[];
+  history: OperationHistoryItem[];
+  schedule: ScheduleItem[];
 }
 
-type RequestColWidths = {
-    shipName: number;
-    location: number;
-    vlsfo: number;
-    mgo: number;
-    windowStart: number;
-    windowEnd: number;
-    contractDate: number;
-    status: number;
-    actions: number;
+// Product columns are keyed by product code and follow the catalogue.
+type RequestColWidths = Record<string, number>;
+const PRODUCT_COL_WIDTH = 80;
+
+const requestStatusStyles: Record<RequestStatus, string> = {
+    [RequestStatus.Nominated]: 'bg-gray-500/20 text-gray-300',
+    [RequestStatus.Confirmed]: 'bg-teal-500/20 text-teal-300',
+    [RequestStatus.Scheduled]: 'bg-sky-500/20 text-sky-300',
+    [RequestStatus.InService]: 'bg-amber-500/20 text-amber-300',
+    [RequestStatus.Delivered]: 'bg-emerald-500/20 text-emerald-300',
+    [RequestStatus.Cancelled]: 'bg-rose-500/20 text-rose-300',
 };
 
-const RequestsTable: React.FC<RequestsTableProps> = ({ requests, setRequests, locations }) => {
-    const serviceableLocations = useMemo(() => locations.filter(l => l.name.toUpperCase() !== 'TERMINAL'), [locations]);
+const RequestsTable: React.FC<RequestsTableProps> = ({ requests, setRequests, locations, products: catalogue, history, schedule }) => {
+    const serviceableLocations = useMemo(() => locations.filter(l => !isTerminalLocation(l)), [locations]);
     const today = new Date().toISOString().split('T')[0];
-    const initialNewRequest = { shipName: '', vlsfoQuantity: 0, mgoQuantity: 0, windowStart: '', windowEnd: '', contractualDate: today, status: RequestStatus.Confirmed, locationId: serviceableLocations[0]?.id || '' };
+    const initialNewRequest = { shipName: '', imoNumber: '', quantities: {} as Record<ProductType, number>, windowStart: '', windowEnd: '', contractualDate: today, status: RequestStatus.Nominated, locationId: serviceableLocations[0]?.id || '' };
     
     const [newRequest, setNewRequest] = useState(initialNewRequest);
     const [editingRequestId, setEditingRequestId] = useState<string | null>(null);
@@ -334,19 +582,17 @@ const RequestsTable: React.FC<RequestsTableProps> = ({ requests, setRequests, lo
     const [colWidths, setColWidths] = useState<RequestColWidths>({
         shipName: 200,
         location: 150,
-        vlsfo: 80,
-        mgo: 80,
         windowStart: 200,
         windowEnd: 200,
         contractDate: 150,
         status: 120,
         actions: 100,
     });
-    const resizingColKey = useRef<keyof RequestColWidths | null>(null);
+    const resizingColKey = useRef<string | null>(null);
     const startX = useRef(0);
     const tableRef = useRef<HTMLTableElement>(null);
 
-    const handleMouseDown = useCallback((e: React.MouseEvent, colKey: keyof RequestColWidths) => {
+    const handleMouseDown = useCallback((e: React.MouseEvent, colKey: string) => {
         resizingColKey.current = colKey;
         startX.current = e.clientX;
         
@@ -357,7 +603,7 @@ const RequestsTable: React.FC<RequestsTableProps> = ({ requests, setRequests, lo
             
             setColWidths(prevWidths => {
                 if (!resizingColKey.current) return prevWidths;
-                const newWidth = (prevWidths[resizingColKey.current] || 0) + deltaX;
+                const newWidth = (prevWidths[resizingColKey.current] || PRODUCT_COL_WIDTH) + deltaX;
                 return {
                     ...prevWidths,
                     [resizingColKey.current]: Math.max(newWidth, 50), // min width 50px
@@ -376,17 +622,17 @@ const RequestsTable: React.FC<RequestsTableProps> = ({ requests, setRequests, lo
         window.addEventListener('mouseup', handleMouseUp);
     }, []);
 
-    const requestTableHeaders = useMemo(() => [
+    const requestTableHeaders = useMemo((): { key: string; label: string; title?: string }[] => [
         { key: 'shipName', label: 'Nome do Navio' },
         { key: 'location', label: 'Local' },
-        { key: 'vlsfo', label: 'VLSFO' },
-        { key: 'mgo', label: 'MGO' },
+        ...catalogue.map(product => ({ key: `product:${product.code}`, label: product.code, title: product.name })),
         { key: 'windowStart', label: 'Início da Janela' },
         { key: 'windowEnd', label: 'Fim da Janela' },
         { key: 'contractDate', label: 'Data Contratual' },
         { key: 'status', label: 'Status' },
         { key: 'actions', label: 'Ações' },
-    ] as const, []);
+    ], [catalogue]);
+    const columnWidth = (key: string) => colWidths[key] ?? PRODUCT_COL_WIDTH;
 
     useEffect(() => {
       // This effect corrects the location ID in the 'new request' form if the currently selected one is no longer valid
@@ -397,13 +643,18 @@ const RequestsTable: React.FC<RequestsTableProps> = ({ requests, setRequests, lo
 
     const handleAddRequest = (e: React.FormEvent) => {
         e.preventDefault();
-        const { shipName, vlsfoQuantity, mgoQuantity, windowStart, windowEnd, contractualDate, locationId, status } = newRequest;
-        if (shipName && (vlsfoQuantity > 0 || mgoQuantity > 0) && windowStart && windowEnd && contractualDate && locationId) {
-            const products: ProductDetail[] = [];
-            if (vlsfoQuantity > 0) products.push({ productType: ProductType.VLSFO, quantity: vlsfoQuantity });
-            if (mgoQuantity > 0) products.push({ productType: ProductType.MGO, quantity: mgoQuantity });
-
-            setRequests(prev => [...prev, { id: crypto.randomUUID(), shipName, products, windowStart, windowEnd, contractualDate, status, locationId }]);
+        const { shipName, quantities, windowStart, windowEnd, contractualDate, locationId, status } = newRequest;
+        const products: ProductDetail[] = catalogue
+            .filter(product => (quantities[product.code] || 0) > 0)
+            .map(product => ({ productType: product.code, quantity: quantities[product.code] }));
+        const imoNumber = normalizeImoNumber(newRequest.imoNumber) || undefined;
+        if (imoNumber && !isValidImoNumber(imoNumber)) {
+            alert(`Número IMO inválido: '${newRequest.imoNumber}'.`);
+            return;
+        }
+        if (shipName && products.length > 0 && windowStart && windowEnd && contractualDate && locationId) {
+            const statusHistory = [{ to: status, at: new Date().toISOString(), reason: 'Pedido criado', automatic: false }];
+            setRequests(prev => [...prev, { id: crypto.randomUUID(), shipName, imoNumber, products, windowStart, windowEnd, contractualDate, status, locationId, statusHistory }]);
             setNewRequest(initialNewRequest);
         }
     };
@@ -422,9 +673,27 @@ const RequestsTable: React.FC<RequestsTableProps> = ({ requests, setRequests, lo
         setEditedRequest(null);
     };
 
+    // A status change goes through the lifecycle and is recorded with the reason the planner gives for it.
     const saveEditing = () => {
         if (!editedRequest) return;
-        setRequests(requests.map(r => r.id === editedRequest.id ? editedRequest : r));
+        const original = requests.find(r => r.id === editedRequest.id);
+        const imoNumber = normalizeImoNumber(editedRequest.imoNumber || '') || undefined;
+        if (imoNumber && !isValidImoNumber(imoNumber)) {
+            alert(`Número IMO inválido: '${editedRequest.imoNumber}'.`);
+            return;
+        }
+        let saved = { ...editedRequest, imoNumber };
+        if (original && editedRequest.status !== original.status) {
+            const reason = window.prompt(`Motivo da mudança de '${original.status}' para '${editedRequest.status}':`);
+            if (reason === null) return;
+            try {
+                saved = changeRequestStatus({ ...saved, status: original.status }, editedRequest.status, reason.trim() || 'Alteração manual');
+            } catch (err: any) {
+                alert(err.message);
+                return;
+            }
+        }
+        setRequests(requests.map(r => r.id === saved.id ? saved : r));
         cancelEditing();
     };
 
@@ -450,23 +719,25 @@ const RequestsTable: React.FC<RequestsTableProps> = ({ requests, setRequests, lo
     
     const renderRow = (request: RefuelingRequest) => {
         const isEditing = editingRequestId === request.id;
-        const vlsfoQty = request.products.find(p => p.productType === ProductType.VLSFO)?.quantity || 0;
-        const mgoQty = request.products.find(p => p.productType === ProductType.MGO)?.quantity || 0;
+        const quantityOf = (products: ProductDetail[], productType: ProductType) => products.find(p => p.productType === productType)?.quantity || 0;
         const locationName = locations.find(l => l.id === request.locationId)?.name || 'N/A';
+        const progress = productLineProgress(request, history, schedule);
 
         if (isEditing && editedRequest) {
-             const editedVlsfoQty = editedRequest.products.find(p => p.productType === ProductType.VLSFO)?.quantity || 0;
-             const editedMgoQty = editedRequest.products.find(p => p.productType === ProductType.MGO)?.quantity || 0;
             return (
                 <tr key={request.id} className="bg-teal-900/30">
-                    <td><input type="text" value={editedRequest.shipName} onChange={(e) => handleEditChange('shipName', e.target.value)} className="w-full bg-white/20 p-1 rounded border border-white/30" /></td>
+                    <td className="space-y-1">
+                        <input type="text" value={editedRequest.shipName} onChange={(e) => handleEditChange('shipName', e.target.value)} className="w-full bg-white/20 p-1 rounded border border-white/30" />
+                        <input type="text" placeholder="Nº IMO" value={editedRequest.imoNumber || ''} onChange={(e) => handleEditChange('imoNumber', e.target.value)} className="w-full bg-white/20 p-1 rounded border border-white/30 text-xs" />
+                    </td>
                     <td>
                         <select value={editedRequest.locationId} onChange={(e) => handleEditChange('locationId', e.target.value)} className="w-full bg-white/20 p-1 rounded border border-white/30">
                              {serviceableLocations.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
                         </select>
                     </td>
-                    <td><input type="number" value={editedVlsfoQty || ''} onChange={(e) => handleProductEditChange(ProductType.VLSFO, parseInt(e.target.value) || 0)} className="w-full bg-white/20 p-1 rounded border border-white/30" /></td>
-                    <td><input type="number" value={editedMgoQty || ''} onChange={(e) => handleProductEditChange(ProductType.MGO, parseInt(e.target.value) || 0)} className="w-full bg-white/20 p-1 rounded border border-white/30" /></td>
+                    {catalogue.map(product => (
+                        <td key={product.code}><input type="number" value={quantityOf(editedRequest.products, product.code) || ''} onChange={(e) => handleProductEditChange(product.code, parseInt(e.target.value) || 0)} className="w-full bg-white/20 p-1 rounded border border-white/30" /></td>
+                    ))}
                     <td><input type="datetime-local" value={editedRequest.windowStart} onChange={(e) => handleEditChange('windowStart', e.target.value)} className="w-full bg-white/20 p-1 rounded border border-white/30" /></td>
                     <td><input type="datetime-local" value={editedRequest.windowEnd} onChange={(e) => handleEditChange('windowEnd', e.target.value)} className="w-full bg-white/20 p-1 rounded border border-white/30" /></td>
                     <td><input type="date" value={editedRequest.contractualDate} onChange={(e) => handleEditChange('contractualDate', e.target.value)} className="w-full bg-white/20 p-1 rounded border border-white/30" /></td>
@@ -476,8 +747,9 @@ const RequestsTable: React.FC<RequestsTableProps> = ({ requests, setRequests, lo
                             onChange={(e) => handleEditChange('status', e.target.value as RequestStatus)}
                             className="w-full bg-white/20 p-1 rounded border border-white/30 text-white"
                         >
-                            <option value={RequestStatus.Confirmed}>{RequestStatus.Confirmed}</option>
-                            <option value={RequestStatus.InProgress}>{RequestStatus.InProgress}</option>
+                            {[request.status, ...requestStatusTransitions[request.status].filter(status => manualRequestStatuses.includes(status))].map(status => (
+                                <option key={status} value={status}>{status}</option>
+                            ))}
                         </select>
                     </td>
                     <td className="flex items-center gap-2 p-1">
@@ -490,21 +762,43 @@ const RequestsTable: React.FC<RequestsTableProps> = ({ requests, setRequests, lo
 
         return (
             <tr key={request.id} className="hover:bg-white/5 transition-colors">
-                <td className="font-semibold text-gray-200">{request.shipName}</td>
+                <td className="font-semibold text-gray-200">
+                    {request.shipName}
+                    {request.imoNumber && <div className="text-[10px] font-normal text-gray-400">IMO {request.imoNumber}</div>}
+                </td>
                 <td>{locationName}</td>
-                <td>{vlsfoQty > 0 ? `${vlsfoQty}t` : '-'}</td>
-                <td>{mgoQty > 0 ? `${mgoQty}t` : '-'}</td>
+                {catalogue.map(product => {
+                    const quantity = quantityOf(request.products, product.code);
+                    const line = progress.find(p => p.productType === product.code);
+                    return (
+                        <td key={product.code}>
+                            {quantity > 0 ? `${quantity}t` : '-'}
+                            {line && (line.delivered > 0 || line.scheduled > 0) && (
+                                <div className="text-[10px] leading-tight text-gray-400" title={`Entregue: ${line.delivered}t · Programado: ${line.scheduled}t · Restante: ${line.remaining}t`}>
+                                    <span className="text-teal-300">{line.delivered}t</span> ent. · <span className={line.remaining > 0 ? 'text-amber-300' : 'text-gray-400'}>{line.remaining}t</span> rest.
+                                </div>
+                            )}
+                        </td>
+                    );
+                })}
                 <td>{formatDateTime(request.windowStart)}</td>
                 <td>{formatDateTime(request.windowEnd)}</td>
                 <td>{formatDate(request.contractualDate)}</td>
                 <td>
-                    <span className={`px-2 py-1 rounded-full text-xs font-semibold ${
-                        request.status === RequestStatus.InProgress
-                            ? 'bg-amber-500/20 text-amber-300'
-                            : 'bg-teal-500/20 text-teal-300'
-                    }`}>
-                        {request.status}
-                    </span>
+                    <div className="relative group inline-block">
+                        <span className={`px-2 py-1 rounded-full text-xs font-semibold cursor-help ${requestStatusStyles[request.status]}`}>
+                            {request.status}
+                        </span>
+                        <div className="absolute top-full right-0 mt-2 w-72 p-2 text-xs text-white bg-gray-800 rounded-md shadow-lg opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none z-20 space-y-1">
+                            {(request.statusHistory || []).length === 0 && <p className="text-gray-400">Sem histórico de status.</p>}
+                            {[...(request.statusHistory || [])].reverse().map((change, i) => (
+                                <p key={i}>
+                                    <span className="text-gray-400">{formatDateTime(change.at)}</span> {change.from ? `${change.from} → ` : ''}<span className="font-semibold">{change.to}</span>
+                                    <span className="text-gray-400"> · {change.reason}{change.automatic ? ' (automático)' : ''}</span>
+                                </p>
+                            ))}
+                        </div>
+                    </div>
                 </td>
                 <td className="flex items-center gap-2">
                     <button onClick={() => startEditing(request)} className="text-amber-400 hover:text-amber-300 p-1"><PencilIcon className="w-4 h-4"/></button>
@@ -516,17 +810,19 @@ const RequestsTable: React.FC<RequestsTableProps> = ({ requests, setRequests, lo
 
     return (
         <Card title="Pedidos de Abastecimento" icon={<ShipIcon className="w-7 h-7 text-amber-400" />}>
-            <div className="overflow-auto h-full">
+          <div className="h-full flex flex-col">
+            <NominationImport locations={locations} products={catalogue} existing={requests} onImport={imported => setRequests(prev => [...prev, ...imported])} />
+            <div className="overflow-auto flex-grow">
                 <table ref={tableRef} className="w-full text-sm text-left text-gray-300" style={{tableLayout: 'fixed'}}>
                     <colgroup>
                         {requestTableHeaders.map(header => (
-                            <col key={header.key} style={{width: `${colWidths[header.key]}px`}} />
+                            <col key={header.key} style={{width: `${columnWidth(header.key)}px`}} />
                         ))}
                     </colgroup>
                     <thead className="text-xs text-amber-400 uppercase bg-black/20 sticky top-0 z-10">
                         <tr>
                             {requestTableHeaders.map((header, index) => (
-                                <th key={header.key} className="px-4 py-3 select-none relative" style={{width: `${colWidths[header.key]}px`}}>
+                                <th key={header.key} title={header.title} className="px-4 py-3 select-none relative" style={{width: `${columnWidth(header.key)}px`}}>
                                     {header.label}
                                     {index < requestTableHeaders.length - 1 && (
                                         <div
@@ -541,14 +837,18 @@ const RequestsTable: React.FC<RequestsTableProps> = ({ requests, setRequests, lo
                     <tbody className="divide-y divide-white/10">
                         {requests.map(renderRow)}
                          <tr className="bg-black/20">
-                            <td className="p-2"><input type="text" placeholder="Nome do Navio" value={newRequest.shipName} onChange={e => setNewRequest({...newRequest, shipName: e.target.value})} className="w-full bg-white/10 p-1 rounded border border-white/20" /></td>
+                            <td className="p-2 space-y-1">
+                                <input type="text" placeholder="Nome do Navio" value={newRequest.shipName} onChange={e => setNewRequest({...newRequest, shipName: e.target.value})} className="w-full bg-white/10 p-1 rounded border border-white/20" />
+                                <input type="text" placeholder="Nº IMO" value={newRequest.imoNumber} onChange={e => setNewRequest({...newRequest, imoNumber: e.target.value})} className="w-full bg-white/10 p-1 rounded border border-white/20 text-xs" />
+                            </td>
                             <td className="p-2">
                                 <select value={newRequest.locationId} onChange={e => setNewRequest({...newRequest, locationId: e.target.value})} className="w-full bg-white/10 p-1 rounded border border-white/20 disabled:opacity-50" disabled={serviceableLocations.length === 0}>
                                     {serviceableLocations.length === 0 ? <option>Adicione um local</option> : serviceableLocations.map(l => <option key={l.id} value={l.id}>{l.name}</option>)}
                                 </select>
                             </td>
-                            <td className="p-2"><input type="number" placeholder="0" value={newRequest.vlsfoQuantity || ''} onChange={e => setNewRequest({...newRequest, vlsfoQuantity: parseInt(e.target.value) || 0})} className="w-full bg-white/10 p-1 rounded border border-white/20" /></td>
-                            <td className="p-2"><input type="number" placeholder="0" value={newRequest.mgoQuantity || ''} onChange={e => setNewRequest({...newRequest, mgoQuantity: parseInt(e.target.value) || 0})} className="w-full bg-white/10 p-1 rounded border border-white/20" /></td>
+                            {catalogue.map(product => (
+                                <td key={product.code} className="p-2"><input type="number" placeholder="0" value={newRequest.quantities[product.code] || ''} onChange={e => setNewRequest({...newRequest, quantities: { ...newRequest.quantities, [product.code]: parseInt(e.target.value) || 0 }})} className="w-full bg-white/10 p-1 rounded border border-white/20" /></td>
+                            ))}
                             <td className="p-2"><input type="datetime-local" value={newRequest.windowStart} onChange={e => setNewRequest({...newRequest, windowStart: e.target.value})} className="w-full bg-white/10 p-1 rounded border border-white/20" /></td>
                             <td className="p-2"><input type="datetime-local" value={newRequest.windowEnd} onChange={e => setNewRequest({...newRequest, windowEnd: e.target.value})} className="w-full bg-white/10 p-1 rounded border border-white/20" /></td>
                             <td className="p-2"><input type="date" value={newRequest.contractualDate} onChange={e => setNewRequest({...newRequest, contractualDate: e.target.value})} className="w-full bg-white/10 p-1 rounded border border-white/20" /></td>
@@ -558,8 +858,8 @@ const RequestsTable: React.FC<RequestsTableProps> = ({ requests, setRequests, lo
                                     onChange={e => setNewRequest({...newRequest, status: e.target.value as RequestStatus})} 
                                     className="w-full bg-white/10 p-1 rounded border border-white/20"
                                 >
+                                    <option value={RequestStatus.Nominated}>{RequestStatus.Nominated}</option>
                                     <option value={RequestStatus.Confirmed}>{RequestStatus.Confirmed}</option>
-                                    <option value={RequestStatus.InProgress}>{RequestStatus.InProgress}</option>
                                 </select>
                             </td>
                             <td className="p-2">
@@ -571,16 +871,429 @@ const RequestsTable: React.FC<RequestsTableProps> = ({ requests, setRequests, lo
                     </tbody>
                 </table>
             </div>
+          </div>
         </Card>
     );
 };
 
 
+// --- Timeline Details Component ---
+interface TimelineDetailsProps {
+    timeline: ScheduleTimeline;
+    scheduledTime: string;
+    isTerminal: boolean;
+}
+const TimelineDetails: React.FC<TimelineDetailsProps> = ({ timeline, scheduledTime, isTerminal }) => {
+    const phases = [
+        { label: 'Saída', value: formatDateTime(timeline.departureTime) },
+        { label: 'Trânsito', value: timeline.transitHours > 0 ? `${timeline.distanceNm} nm · ${timeline.transitHours}h` : 'Sem deslocamento' },
+        { label: 'Faina Inicial', value: `${formatDateTime(scheduledTime)} → ${formatDateTime(timeline.pumpingStartTime)}` },
+        { label: isTerminal ? 'Carregamento' : 'Bombeio', value: `${formatDateTime(timeline.pumpingStartTime)} → ${formatDateTime(timeline.pumpingEndTime)}` },
+        { label: 'Faina Final', value: `${formatDateTime(timeline.pumpingEndTime)} → ${formatDateTime(timeline.releaseTime)}` },
+        { label: 'Liberação', value: formatDateTime(timeline.releaseTime) },
+        ...(timeline.onboardVolume !== undefined ? [{ label: 'A Bordo Após', value: `${Math.round(timeline.onboardVolume)}t` }] : []),
+    ];
+    return (
+        <dl className="mt-3 grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5 text-xs">
+            {phases.map(phase => (
+                <React.Fragment key={phase.label}>
+                    <dt className="text-gray-400">{phase.label}</dt>
+                    <dd className="text-gray-300">{phase.value}</dd>
+                </React.Fragment>
+            ))}
+        </dl>
+    );
+};
+
+// --- Lock Toggle Component ---
+interface LockToggleProps {
+    locked: boolean;
+    onToggle?: () => void;
+    title: string;
+}
+const LockToggle: React.FC<LockToggleProps> = ({ locked, onToggle, title }) => (
+    <button
+        onClick={onToggle}
+        onMouseDown={e => e.stopPropagation()}
+        disabled={!onToggle}
+        title={title}
+        className={`p-1 rounded-full transition-colors disabled:cursor-default ${locked ? 'text-amber-400 hover:text-amber-300' : 'text-gray-500 hover:text-gray-300'}`}
+    >
+        {locked ? <LockIcon className="w-4 h-4" /> : <UnlockIcon className="w-4 h-4" />}
+    </button>
+);
+
+// --- Gantt Chart Component ---
+interface GanttChartProps {
+    schedule: ScheduleItem[];
+    barges: Barge[];
+    requests: RefuelingRequest[];
+    simulationStartTime: string;
+    violationsByItem: Map<number, ScheduleViolation[]>;
+    onEditItem?: (index: number, change: ScheduleItemChange) => void;
+    lockedBargeIds: string[];
+    onToggleBargeLock?: (bargeId: string) => void;
+}
+
+const GANTT_MIN_HOUR_WIDTH = 4;
+const GANTT_MAX_HOUR_WIDTH = 160;
+const GANTT_LABEL_WIDTH = 160;
+const GANTT_ROW_HEIGHT = 48;
+const GANTT_SNAP_HOURS = 0.25;
+
+const ganttPhaseStyles = {
+    transit: { label: 'Trânsito', className: 'bg-sky-500/60' },
+    faina: { label: 'Faina', className: 'bg-amber-400/70' },
+    pumping: { label: 'Bombeio', className: 'bg-teal-500' },
+    reload: { label: 'Recarga no Terminal', className: 'bg-violet-500' },
+};
+
+const GanttChart: React.FC<GanttChartProps> = ({ schedule, barges, requests, simulationStartTime, violationsByItem, onEditItem, lockedBargeIds, onToggleBargeLock }) => {
+    const [hourWidth, setHourWidth] = useState(24);
+    const [dragging, setDragging] = useState<{ index: number; dx: number; dy: number } | null>(null);
+    const scrollRef = useRef<HTMLDivElement>(null);
+    const panStart = useRef<{ x: number; scrollLeft: number } | null>(null);
+
+    const origin = useMemo(() => {
+        const start = new Date(simulationStartTime).getTime();
+        const firstItem = Math.min(...schedule.map(i => new Date(i.timeline?.departureTime || i.scheduledTime).getTime()).filter(t => !isNaN(t)));
+        const earliest = Math.min(isNaN(start) ? Infinity : start, firstItem);
+        // Align the axis to the hour so that ticks land on round times.
+        return Math.floor((isFinite(earliest) ? earliest : Date.now()) / HOUR_MS) * HOUR_MS;
+    }, [simulationStartTime, schedule]);
+
+    const servedRequests = useMemo(
+        () => requests.filter(r => schedule.some(i => i.requestId === r.id)),
+        [requests, schedule]
+    );
+
+    const totalHours = useMemo(() => {
+        const ends = [
+            ...schedule.map(i => new Date(i.timeline?.releaseTime || i.scheduledTime).getTime()),
+            ...servedRequests.map(r => new Date(r.windowEnd).getTime()),
+        ].filter(t => !isNaN(t));
+        const last = ends.length > 0 ? Math.max(...ends) : origin;
+        return Math.max(24, Math.ceil((last - origin) / HOUR_MS) + 2);
+    }, [schedule, servedRequests, origin]);
+
+    // One row per barge, plus rows for items pointing to barges that no longer exist.
+    const rows = useMemo(() => {
+        const labels = new Map<string, string>(barges.map(b => [b.id, b.name]));
+        schedule.forEach(i => { if (!labels.has(i.bargeId)) labels.set(i.bargeId, i.bargeName); });
+        return Array.from(labels, ([id, name]) => ({
+            id,
+            name,
+            items: schedule.map((item, index) => ({ item, index })).filter(({ item }) => item.bargeId === id),
+        }));
+    }, [barges, schedule]);
+
+    const toX = (time: string | number) => ((typeof time === 'number' ? time : new Date(time).getTime()) - origin) / HOUR_MS * hourWidth;
+    const span = (from: string, to: string) => ({ left: toX(from), width: Math.max(1, toX(to) - toX(from)) });
+
+    const tickHours = hourWidth >= 40 ? 1 : hourWidth >= 16 ? 3 : hourWidth >= 8 ? 6 : 12;
+    const ticks = Array.from({ length: Math.floor(totalHours / tickHours) + 1 }, (_, i) => origin + i * tickHours * HOUR_MS);
+
+    // Zooming keeps the time under the cursor (or the centre of the view) in place.
+    const zoom = (factor: number, anchorX?: number) => {
+        const container = scrollRef.current;
+        const next = Math.min(GANTT_MAX_HOUR_WIDTH, Math.max(GANTT_MIN_HOUR_WIDTH, hourWidth * factor));
+        if (container) {
+            const anchor = anchorX ?? (container.clientWidth - GANTT_LABEL_WIDTH) / 2;
+            const anchorHours = (container.scrollLeft + anchor) / hourWidth;
+            requestAnimationFrame(() => { container.scrollLeft = anchorHours * next - anchor; });
+        }
+        setHourWidth(next);
+    };
+
+    // React registers wheel handlers as passive, where preventDefault cannot stop the browser from zooming
+    // the page; the listener is added natively instead, reading the latest zoom through a ref.
+    const zoomRef = useRef(zoom);
+    zoomRef.current = zoom;
+    useEffect(() => {
+        const container = scrollRef.current;
+        if (!container) return;
+        const handleWheel = (e: WheelEvent) => {
+            if (!e.ctrlKey) return;
+            e.preventDefault();
+            const bounds = container.getBoundingClientRect();
+            zoomRef.current(e.deltaY < 0 ? 1.25 : 0.8, e.clientX - bounds.left - GANTT_LABEL_WIDTH);
+        };
+        container.addEventListener('wheel', handleWheel, { passive: false });
+        return () => container.removeEventListener('wheel', handleWheel);
+    }, []);
+
+    const handleMouseDown = (e: React.MouseEvent<HTMLDivElement>) => {
+        if (!scrollRef.current) return;
+        panStart.current = { x: e.clientX, scrollLeft: scrollRef.current.scrollLeft };
+        const handleMouseMove = (event: MouseEvent) => {
+            if (!panStart.current || !scrollRef.current) return;
+            scrollRef.current.scrollLeft = panStart.current.scrollLeft - (event.clientX - panStart.current.x);
+        };
+        const handleMouseUp = () => {
+            panStart.current = null;
+            window.removeEventListener('mousemove', handleMouseMove);
+            window.removeEventListener('mouseup', handleMouseUp);
+        };
+        window.addEventListener('mousemove', handleMouseMove);
+        window.addEventListener('mouseup', handleMouseUp);
+    };
+
+    const snapDx = (dx: number) => Math.round(dx / hourWidth / GANTT_SNAP_HOURS) * GANTT_SNAP_HOURS * hourWidth;
+
+    // Dragging a delivery moves it along the time axis (snapped to 15 minutes) and across barge rows.
+    const handleBlockMouseDown = (e: React.MouseEvent, item: ScheduleItem, index: number, rowIndex: number) => {
+        if (!onEditItem || item.shipName === 'TERMINAL' || isLockedItem(item, lockedBargeIds) || e.button !== 0) return;
+        e.stopPropagation();
+        const startX = e.clientX;
+        const startY = e.clientY;
+        let last = { dx: 0, dy: 0 };
+        const handleMouseMove = (event: MouseEvent) => {
+            last = { dx: event.clientX - startX, dy: event.clientY - startY };
+            setDragging({ index, dx: snapDx(last.dx), dy: last.dy });
+        };
+        const handleMouseUp = () => {
+            window.removeEventListener('mousemove', handleMouseMove);
+            window.removeEventListener('mouseup', handleMouseUp);
+            setDragging(null);
+            const shiftHours = snapDx(last.dx) / hourWidth;
+            const targetRow = rows[Math.min(rows.length - 1, Math.max(0, rowIndex + Math.round(last.dy / GANTT_ROW_HEIGHT)))];
+            const change: ScheduleItemChange = {};
+            if (shiftHours !== 0) change.scheduledTime = toLocalIsoMinutes(new Date(item.scheduledTime).getTime() + shiftHours * HOUR_MS);
+            if (targetRow && targetRow.id !== item.bargeId && !lockedBargeIds.includes(targetRow.id)) change.bargeId = targetRow.id;
+            if (change.scheduledTime || change.bargeId) onEditItem(index, change);
+        };
+        window.addEventListener('mousemove', handleMouseMove);
+        window.addEventListener('mouseup', handleMouseUp);
+    };
+
+    const renderBlocks = (item: ScheduleItem, index: number, rowIndex: number) => {
+        const isTerminal = item.shipName === 'TERMINAL';
+        const hasViolations = (violationsByItem.get(index) || []).length > 0;
+        const title = `${isTerminal ? `Recarga de ${item.product} em ${item.locationName}` : `${item.shipName} · ${item.quantity}t ${item.product}`} · ${formatDateTime(item.scheduledTime)}`;
+        const isLocked = isLockedItem(item, lockedBargeIds);
+        const isDraggable = !!onEditItem && !isTerminal && !isLocked;
+        const blockClasses = `absolute top-3 h-6 rounded-sm ${hasViolations ? 'ring-2 ring-rose-500' : isLocked ? 'ring-1 ring-amber-300' : ''} ${isDraggable ? 'cursor-move' : ''} ${dragging?.index === index ? 'z-10 opacity-80' : ''}`;
+        const offset = dragging?.index === index ? { transform: `translate(${dragging.dx}px, ${dragging.dy}px)` } : {};
+        const onMouseDown = (e: React.MouseEvent) => handleBlockMouseDown(e, item, index, rowIndex);
+
+        if (!item.timeline) {
+            return <div key={`${index}-start`} title={title} onMouseDown={onMouseDown} className={`${blockClasses} bg-gray-400`} style={{ left: toX(item.scheduledTime), width: 4, ...offset }} />;
+        }
+        const t = item.timeline;
+        const labelWidth = toX(t.releaseTime) - toX(item.scheduledTime);
+        return (
+            <React.Fragment key={index}>
+                {t.transitHours > 0 && <div title={`Trânsito · ${t.distanceNm} nm`} className={`${blockClasses} ${ganttPhaseStyles.transit.className}`} style={{ ...span(t.departureTime, t.arrivalTime), ...offset }} onMouseDown={onMouseDown} />}
+                <div title={title} className={`${blockClasses} ${ganttPhaseStyles.faina.className}`} style={{ ...span(item.scheduledTime, t.pumpingStartTime), ...offset }} onMouseDown={onMouseDown} />
+                <div title={title} className={`${blockClasses} ${isTerminal ? ganttPhaseStyles.reload.className : ganttPhaseStyles.pumping.className}`} style={{ ...span(t.pumpingStartTime, t.pumpingEndTime), ...offset }} onMouseDown={onMouseDown} />
+                <div title={title} className={`${blockClasses} ${ganttPhaseStyles.faina.className}`} style={{ ...span(t.pumpingEndTime, t.releaseTime), ...offset }} onMouseDown={onMouseDown} />
+                {labelWidth > 40 && (
+                    <span className="absolute top-3 h-6 px-1 text-[10px] leading-6 text-white font-semibold truncate pointer-events-none z-10" style={{ left: toX(item.scheduledTime), width: labelWidth, ...offset }}>
+                        {isTerminal ? item.locationName : item.shipName}
+                    </span>
+                )}
+            </React.Fragment>
+        );
+    };
+
+    // Each served ship's window is drawn behind the operations of the barges serving it.
+    const renderWindows = (items: { item: ScheduleItem; index: number }[]) => {
+        const requestIds = Array.from(new Set(items.map(({ item }) => item.requestId).filter(Boolean)));
+        return requestIds.map(requestId => {
+            const request = servedRequests.find(r => r.id === requestId);
+            if (!request) return null;
+            const missed = items.some(({ item }) => item.requestId === requestId && (
+                new Date(item.scheduledTime).getTime() < new Date(request.windowStart).getTime() ||
+                new Date(item.scheduledTime).getTime() > new Date(request.windowEnd).getTime()
+            ));
+            return (
+                <div
+                    key={`window-${requestId}`}
+                    title={`Janela de ${request.shipName}: ${formatDateTime(request.windowStart)} → ${formatDateTime(request.windowEnd)}`}
+                    className={`absolute top-1 bottom-1 rounded border border-dashed ${missed ? 'border-rose-400 bg-rose-500/10' : 'border-white/30 bg-white/5'}`}
+                    style={span(request.windowStart, request.windowEnd)}
+                />
+            );
+        });
+    };
+
+    return (
+        <div className="h-full flex flex-col">
+            <div className="flex-shrink-0 mb-2 flex items-center gap-4 flex-wrap text-xs text-gray-300">
+                {Object.values(ganttPhaseStyles).map(style => (
+                    <span key={style.label} className="flex items-center gap-1.5"><span className={`inline-block w-3 h-3 rounded-sm ${style.className}`} /> {style.label}</span>
+                ))}
+                <span className="flex items-center gap-1.5"><span className="inline-block w-3 h-3 rounded-sm border border-dashed border-white/40 bg-white/5" /> Janela do Navio</span>
+                <div className="ml-auto flex items-center gap-2">
+                    <button onClick={() => zoom(0.8)} className="px-2 py-0.5 rounded-md bg-white/10 hover:bg-white/20 font-bold">−</button>
+                    <span className="w-16 text-center">{Math.round(hourWidth)} px/h</span>
+                    <button onClick={() => zoom(1.25)} className="px-2 py-0.5 rounded-md bg-white/10 hover:bg-white/20 font-bold">+</button>
+                </div>
+            </div>
+            <div ref={scrollRef} onMouseDown={handleMouseDown} className="flex-grow overflow-auto bg-black/20 rounded-lg cursor-grab active:cursor-grabbing select-none">
+                <div className="relative" style={{ width: GANTT_LABEL_WIDTH + totalHours * hourWidth }}>
+                    <div className="flex sticky top-0 z-20 bg-teal-950/90 border-b border-white/10 h-8">
+                        <div className="sticky left-0 z-30 bg-teal-950 flex-shrink-0 text-xs text-amber-400 uppercase font-semibold px-3 flex items-center" style={{ width: GANTT_LABEL_WIDTH }}>Barcaça</div>
+                        <div className="relative flex-grow">
+                            {ticks.map(tick => (
+                                <span key={tick} className="absolute top-0 h-full border-l border-white/20 pl-1 text-[10px] text-gray-400 whitespace-nowrap" style={{ left: toX(tick) }}>
+                                    {formatDateTime(new Date(tick).toISOString())}
+                                </span>
+                            ))}
+                        </div>
+                    </div>
+                    {rows.map((row, rowIndex) => (
+                        <div key={row.id} className="flex border-b border-white/5" style={{ height: GANTT_ROW_HEIGHT }}>
+                            <div className="sticky left-0 z-10 bg-teal-950 flex-shrink-0 text-sm font-semibold text-gray-200 px-3 flex items-center justify-between gap-1" style={{ width: GANTT_LABEL_WIDTH }}>
+                                <span className="truncate">{row.name}</span>
+                                <LockToggle locked={lockedBargeIds.includes(row.id)} onToggle={onToggleBargeLock && (() => onToggleBargeLock(row.id))} title="Travar barcaça" />
+                            </div>
+                            <div className="relative flex-grow">
+                                {ticks.map(tick => <div key={tick} className="absolute top-0 h-full border-l border-white/5" style={{ left: toX(tick) }} />)}
+                                {renderWindows(row.items)}
+                                {row.items.map(({ item, index }) => renderBlocks(item, index, rowIndex))}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </div>
+            <p className="flex-shrink-0 text-xs text-gray-400 mt-2">
+                Arraste o fundo para navegar no tempo. Use Ctrl + roda do mouse ou os botões para ampliar.
+                {onEditItem && ' Arraste uma entrega para mudar o horário ou a barcaça.'}
+            </p>
+        </div>
+    );
+};
+
+// --- Unserved Requests Report Component ---
+interface UnservedRequestsReportProps {
+    unserved: UnservedRequest[];
+    onRegenerate?: (requestIds: string[]) => void;
+}
+const UnservedRequestsReport: React.FC<UnservedRequestsReportProps> = ({ unserved, onRegenerate }) => (
+    <div className="text-left bg-amber-900/30 border border-amber-500/40 rounded-lg p-3">
+        <div className="flex justify-between items-center gap-4 mb-2">
+            <p className="text-sm font-semibold text-amber-300">
+                {unserved.length} {unserved.length === 1 ? 'pedido não atendido' : 'pedidos não atendidos'} integralmente pela programação
+            </p>
+            {onRegenerate && (
+                <button
+                    onClick={() => onRegenerate(unserved.map(u => u.request.id))}
+                    title="Mantém a programação atual e planeja o que falta destes pedidos depois da última operação de cada barcaça; folgas entre operações só são usadas na geração completa"
+                    className="bg-amber-700 hover:bg-amber-600 text-white text-xs font-bold py-1.5 px-4 rounded-full transition-colors flex-shrink-0"
+                >
+                    Replanejar Pendentes
+                </button>
+            )}
+        </div>
+        <ul className="space-y-1 max-h-32 overflow-y-auto pr-2 text-xs">
+            {unserved.map(({ request, lines, partial, reason }) => (
+                <li key={request.id} className="flex flex-wrap items-center gap-2 text-gray-300">
+                    <span className="font-semibold text-white">{request.shipName}</span>
+                    <span className={`px-2 py-0.5 rounded-full ${partial ? 'bg-amber-500/20 text-amber-300' : 'bg-rose-500/20 text-rose-300'}`}>{partial ? 'Parcial' : 'Não atendido'}</span>
+                    <span>{lines.map(line => `${line.productType}: ${line.scheduled}/${line.requested}t`).join(' · ')}</span>
+                    <span className="text-gray-400">— {unservedReasonLabels[reason]}</span>
+                </li>
+            ))}
+        </ul>
+    </div>
+);
+
+// --- Inventory Chart Component ---
+interface InventoryChartProps {
+    projection: BargeInventoryProjection;
+    height?: number;
+}
+
+const INVENTORY_CHART_WIDTH = 640;
+const INVENTORY_CHART_MARGIN = { left: 48, right: 8, top: 8, bottom: 20 };
+const inventoryTankColors = ['#2dd4bf', '#fbbf24', '#a78bfa', '#38bdf8', '#f472b6'];
+
+// Projected volume of each tank of one barge over the horizon, with tank capacities dashed and overdrafts below zero.
+const InventoryChart: React.FC<InventoryChartProps> = ({ projection, height = 180 }) => {
+    const { tanks, warnings, end } = projection;
+    const times = tanks.flatMap(t => t.points.map(p => p.time));
+    const from = Math.min(...times);
+    const until = Math.max(from + HOUR_MS, end.time, ...times);
+    const top = Math.max(1, ...tanks.map(t => t.capacity));
+    const bottom = Math.min(0, ...tanks.map(t => t.lowest));
+
+    const plotWidth = INVENTORY_CHART_WIDTH - INVENTORY_CHART_MARGIN.left - INVENTORY_CHART_MARGIN.right;
+    const plotHeight = height - INVENTORY_CHART_MARGIN.top - INVENTORY_CHART_MARGIN.bottom;
+    const toX = (time: number) => INVENTORY_CHART_MARGIN.left + ((time - from) / (until - from)) * plotWidth;
+    const toY = (volume: number) => INVENTORY_CHART_MARGIN.top + ((top - volume) / (top - bottom)) * plotHeight;
+
+    return (
+        <div>
+            <svg viewBox={`0 0 ${INVENTORY_CHART_WIDTH} ${height}`} className="w-full">
+                <line x1={INVENTORY_CHART_MARGIN.left} x2={INVENTORY_CHART_WIDTH - INVENTORY_CHART_MARGIN.right} y1={toY(0)} y2={toY(0)} stroke={bottom < 0 ? '#f43f5e' : 'rgba(255,255,255,0.3)'} />
+                <text x={INVENTORY_CHART_MARGIN.left - 4} y={toY(top) + 4} textAnchor="end" className="fill-gray-400 text-[10px]">{top}t</text>
+                <text x={INVENTORY_CHART_MARGIN.left - 4} y={toY(0) + 4} textAnchor="end" className="fill-gray-400 text-[10px]">0t</text>
+                {bottom < 0 && <text x={INVENTORY_CHART_MARGIN.left - 4} y={toY(bottom)} textAnchor="end" className="fill-rose-400 text-[10px]">{Math.round(bottom)}t</text>}
+                <text x={INVENTORY_CHART_MARGIN.left} y={height - 4} className="fill-gray-400 text-[10px]">{formatDateTime(toLocalIsoMinutes(from))}</text>
+                <text x={INVENTORY_CHART_WIDTH - INVENTORY_CHART_MARGIN.right} y={height - 4} textAnchor="end" className="fill-gray-400 text-[10px]">{formatDateTime(toLocalIsoMinutes(until))}</text>
+                {tanks.map((tank, i) => {
+                    const color = inventoryTankColors[i % inventoryTankColors.length];
+                    const last = tank.points[tank.points.length - 1];
+                    const points = [...tank.points, { time: until, volume: last.volume }].map(p => `${toX(p.time)},${toY(p.volume)}`).join(' ');
+                    return (
+                        <g key={tank.productType}>
+                            <line x1={INVENTORY_CHART_MARGIN.left} x2={INVENTORY_CHART_WIDTH - INVENTORY_CHART_MARGIN.right} y1={toY(tank.capacity)} y2={toY(tank.capacity)} stroke={color} strokeOpacity={0.4} strokeDasharray="4 4" />
+                            <polyline points={points} fill="none" stroke={color} strokeWidth={2} />
+                        </g>
+                    );
+                })}
+                {warnings.map(w => (
+                    <circle key={`${w.index}-${w.productType}`} cx={toX(w.time)} cy={toY(w.volume)} r={4} className="fill-rose-500">
+                        <title>{w.message}</title>
+                    </circle>
+                ))}
+            </svg>
+            <div className="flex flex-wrap gap-3 mt-1 text-xs text-gray-300">
+                {tanks.map((tank, i) => (
+                    <span key={tank.productType} className="flex items-center gap-1">
+                        <span className="inline-block w-3 h-0.5" style={{ backgroundColor: inventoryTankColors[i % inventoryTankColors.length] }} />
+                        {tank.productType} (máx. {tank.capacity}t)
+                    </span>
+                ))}
+            </div>
+        </div>
+    );
+};
+
+// Where a barge ends the horizon and what it still holds, with the projected overdrafts.
+const InventoryEndState: React.FC<{ projection: BargeInventoryProjection }> = ({ projection }) => (
+    <div className="text-xs space-y-1">
+        <p className="text-gray-300">
+            Fim do horizonte: <span className="font-semibold text-gray-100">{projection.end.location?.name || 'local desconhecido'}</span>, livre em {formatDateTime(toLocalIsoMinutes(projection.end.time))}
+        </p>
+        <p className="text-gray-300">
+            {projection.tanks.map(tank => (
+                <span key={tank.productType} className={`mr-3 ${projection.end.volumes[tank.productType] < 0 ? 'text-rose-300 font-semibold' : ''}`}>
+                    {tank.productType}: {Math.round(projection.end.volumes[tank.productType])}t / {tank.capacity}t
+                </span>
+            ))}
+        </p>
+        {projection.warnings.map(w => (
+            <p key={`${w.index}-${w.productType}`} className="text-rose-300">{w.kind === 'missing-reload' ? 'Recarga faltando' : 'Volume negativo'}: {w.message}</p>
+        ))}
+    </div>
+);
+
 // --- Schedule View Component ---
 interface ScheduleViewProps {
   schedule: ScheduleItem[];
   isLoading: boolean;
   requests: RefuelingRequest[];
+  violations: ScheduleViolation[];
+  barges: Barge[];
+  simulationStartTime: string;
+  onEditItem?: (index: number, change: ScheduleItemChange) => void;
+  lockedBargeIds: string[];
+  onToggleItemLock?: (index: number) => void;
+  onToggleBargeLock?: (bargeId: string) => void;
+  inventory: BargeInventoryProjection[];
+  locations: Location[];
 }
 
 type ScheduleColWidths = {
@@ -593,37 +1306,85 @@ type ScheduleColWidths = {
     windowStart: number;
     windowEnd: number;
     contractualDate: number;
+    departureTime: number;
+    distanceNm: number;
+    pumping: number;
+    releaseTime: number;
 };
 
-const ScheduleView: React.FC<ScheduleViewProps> = ({ schedule, isLoading, requests }) => {
-    const [viewMode, setViewMode] = useState<'list' | 'kanban' | 'table'>('list');
+const ScheduleView: React.FC<ScheduleViewProps> = ({ schedule, isLoading, requests, violations, barges, simulationStartTime, onEditItem, lockedBargeIds, onToggleItemLock, onToggleBargeLock, inventory, locations }) => {
+    const [viewMode, setViewMode] = useState<'list' | 'kanban' | 'table' | 'gantt' | 'inventory'>('list');
+    const inventoryWarnings = useMemo(() => inventory.reduce((sum, p) => sum + p.warnings.length, 0), [inventory]);
+    const violationsByItem = useMemo(() => groupViolationsByItem(violations), [violations]);
+    const [editingIndex, setEditingIndex] = useState<number | null>(null);
+    const [editDraft, setEditDraft] = useState({ quantity: 0, scheduledTime: '' });
+    const draggedCard = useRef<number | null>(null);
+    const dragOverTime = useRef<string | null>(null);
 
+    // Every barge gets a column, even without operations, so cards can be dropped onto it.
     const scheduleByBarge = useMemo(() => {
         if (viewMode !== 'kanban') return {};
+        const initial = barges.reduce((acc, barge) => ({ ...acc, [barge.id]: { name: barge.name, items: [] } }), {} as Record<string, { name: string; items: ScheduleItem[] }>);
         return schedule.reduce((acc, item) => {
-            if (!acc[item.bargeName]) {
-                acc[item.bargeName] = [];
+            if (!acc[item.bargeId]) {
+                acc[item.bargeId] = { name: item.bargeName, items: [] };
             }
-            acc[item.bargeName].push(item);
+            acc[item.bargeId].items.push(item);
             return acc;
-        }, {} as Record<string, ScheduleItem[]>);
-    }, [schedule, viewMode]);
+        }, initial);
+    }, [schedule, barges, viewMode]);
+
+    // Edits and moves re-sort the schedule, so any open editor is closed when it changes.
+    useEffect(() => {
+        setEditingIndex(null);
+    }, [schedule]);
+
+    const startEditing = (item: ScheduleItem, index: number) => {
+        setEditingIndex(index);
+        setEditDraft({ quantity: item.quantity, scheduledTime: item.scheduledTime });
+    };
+
+    const exportName = `programacao-${simulationStartTime.slice(0, 10)}`;
+    const handleCalendarExport = (bargeId: string) => {
+        const barge = barges.find(b => b.id === bargeId);
+        if (barge) downloadFile(`programacao-${fileSlug(barge.name)}.ics`, buildBargeCalendar(barge, schedule, locations), 'text/calendar;charset=utf-8');
+    };
+
+    const handleApplyEdit = () => {
+        if (editingIndex === null || !onEditItem) return;
+        onEditItem(editingIndex, { quantity: editDraft.quantity, scheduledTime: editDraft.scheduledTime });
+        setEditingIndex(null);
+    };
+
+    // A card dropped onto another takes its start time; dropped onto the empty part of a column it keeps its own.
+    const handleCardDrop = (bargeId: string) => {
+        if (draggedCard.current === null || !onEditItem || lockedBargeIds.includes(bargeId)) return;
+        const item = schedule[draggedCard.current];
+        const change: ScheduleItemChange = {};
+        if (item.bargeId !== bargeId) change.bargeId = bargeId;
+        if (dragOverTime.current && dragOverTime.current !== item.scheduledTime) change.scheduledTime = dragOverTime.current;
+        if (change.bargeId || change.scheduledTime) onEditItem(draggedCard.current, change);
+        draggedCard.current = null;
+        dragOverTime.current = null;
+    };
     
     const scheduleTableData = useMemo(() => {
         if (viewMode !== 'table') return [];
         
         return schedule
-            .filter(item => item.shipName !== 'TERMINAL')
-            .map(item => {
-                const originalRequest = requests.find(r => r.shipName === item.shipName);
+            .map((item, scheduleIndex) => ({ item, scheduleIndex }))
+            .filter(({ item }) => item.shipName !== 'TERMINAL')
+            .map(({ item, scheduleIndex }) => {
+                const originalRequest = requests.find(r => r.id === item.requestId);
                 return {
                     ...item,
+                    violations: violationsByItem.get(scheduleIndex) || [],
                     windowStart: originalRequest?.windowStart || '',
                     windowEnd: originalRequest?.windowEnd || '',
                     contractualDate: originalRequest?.contractualDate || '',
                 };
             });
-    }, [schedule, requests, viewMode]);
+    }, [schedule, requests, viewMode, violationsByItem]);
 
     const [scheduleColWidths, setScheduleColWidths] = useState<ScheduleColWidths>({
         shipName: 180,
@@ -635,6 +1396,10 @@ const ScheduleView: React.FC<ScheduleViewProps> = ({ schedule, isLoading, reques
         windowStart: 180,
         windowEnd: 180,
         contractualDate: 150,
+        departureTime: 180,
+        distanceNm: 120,
+        pumping: 280,
+        releaseTime: 180,
     });
     const resizingScheduleColKey = useRef<keyof ScheduleColWidths | null>(null);
     const startScheduleX = useRef(0);
@@ -674,53 +1439,108 @@ const ScheduleView: React.FC<ScheduleViewProps> = ({ schedule, isLoading, reques
         { key: 'windowEnd', label: 'Fim da Janela' },
         { key: 'contractualDate', label: 'Data Contratual' },
         { key: 'bargeName', label: 'Barcaça Designada' },
+        { key: 'departureTime', label: 'Saída' },
+        { key: 'distanceNm', label: 'Trânsito' },
         { key: 'scheduledTime', label: 'Horário Agendado' },
+        { key: 'pumping', label: 'Bombeio' },
+        { key: 'releaseTime', label: 'Liberação' },
     ] as const, []);
 
 
+    const renderViolations = (itemViolations: ScheduleViolation[]) => itemViolations.length > 0 && (
+        <ul className="mt-3 space-y-1 text-xs text-rose-300 bg-rose-900/30 p-2 rounded-md">
+            {itemViolations.map((v, i) => (
+                <li key={`${v.code}-${i}`} className="flex items-start gap-1.5"><InfoIcon className="w-3.5 h-3.5 flex-shrink-0 mt-0.5" /> {v.message}</li>
+            ))}
+        </ul>
+    );
+
     const renderScheduleItem = (item: ScheduleItem, index: number, view: 'list' | 'kanban') => {
         const baseClasses = "bg-white/5 p-4 rounded-lg animate-fade-in";
         const listClasses = "border-l-4"; 
         const kanbanClasses = "border-t-4";
+        const scheduleIndex = schedule.indexOf(item);
+        const itemViolations = violationsByItem.get(scheduleIndex) || [];
+        const dragHandlers = view === 'kanban' ? {
+            onDragEnter: () => { dragOverTime.current = item.scheduledTime; },
+        } : {};
+        const isLocked = isLockedItem(item, lockedBargeIds);
+        const canEdit = !!onEditItem && !isLocked;
+        const lockToggle = (
+            <LockToggle
+                locked={isLocked}
+                onToggle={onToggleItemLock && !lockedBargeIds.includes(item.bargeId) ? () => onToggleItemLock(scheduleIndex) : undefined}
+                title={lockedBargeIds.includes(item.bargeId) ? 'Barcaça travada' : 'Travar operação'}
+            />
+        );
 
         if (item.shipName === 'TERMINAL') {
               return (
-                  <div key={`${item.scheduledTime}-${item.bargeName}-${index}`} className={`${baseClasses} ${view === 'list' ? `${listClasses} border-amber-500` : `${kanbanClasses} border-amber-500`}`}>
+                  <div key={`${item.scheduledTime}-${item.bargeName}-${index}`} {...dragHandlers} className={`${baseClasses} ${view === 'list' ? `${listClasses} border-amber-500` : `${kanbanClasses} border-amber-500`}`}>
                     <div className="flex justify-between items-start">
                       <div>
                         <p className="font-bold text-lg text-white flex items-center gap-2">
                             <TerminalIcon className="w-6 h-6 text-amber-400" />
-                            Para o Terminal
+                            Para o Terminal {item.locationName}
                         </p>
                         <p className="text-sm text-gray-400">Barcaça: <span className="font-semibold text-gray-300">{item.bargeName}</span></p>
                       </div>
-                      <div className="text-right flex-shrink-0 ml-2">
+                      <div className="text-right flex-shrink-0 ml-2 flex items-center gap-1">
                           <span className="text-xs font-semibold bg-amber-500/20 text-amber-300 px-2 py-1 rounded-full">Recarregar {item.product}</span>
+                          {lockToggle}
                       </div>
                     </div>
                     <div className="mt-3 pt-3 border-t border-white/10 flex items-center gap-2 text-amber-300">
                       <ClockIcon className="w-5 h-5"/>
                       <p className="text-sm font-medium">{formatDateTime(item.scheduledTime)}</p>
                     </div>
+                    {item.timeline && <TimelineDetails timeline={item.timeline} scheduledTime={item.scheduledTime} isTerminal />}
+                    {renderViolations(itemViolations)}
                   </div>
               );
           }
+          const isEditing = editingIndex === scheduleIndex;
+          const editInputClasses = "bg-white/10 text-white p-1 rounded-md border border-white/20 focus:ring-2 focus:ring-amber-500 focus:outline-none text-sm";
           return (
-              <div key={`${item.scheduledTime}-${item.shipName}-${index}`} className={`${baseClasses} ${view === 'list' ? `${listClasses} border-teal-500` : `${kanbanClasses} border-teal-500`}`}>
+              <div
+                key={`${item.scheduledTime}-${item.shipName}-${index}`}
+                draggable={view === 'kanban' && canEdit && !isEditing}
+                onDragStart={() => { draggedCard.current = scheduleIndex; dragOverTime.current = null; }}
+                {...dragHandlers}
+                className={`${baseClasses} ${view === 'list' ? `${listClasses} border-teal-500` : `${kanbanClasses} border-teal-500`} ${view === 'kanban' && canEdit ? 'cursor-grab active:cursor-grabbing' : ''}`}
+              >
                 <div className="flex justify-between items-start">
                   <div>
                     <p className="font-bold text-lg text-white">{item.shipName}</p>
                     <p className="text-sm text-gray-400">Barcaça: <span className="font-semibold text-gray-300">{item.bargeName}</span></p>
                     <p className="text-sm text-gray-400 mt-1 flex items-center gap-1.5"><MapPinIcon className="w-4 h-4" /> {item.locationName}</p>
                   </div>
-                  <div className="text-right flex-shrink-0 ml-2">
-                      <span className="text-xs font-semibold bg-teal-500/20 text-teal-300 px-2 py-1 rounded-full">{item.quantity}t {item.product}</span>
+                  <div className="text-right flex-shrink-0 ml-2 flex items-center gap-1">
+                      {isEditing ? (
+                          <input type="number" min="0" value={editDraft.quantity} onChange={e => setEditDraft(prev => ({ ...prev, quantity: parseFloat(e.target.value) || 0 }))} className={`${editInputClasses} w-24`} />
+                      ) : (
+                          <span className="text-xs font-semibold bg-teal-500/20 text-teal-300 px-2 py-1 rounded-full">{item.quantity}t {item.product}</span>
+                      )}
+                      {canEdit && !isEditing && (
+                          <button onClick={() => startEditing(item, scheduleIndex)} title="Editar" className="text-amber-500 hover:text-amber-400 p-1 rounded-full transition-colors"><PencilIcon className="w-4 h-4"/></button>
+                      )}
+                      {!isEditing && lockToggle}
                   </div>
                 </div>
                 <div className="mt-3 pt-3 border-t border-white/10 flex items-center gap-2 text-teal-300">
                   <ClockIcon className="w-5 h-5"/>
-                  <p className="text-sm font-medium">{formatDateTime(item.scheduledTime)}</p>
+                  {isEditing ? (
+                      <>
+                          <input type="datetime-local" value={editDraft.scheduledTime} onChange={e => setEditDraft(prev => ({ ...prev, scheduledTime: e.target.value }))} className={`${editInputClasses} flex-grow`} />
+                          <button onClick={handleApplyEdit} title="Aplicar" className="text-teal-400 hover:text-teal-300 p-1"><CheckIcon className="w-5 h-5"/></button>
+                          <button onClick={() => setEditingIndex(null)} title="Cancelar" className="text-gray-400 hover:text-rose-400 p-1"><XIcon className="w-5 h-5"/></button>
+                      </>
+                  ) : (
+                      <p className="text-sm font-medium">{formatDateTime(item.scheduledTime)}</p>
+                  )}
                 </div>
+                {item.timeline && <TimelineDetails timeline={item.timeline} scheduledTime={item.scheduledTime} isTerminal={false} />}
+                {renderViolations(itemViolations)}
               </div>
           );
     };
@@ -728,17 +1548,41 @@ const ScheduleView: React.FC<ScheduleViewProps> = ({ schedule, isLoading, reques
     return (
       <Card title="Programação Gerada" icon={<CalendarIcon className="w-7 h-7 text-amber-400" />}>
         <div className="h-full flex flex-col">
-            <div className="flex-shrink-0 mb-4 flex justify-end gap-2">
+            <div className="flex-shrink-0 mb-4 flex justify-end items-center gap-2">
+                {!isLoading && violations.length > 0 && (
+                    <span className="mr-auto text-xs font-semibold bg-rose-500/20 text-rose-300 px-3 py-1 rounded-full">
+                        {violations.length} {violations.length === 1 ? 'violação encontrada' : 'violações encontradas'}
+                    </span>
+                )}
+                {!isLoading && inventoryWarnings > 0 && (
+                    <span className={`${violations.length > 0 ? '' : 'mr-auto '}text-xs font-semibold bg-amber-500/20 text-amber-300 px-3 py-1 rounded-full`}>
+                        {inventoryWarnings} {inventoryWarnings === 1 ? 'alerta de volume a bordo' : 'alertas de volume a bordo'}
+                    </span>
+                )}
                 <button onClick={() => setViewMode('list')} className={`px-3 py-1 text-xs font-semibold rounded-md transition-colors ${viewMode === 'list' ? 'bg-gradient-to-r from-teal-500 to-amber-500 text-white' : 'bg-white/10 hover:bg-white/20 text-gray-300'}`}>Lista</button>
                 <button onClick={() => setViewMode('kanban')} className={`px-3 py-1 text-xs font-semibold rounded-md transition-colors ${viewMode === 'kanban' ? 'bg-gradient-to-r from-teal-500 to-amber-500 text-white' : 'bg-white/10 hover:bg-white/20 text-gray-300'}`}>Por Barcaça</button>
                 <button onClick={() => setViewMode('table')} className={`px-3 py-1 text-xs font-semibold rounded-md transition-colors ${viewMode === 'table' ? 'bg-gradient-to-r from-teal-500 to-amber-500 text-white' : 'bg-white/10 hover:bg-white/20 text-gray-300'}`}>Tabela</button>
+                <button onClick={() => setViewMode('gantt')} className={`px-3 py-1 text-xs font-semibold rounded-md transition-colors ${viewMode === 'gantt' ? 'bg-gradient-to-r from-teal-500 to-amber-500 text-white' : 'bg-white/10 hover:bg-white/20 text-gray-300'}`}>Gantt</button>
+                <button onClick={() => setViewMode('inventory')} className={`px-3 py-1 text-xs font-semibold rounded-md transition-colors ${viewMode === 'inventory' ? 'bg-gradient-to-r from-teal-500 to-amber-500 text-white' : 'bg-white/10 hover:bg-white/20 text-gray-300'}`}>Volume a Bordo</button>
             </div>
+            {!isLoading && schedule.length > 0 && (
+                <div className="flex-shrink-0 mb-4 flex justify-end items-center gap-2 text-xs">
+                    <span className="text-gray-400 mr-1">Exportar:</span>
+                    <button onClick={() => downloadTable(exportName, scheduleExportRows(schedule, requests), 'csv', 'Programação')} className="bg-white/10 hover:bg-white/20 text-gray-200 font-semibold py-1 px-3 rounded-md transition-colors">CSV</button>
+                    <button onClick={() => downloadTable(exportName, scheduleExportRows(schedule, requests), 'xlsx', 'Programação')} className="bg-white/10 hover:bg-white/20 text-gray-200 font-semibold py-1 px-3 rounded-md transition-colors">XLSX</button>
+                    <button onClick={() => downloadFile(`ordens-de-servico-${simulationStartTime.slice(0, 10)}.pdf`, buildServiceOrdersPdf(schedule, barges), 'application/pdf')} className="bg-white/10 hover:bg-white/20 text-gray-200 font-semibold py-1 px-3 rounded-md transition-colors">Ordens de Serviço (PDF)</button>
+                    <select value="" onChange={e => handleCalendarExport(e.target.value)} className="bg-white/10 text-gray-200 font-semibold py-1 px-2 rounded-md border border-white/20">
+                        <option value="">iCalendar por barcaça…</option>
+                        {barges.map(barge => <option key={barge.id} value={barge.id}>{barge.name}</option>)}
+                    </select>
+                </div>
+            )}
             
             <div className="flex-grow overflow-auto pr-1">
                 {isLoading && (
                     <div className="flex flex-col items-center justify-center text-center p-8 h-full">
                         <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-amber-400"></div>
-                        <p className="text-gray-300 mt-4">A IA está gerando a programação otimizada...</p>
+                        <p className="text-gray-300 mt-4">Gerando a programação otimizada...</p>
                     </div>
                 )}
                 {!isLoading && schedule.length === 0 && (
@@ -752,11 +1596,33 @@ const ScheduleView: React.FC<ScheduleViewProps> = ({ schedule, isLoading, reques
                         <div className="space-y-4 pr-1">
                             {schedule.map((item, index) => renderScheduleItem(item, index, 'list'))}
                         </div>
+                    ) : viewMode === 'gantt' ? (
+                        <GanttChart schedule={schedule} barges={barges} requests={requests} simulationStartTime={simulationStartTime} violationsByItem={violationsByItem} onEditItem={onEditItem} lockedBargeIds={lockedBargeIds} onToggleBargeLock={onToggleBargeLock} />
+                    ) : viewMode === 'inventory' ? (
+                        <div className="space-y-4 pr-1">
+                            {inventory.map(projection => (
+                                <div key={projection.barge.id} className="bg-black/20 rounded-xl p-4 space-y-2">
+                                    <h3 className="font-bold text-amber-400">{projection.barge.name}</h3>
+                                    <InventoryChart projection={projection} />
+                                    <InventoryEndState projection={projection} />
+                                </div>
+                            ))}
+                        </div>
                     ) : viewMode === 'kanban' ? (
                         <div className="flex gap-6 pb-4">
-                            {Object.entries(scheduleByBarge).map(([bargeName, items]: [string, ScheduleItem[]]) => (
-                                <div key={bargeName} className="flex-shrink-0 w-80 bg-black/20 rounded-xl p-4">
-                                    <h3 className="font-bold text-lg text-amber-400 mb-4 pb-2 border-b border-white/10">{bargeName}</h3>
+                            {Object.entries(scheduleByBarge).map(([bargeId, { name: bargeName, items }]: [string, { name: string; items: ScheduleItem[] }]) => (
+                                <div
+                                    key={bargeId}
+                                    onDragEnter={e => { if (e.target === e.currentTarget) dragOverTime.current = null; }}
+                                    onDragOver={e => e.preventDefault()}
+                                    onDrop={() => handleCardDrop(bargeId)}
+                                    className="flex-shrink-0 w-80 bg-black/20 rounded-xl p-4"
+                                >
+                                    <h3 className="font-bold text-lg text-amber-400 mb-4 pb-2 border-b border-white/10 flex items-center justify-between">
+                                        {bargeName}
+                                        <LockToggle locked={lockedBargeIds.includes(bargeId)} onToggle={onToggleBargeLock && (() => onToggleBargeLock(bargeId))} title="Travar barcaça" />
+                                    </h3>
+                                    {items.length === 0 && <p className="text-sm text-gray-500 text-center py-6">Solte uma entrega aqui.</p>}
                                     <div className="space-y-4">
                                         {items.map((item, index) => renderScheduleItem(item, index, 'kanban'))}
                                     </div>
@@ -788,8 +1654,13 @@ const ScheduleView: React.FC<ScheduleViewProps> = ({ schedule, isLoading, reques
                                 </thead>
                                 <tbody className="divide-y divide-white/10">
                                     {scheduleTableData.map((item, index) => (
-                                        <tr key={`${item.bargeName}-${item.shipName}-${item.scheduledTime}-${index}`} className="hover:bg-white/5 transition-colors">
-                                            <td className="px-4 py-2 font-semibold text-gray-200">{item.shipName}</td>
+                                        <tr key={`${item.bargeName}-${item.shipName}-${item.scheduledTime}-${index}`} className={`transition-colors ${item.violations.length > 0 ? 'bg-rose-900/30 hover:bg-rose-900/40' : 'hover:bg-white/5'}`}>
+                                            <td className="px-4 py-2 font-semibold text-gray-200" title={item.violations.map(v => v.message).join('\n')}>
+                                                <span className="flex items-center gap-1.5">
+                                                    {item.violations.length > 0 && <InfoIcon className="w-4 h-4 text-rose-400 flex-shrink-0" />}
+                                                    {item.shipName}
+                                                </span>
+                                            </td>
                                             <td className="px-4 py-2">{item.locationName}</td>
                                             <td className="px-4 py-2">{item.product}</td>
                                             <td className="px-4 py-2">{item.quantity}t</td>
@@ -797,7 +1668,11 @@ const ScheduleView: React.FC<ScheduleViewProps> = ({ schedule, isLoading, reques
                                             <td className="px-4 py-2">{formatDateTime(item.windowEnd)}</td>
                                             <td className="px-4 py-2">{formatDate(item.contractualDate)}</td>
                                             <td className="px-4 py-2 text-teal-300">{item.bargeName}</td>
+                                            <td className="px-4 py-2">{item.timeline ? formatDateTime(item.timeline.departureTime) : '-'}</td>
+                                            <td className="px-4 py-2">{item.timeline ? `${item.timeline.distanceNm} nm · ${item.timeline.transitHours}h` : '-'}</td>
                                             <td className="px-4 py-2 text-teal-300">{formatDateTime(item.scheduledTime)}</td>
+                                            <td className="px-4 py-2">{item.timeline ? `${formatDateTime(item.timeline.pumpingStartTime)} → ${formatDateTime(item.timeline.pumpingEndTime)}` : '-'}</td>
+                                            <td className="px-4 py-2">{item.timeline ? formatDateTime(item.timeline.releaseTime) : '-'}</td>
                                         </tr>
                                     ))}
                                 </tbody>
@@ -814,14 +1689,67 @@ const ScheduleView: React.FC<ScheduleViewProps> = ({ schedule, isLoading, reques
 // --- Operations History Component ---
 interface OperationsHistoryProps {
     history: OperationHistoryItem[];
+    onRecordActuals: (id: string, actuals: OperationActuals) => void;
+    onIssueBdn: (id: string) => void;
+    supplier: BdnSupplier;
+    setSupplier: React.Dispatch<React.SetStateAction<BdnSupplier>>;
 }
-const OperationsHistory: React.FC<OperationsHistoryProps> = ({ history }) => {
+
+// The actual phase times in the order they must happen.
+const actualTimeFields: { key: keyof OperationActuals; label: string }[] = [
+    { key: 'arrivalTime', label: 'Chegada' },
+    { key: 'hoseConnectedTime', label: 'Mangote Conectado' },
+    { key: 'pumpingStartTime', label: 'Início Bombeio' },
+    { key: 'pumpingEndTime', label: 'Fim Bombeio' },
+    { key: 'hoseDisconnectedTime', label: 'Desconexão' },
+];
+
+const formatHours = (hours: number | null) => (hours === null ? '-' : `${hours >= 0 ? '+' : ''}${hours.toFixed(1)}h`);
+const formatPlannedVsActual = (value: PlannedVsActual | null, digits = 1) =>
+    value ? `${value.planned.toFixed(digits)} / ${value.actual.toFixed(digits)}` : '-';
+
+const OperationsHistory: React.FC<OperationsHistoryProps> = ({ history, onRecordActuals, onIssueBdn, supplier, setSupplier }) => {
+    const [showSupplier, setShowSupplier] = useState(false);
+    const [editingId, setEditingId] = useState<string | null>(null);
+    const [actualsForm, setActualsForm] = useState<OperationActuals | null>(null);
+    const [varianceGrouping, setVarianceGrouping] = useState<'barge' | 'location'>('barge');
+    const variances = useMemo(() => computeOperationVariances(history), [history]);
+    const varianceSummary = useMemo(() => summarizeVariances(variances, varianceGrouping), [variances, varianceGrouping]);
+    const inputClasses = "w-full bg-white/10 text-white text-xs p-1.5 rounded-md border border-white/20 focus:ring-2 focus:ring-amber-500 focus:outline-none";
+
+    // A new record starts from the plan, so only what differed needs to be changed.
+    const startRecording = (item: OperationHistoryItem) => {
+        setEditingId(item.id);
+        setActualsForm(item.actuals || {
+            arrivalTime: item.timeline?.arrivalTime,
+            pumpingStartTime: item.timeline?.pumpingStartTime,
+            pumpingEndTime: item.timeline?.pumpingEndTime,
+            hoseDisconnectedTime: item.timeline?.releaseTime,
+            deliveredQuantity: item.quantity,
+            recordedAt: '',
+        });
+    };
+
+    const saveActuals = () => {
+        if (!editingId || !actualsForm) return;
+        const times = actualTimeFields.map(f => actualsForm[f.key] as string | undefined).filter((t): t is string => !!t);
+        if (times.some((t, i) => i > 0 && t < times[i - 1])) {
+            alert("Os horários realizados devem seguir a ordem: chegada, conexão, início e fim do bombeio, desconexão.");
+            return;
+        }
+        onRecordActuals(editingId, { ...actualsForm, recordedAt: new Date().toISOString() });
+        setEditingId(null);
+        setActualsForm(null);
+    };
+
+    // Grouped by request so that two nominations for ships with the same name stay apart.
     const groupedHistory = useMemo(() => {
         return history.reduce((acc, item) => {
-            if (!acc[item.shipName]) {
-                acc[item.shipName] = [];
+            const key = item.requestId || item.shipName;
+            if (!acc[key]) {
+                acc[key] = [];
             }
-            acc[item.shipName].push(item);
+            acc[key].push(item);
             return acc;
         }, {} as Record<string, OperationHistoryItem[]>);
     }, [history]);
@@ -829,16 +1757,87 @@ const OperationsHistory: React.FC<OperationsHistoryProps> = ({ history }) => {
     return (
         <Card title="Publicações" icon={<PublishIcon className="w-7 h-7 text-amber-400" />}>
             <div className="space-y-6 overflow-y-auto pr-2 h-full">
-                {history.length === 0 && (
-                    <div className="text-center text-gray-400 p-8">
-                        <p>Nenhuma operação foi publicada ainda.</p>
-                        <p className="text-sm mt-2">Gere uma programação e publique-a para ver as publicações aqui.</p>
-                    </div>
+                <div className="p-4 bg-white/5 rounded-lg">
+                    <button onClick={() => setShowSupplier(!showSupplier)} className="w-full flex justify-between items-center font-bold text-gray-200">
+                        Fornecedor nas BDNs
+                        <span className="text-xs font-normal text-gray-400">{supplier.name || 'não configurado'}</span>
+                    </button>
+                    {showSupplier && (
+                        <div className="grid grid-cols-2 gap-2 mt-3">
+                            {([
+                                { key: 'name', label: 'Nome do Fornecedor' },
+                                { key: 'phone', label: 'Telefone' },
+                                { key: 'address', label: 'Endereço' },
+                                { key: 'port', label: 'Porto' },
+                            ] as const).map(field => (
+                                <div key={field.key}>
+                                    <label className="text-xs text-gray-400">{field.label}</label>
+                                    <input type="text" value={supplier[field.key]} onChange={e => setSupplier(prev => ({ ...prev, [field.key]: e.target.value }))} className={inputClasses} />
+                                </div>
+                            ))}
+                            <p className="col-span-2 text-xs text-gray-400">Os dados são copiados para cada BDN na publicação; para atualizar uma BDN já emitida, use "Reemitir BDN".</p>
+                        </div>
+                    )}
+                </div>
+                {history.length > 0 && (
+                    <div className="flex justify-end items-center gap-2 text-xs">
+                        <span className="text-gray-400 mr-1">Exportar:</span>
+                        <button onClick={() => downloadTable('historico-operacoes', historyExportRows(history), 'csv', 'Publicações')} className="bg-white/10 hover:bg-white/20 text-gray-200 font-semibold py-1 px-3 rounded-md transition-colors">CSV</button>
+                        <button onClick={() => downloadTable('historico-operacoes', historyExportRows(history), 'xlsx', 'Publicações')} className="bg-white/10 hover:bg-white/20 text-gray-200 font-semibold py-1 px-3 rounded-md transition-colors">XLSX</button>
+                    </div>
+                )}
+                {variances.length > 0 && (
+                    <div className="p-4 bg-white/5 rounded-lg">
+                        <div className="flex justify-between items-center mb-3">
+                            <h3 className="font-bold text-gray-200">Planejado x Realizado</h3>
+                            <div className="flex gap-1 text-xs">
+                                {(['barge', 'location'] as const).map(grouping => (
+                                    <button key={grouping} onClick={() => setVarianceGrouping(grouping)} className={`px-3 py-1 rounded-full font-semibold transition-colors ${varianceGrouping === grouping ? 'bg-amber-600 text-white' : 'bg-white/10 text-gray-300 hover:bg-white/20'}`}>
+                                        {grouping === 'barge' ? 'Por Barcaça' : 'Por Local'}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                        <table className="w-full text-xs text-left text-gray-300">
+                            <thead className="text-amber-400 uppercase">
+                                <tr>
+                                    <th className="py-1">{varianceGrouping === 'barge' ? 'Barcaça' : 'Local'}</th>
+                                    <th className="py-1">Operações</th>
+                                    <th className="py-1" title="Média do atraso na chegada em relação ao planejado">Atraso Chegada</th>
+                                    <th className="py-1" title="Horas entre a operação anterior da barcaça e a chegada (planejado / realizado)">Trânsito (h)</th>
+                                    <th className="py-1" title="Da chegada ao início do bombeio (planejado / realizado)">Faina Inicial (h)</th>
+                                    <th className="py-1" title="Planejado / realizado">Taxa Bombeio (t/h)</th>
+                                    <th className="py-1" title="Do fim do bombeio à desconexão (planejado / realizado)">Faina Final (h)</th>
+                                    <th className="py-1">Δ Quantidade</th>
+                                </tr>
+                            </thead>
+                            <tbody className="divide-y divide-white/10">
+                                {varianceSummary.map(row => (
+                                    <tr key={row.key}>
+                                        <td className="py-1 font-semibold text-gray-200">{row.name}</td>
+                                        <td className="py-1">{row.operations}</td>
+                                        <td className={`py-1 ${(row.arrivalDelayHours ?? 0) > 0 ? 'text-rose-300' : 'text-teal-300'}`}>{formatHours(row.arrivalDelayHours)}</td>
+                                        <td className="py-1">{formatPlannedVsActual(row.transitHours)}</td>
+                                        <td className="py-1">{formatPlannedVsActual(row.initialFainaHours)}</td>
+                                        <td className="py-1">{formatPlannedVsActual(row.pumpRate, 0)}</td>
+                                        <td className="py-1">{formatPlannedVsActual(row.finalFainaHours)}</td>
+                                        <td className={`py-1 ${row.quantityVariance < 0 ? 'text-rose-300' : ''}`}>{row.quantityVariance > 0 ? '+' : ''}{row.quantityVariance}t</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
                 )}
-                {Object.entries(groupedHistory).map(([shipName, items]: [string, OperationHistoryItem[]]) => (
-                    <div key={shipName}>
+                {history.length === 0 && (
+                    <div className="text-center text-gray-400 p-8">
+                        <p>Nenhuma operação foi publicada ainda.</p>
+                        <p className="text-sm mt-2">Gere uma programação e publique-a para ver as publicações aqui.</p>
+                    </div>
+                )}
+                {Object.entries(groupedHistory).map(([groupKey, items]: [string, OperationHistoryItem[]]) => (
+                    <div key={groupKey}>
                         <h3 className="text-lg font-bold text-gray-200 mb-2 border-b-2 border-white/10 pb-1 flex items-center gap-2">
-                           <ShipIcon className="w-5 h-5" /> {shipName}
+                           <ShipIcon className="w-5 h-5" /> {items[0].shipName}
                         </h3>
                         <div className="space-y-3">
                             {items.map(item => (
@@ -848,9 +1847,62 @@ const OperationsHistory: React.FC<OperationsHistoryProps> = ({ history }) => {
                                             <p className="text-gray-300">
                                                 <span className="font-semibold text-teal-400">{item.quantity}t {item.product}</span> via {item.bargeName}
                                             </p>
+                                            {item.locationName && <p className="text-xs text-gray-400 mt-1 flex items-center gap-1"><MapPinIcon className="w-3 h-3" /> {item.locationName}</p>}
+                                        </div>
+                                        <div className="text-right">
+                                            <p className="text-xs text-gray-400">{formatDateTime(item.completionTime)}</p>
+                                            {editingId !== item.id && (
+                                                <button onClick={() => startRecording(item)} className="mt-1 text-xs text-amber-400 hover:text-amber-300 font-semibold">
+                                                    {item.actuals ? 'Editar Realizado' : 'Registrar Realizado'}
+                                                </button>
+                                            )}
+                                            <div className="mt-1 flex justify-end gap-2 text-xs">
+                                                {item.bdn ? (
+                                                    <>
+                                                        <button onClick={() => downloadFile(`${item.bdn!.number}.pdf`, buildBunkerDeliveryNotePdf(item), 'application/pdf')} className="text-teal-400 hover:text-teal-300 font-semibold">{item.bdn.number} (PDF)</button>
+                                                        <button onClick={() => window.confirm(`Reemitir a BDN com um novo número? A ${item.bdn!.number} deixará de valer.`) && onIssueBdn(item.id)} className="text-gray-400 hover:text-gray-300">Reemitir BDN</button>
+                                                    </>
+                                                ) : (
+                                                    <button onClick={() => onIssueBdn(item.id)} className="text-teal-400 hover:text-teal-300 font-semibold">Emitir BDN</button>
+                                                )}
+                                            </div>
+                                            {item.bdn && bdnMissingFields(item.bdn).length > 0 && (
+                                                <p className="mt-1 text-[10px] text-amber-300" title={bdnMissingFields(item.bdn).join(', ')}>BDN incompleta: {bdnMissingFields(item.bdn).join(', ')}</p>
+                                            )}
                                         </div>
-                                        <p className="text-xs text-gray-400">{formatDateTime(item.completionTime)}</p>
                                     </div>
+                                    {item.timeline && item.scheduledTime && <TimelineDetails timeline={item.timeline} scheduledTime={item.scheduledTime} isTerminal={false} />}
+                                    {item.actuals && editingId !== item.id && (
+                                        <div className="mt-2 text-xs text-gray-400 space-y-0.5">
+                                            <p>
+                                                <span className="font-semibold text-gray-300">Realizado:</span>{' '}
+                                                {actualTimeFields.filter(f => item.actuals![f.key]).map(f => `${f.label} ${formatDateTime(item.actuals![f.key] as string)}`).join(' · ')}
+                                                {item.actuals.deliveredQuantity !== undefined && ` · Entregue ${item.actuals.deliveredQuantity}t`}
+                                            </p>
+                                            {item.actuals.remarks && <p className="italic">{item.actuals.remarks}</p>}
+                                        </div>
+                                    )}
+                                    {editingId === item.id && actualsForm && (
+                                        <div className="mt-3 p-3 bg-black/20 rounded-md space-y-2">
+                                            <div className="grid grid-cols-3 gap-2">
+                                                {actualTimeFields.map(field => (
+                                                    <div key={field.key}>
+                                                        <label className="text-xs text-gray-400">{field.label}</label>
+                                                        <input type="datetime-local" value={(actualsForm[field.key] as string) || ''} onChange={e => setActualsForm({ ...actualsForm, [field.key]: e.target.value || undefined })} className={inputClasses} />
+                                                    </div>
+                                                ))}
+                                                <div>
+                                                    <label className="text-xs text-gray-400">Quantidade Entregue (t)</label>
+                                                    <input type="number" min="0" value={actualsForm.deliveredQuantity ?? ''} onChange={e => setActualsForm({ ...actualsForm, deliveredQuantity: e.target.value === '' ? undefined : parseFloat(e.target.value) })} className={inputClasses} />
+                                                </div>
+                                            </div>
+                                            <textarea value={actualsForm.remarks || ''} onChange={e => setActualsForm({ ...actualsForm, remarks: e.target.value })} placeholder="Observações" rows={2} className={inputClasses} />
+                                            <div className="flex justify-end gap-2">
+                                                <button onClick={() => { setEditingId(null); setActualsForm(null); }} className="bg-gray-700 hover:bg-gray-600 text-white text-xs font-bold py-1.5 px-3 rounded-md transition-colors">Cancelar</button>
+                                                <button onClick={saveActuals} className="bg-teal-600 hover:bg-teal-500 text-white text-xs font-bold py-1.5 px-3 rounded-md transition-colors flex items-center gap-1"><CheckIcon className="w-4 h-4" /> Salvar</button>
+                                            </div>
+                                        </div>
+                                    )}
                                 </div>
                             ))}
                         </div>
@@ -942,48 +1994,117 @@ const PrioritiesSetup: React.FC<PrioritiesSetupProps> = ({ priorities, setPriori
 
 
 // --- Location Setup Component ---
+const describeClosure = (closure: LocationClosure) =>
+    closure.kind === 'recurring'
+        ? `Diariamente ${closure.from}–${closure.until}`
+        : `${formatDateTime(closure.from)} a ${formatDateTime(closure.until)}${closure.source === 'forecast' ? ' (previsão)' : ''}`;
+
 interface LocationSetupProps {
     locations: Location[];
     setLocations: React.Dispatch<React.SetStateAction<Location[]>>;
+    products: Product[];
 }
-const LocationSetup: React.FC<LocationSetupProps> = ({ locations, setLocations }) => {
-    const initialFormState = { id: '', name: '', latitude: 0, longitude: 0 };
-    const [locationForm, setLocationForm] = useState(initialFormState);
+const LocationSetup: React.FC<LocationSetupProps> = ({ locations, setLocations, products: catalogue }) => {
+    const catalogueCodes = catalogue.map(p => p.code);
+    const initialFormState: Location = { id: '', name: '', type: LocationType.Anchorage, latitude: 0, longitude: 0 };
+    const [locationForm, setLocationForm] = useState<Location>(initialFormState);
     const [editingLocationId, setEditingLocationId] = useState<string | null>(null);
+    const initialClosureForm = { kind: 'recurring' as LocationClosure['kind'], from: '', until: '', reason: '' };
+    const [closureForm, setClosureForm] = useState(initialClosureForm);
+    const [maxWaveHeight, setMaxWaveHeight] = useState(DEFAULT_MAX_WAVE_HEIGHT);
+    const [forecastMessage, setForecastMessage] = useState<{ text: string; errors: string[] } | null>(null);
+    const forecastInputRef = useRef<HTMLInputElement>(null);
 
     const handleFormChange = (field: keyof typeof locationForm, value: string | number) => {
         setLocationForm(prev => ({ ...prev, [field]: value }));
     };
 
+    // A terminal without a product list supplies every product; ticking boxes narrows it down.
+    const toggleTerminalProduct = (product: ProductType) => {
+        setLocationForm(prev => {
+            const current = prev.products || catalogueCodes;
+            const products = current.includes(product) ? current.filter(p => p !== product) : [...current, product];
+            return { ...prev, products: catalogueCodes.every(code => products.includes(code)) ? undefined : products };
+        });
+    };
+
+    const addClosure = () => {
+        const { kind, from, until, reason } = closureForm;
+        // Recurring closures may cross midnight, so only ad-hoc periods must end after they start.
+        if (!from || !until || (kind === 'ad-hoc' && until <= from)) {
+            alert("Informe o início e o fim do fechamento. Um fechamento pontual deve terminar depois de começar.");
+            return;
+        }
+        const closure: LocationClosure = kind === 'recurring'
+            ? { id: crypto.randomUUID(), kind, from, until, reason: reason.trim() }
+            : { id: crypto.randomUUID(), kind, from, until, reason: reason.trim(), source: 'manual' };
+        setLocationForm(prev => ({ ...prev, closures: [...(prev.closures || []), closure] }));
+        setClosureForm(prev => ({ ...initialClosureForm, kind: prev.kind }));
+    };
+
+    const removeClosure = (id: string) => {
+        setLocationForm(prev => ({ ...prev, closures: (prev.closures || []).filter(c => c.id !== id) }));
+    };
+
+    const handleForecastImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            const forecast = parseForecastCsv(await file.text(), locations, maxWaveHeight);
+            setLocations(prev => applyForecastClosures(prev, forecast.closures));
+            const covered = new Set(forecast.closures.map(c => c.locationId)).size;
+            setForecastMessage({ text: `${forecast.closures.length} fechamento(s) importado(s) para ${covered} local(is).`, errors: forecast.errors });
+        } catch (err: any) {
+            setForecastMessage({ text: err.message || "Não foi possível importar a previsão.", errors: [] });
+        }
+    };
+
     const handleFormSubmit = (e: React.FormEvent) => {
         e.preventDefault();
         if (locationForm.name.trim()) {
+            if (isTerminalLocation(locationForm) && locationForm.products?.length === 0) {
+                alert("Um terminal deve fornecer pelo menos um produto.");
+                return;
+            }
+            if (editingLocationId && !isTerminalLocation(locationForm) && !locations.some(l => l.id !== editingLocationId && isTerminalLocation(l))) {
+                alert("É necessário manter pelo menos um terminal para as recargas das barcaças.");
+                return;
+            }
+            const { products, closures, ...rest } = locationForm;
+            const location: Location = {
+                ...rest,
+                ...(isTerminalLocation(locationForm) && products ? { products } : {}),
+                ...(closures && closures.length > 0 ? { closures } : {}),
+            };
             if (editingLocationId) {
                 // Update existing location
-                setLocations(prev => prev.map(l => l.id === editingLocationId ? { ...l, ...locationForm } : l));
+                setLocations(prev => prev.map(l => l.id === editingLocationId ? location : l));
             } else {
                 // Add new location
-                setLocations(prev => [...prev, { ...locationForm, id: crypto.randomUUID() }]);
+                setLocations(prev => [...prev, { ...location, id: crypto.randomUUID() }]);
             }
             setEditingLocationId(null);
             setLocationForm(initialFormState);
+            setClosureForm(initialClosureForm);
         }
     };
     
     const startEditing = (location: Location) => {
         setEditingLocationId(location.id);
-        setLocationForm({ id: location.id, name: location.name, latitude: location.latitude, longitude: location.longitude });
+        setLocationForm({ ...location });
     };
     
     const cancelEditing = () => {
         setEditingLocationId(null);
         setLocationForm(initialFormState);
+        setClosureForm(initialClosureForm);
     };
 
     const handleDeleteLocation = (id: string) => {
         const locationToDelete = locations.find(l => l.id === id);
-        if (locationToDelete?.name === 'TERMINAL') {
-            alert("A localidade 'TERMINAL' é essencial para a lógica da IA e não pode ser excluída.");
+        if (isTerminalLocation(locationToDelete) && !locations.some(l => l.id !== id && isTerminalLocation(l))) {
+            alert("É necessário manter pelo menos um terminal para as recargas das barcaças.");
             return;
         }
         setLocations(prev => prev.filter(l => l.id !== id));
@@ -999,9 +2120,26 @@ const LocationSetup: React.FC<LocationSetupProps> = ({ locations, setLocations }
                         value={locationForm.name}
                         onChange={(e) => handleFormChange('name', e.target.value)}
                         placeholder="Nome do Local (ex: Píer 7)"
-                        className="w-full bg-white/10 text-white placeholder-gray-400 p-2 rounded-md border border-white/20 focus:ring-2 focus:ring-amber-500 focus:outline-none disabled:bg-gray-600"
-                        disabled={editingLocationId ? locations.find(l => l.id === editingLocationId)?.name === 'TERMINAL' : false}
+                        className="w-full bg-white/10 text-white placeholder-gray-400 p-2 rounded-md border border-white/20 focus:ring-2 focus:ring-amber-500 focus:outline-none"
                     />
+                    <select
+                        value={locationForm.type}
+                        onChange={(e) => handleFormChange('type', e.target.value)}
+                        className="w-full bg-white/10 text-white p-2 rounded-md border border-white/20 focus:ring-2 focus:ring-amber-500 focus:outline-none"
+                    >
+                        {Object.values(LocationType).map(type => <option key={type} value={type} className="bg-gray-800">{locationTypeLabels[type]}</option>)}
+                    </select>
+                    {isTerminalLocation(locationForm) && (
+                        <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-sm text-gray-300">
+                            <span className="text-xs text-gray-400">Produtos disponíveis:</span>
+                            {catalogueCodes.map(product => (
+                                <label key={product} className="flex items-center gap-1">
+                                    <input type="checkbox" checked={!locationForm.products || locationForm.products.includes(product)} onChange={() => toggleTerminalProduct(product)} className="accent-amber-500" />
+                                    {product}
+                                </label>
+                            ))}
+                        </div>
+                    )}
                     <div className="grid grid-cols-2 gap-4">
                         <input
                             type="number"
@@ -1020,6 +2158,47 @@ const LocationSetup: React.FC<LocationSetupProps> = ({ locations, setLocations }
                             className="w-full bg-white/10 text-white placeholder-gray-400 p-2 rounded-md border border-white/20 focus:ring-2 focus:ring-amber-500 focus:outline-none"
                         />
                     </div>
+                    <div className="space-y-2">
+                        <p className="text-xs text-gray-400">Janelas de fechamento (sem faina ou bombeamento):</p>
+                        {(locationForm.closures || []).map(closure => (
+                            <div key={closure.id} className="flex items-center justify-between bg-white/5 px-2 py-1 rounded-md text-xs text-gray-300">
+                                <span>{describeClosure(closure)}{closure.reason && <span className="text-gray-400"> · {closure.reason}</span>}</span>
+                                <button type="button" onClick={() => removeClosure(closure.id)} className="text-gray-500 hover:text-rose-400 p-1"><TrashIcon className="w-3 h-3" /></button>
+                            </div>
+                        ))}
+                        <div className="grid grid-cols-[7rem_1fr_1fr_1fr_auto] gap-2">
+                            <select
+                                value={closureForm.kind}
+                                onChange={(e) => setClosureForm({ ...initialClosureForm, kind: e.target.value as LocationClosure['kind'] })}
+                                className="bg-white/10 text-white text-xs p-2 rounded-md border border-white/20 focus:ring-2 focus:ring-amber-500 focus:outline-none"
+                            >
+                                <option value="recurring" className="bg-gray-800">Diário</option>
+                                <option value="ad-hoc" className="bg-gray-800">Pontual</option>
+                            </select>
+                            <input
+                                type={closureForm.kind === 'recurring' ? 'time' : 'datetime-local'}
+                                value={closureForm.from}
+                                onChange={(e) => setClosureForm(prev => ({ ...prev, from: e.target.value }))}
+                                title="Início do fechamento"
+                                className="w-full bg-white/10 text-white text-xs p-2 rounded-md border border-white/20 focus:ring-2 focus:ring-amber-500 focus:outline-none"
+                            />
+                            <input
+                                type={closureForm.kind === 'recurring' ? 'time' : 'datetime-local'}
+                                value={closureForm.until}
+                                onChange={(e) => setClosureForm(prev => ({ ...prev, until: e.target.value }))}
+                                title="Fim do fechamento"
+                                className="w-full bg-white/10 text-white text-xs p-2 rounded-md border border-white/20 focus:ring-2 focus:ring-amber-500 focus:outline-none"
+                            />
+                            <input
+                                type="text"
+                                value={closureForm.reason}
+                                onChange={(e) => setClosureForm(prev => ({ ...prev, reason: e.target.value }))}
+                                placeholder="Motivo (ex: Noturno)"
+                                className="w-full bg-white/10 text-white placeholder-gray-400 text-xs p-2 rounded-md border border-white/20 focus:ring-2 focus:ring-amber-500 focus:outline-none"
+                            />
+                            <button type="button" onClick={addClosure} title="Adicionar fechamento" className="bg-white/10 hover:bg-white/20 text-gray-200 p-2 rounded-md transition-colors"><PlusIcon className="w-4 h-4" /></button>
+                        </div>
+                    </div>
                     <div className="flex gap-2">
                         <button type="submit" className="flex-grow bg-gradient-to-r from-teal-500 to-teal-600 hover:from-teal-600 hover:to-teal-700 text-white font-bold p-2 rounded-md transition-colors flex items-center justify-center gap-2">
                             {editingLocationId ? <CheckIcon className="w-5 h-5"/> : <PlusIcon className="w-5 h-5"/>}
@@ -1031,6 +2210,33 @@ const LocationSetup: React.FC<LocationSetupProps> = ({ locations, setLocations }
                     </div>
                 </form>
 
+                <div className="mb-4 space-y-1">
+                    <div className="flex items-center gap-3 text-sm">
+                        <button onClick={() => forecastInputRef.current?.click()} className="flex items-center gap-1.5 bg-white/10 hover:bg-white/20 text-gray-200 font-semibold py-1.5 px-3 rounded-md transition-colors text-xs">
+                            <LoadIcon className="w-4 h-4" /> Importar Previsão (CSV)
+                        </button>
+                        <label className="flex items-center gap-2 text-xs text-gray-400">
+                            Onda máxima (m)
+                            <input
+                                type="number"
+                                min="0"
+                                step="0.1"
+                                value={maxWaveHeight}
+                                onChange={(e) => setMaxWaveHeight(parseFloat(e.target.value) || 0)}
+                                className="w-16 bg-white/10 text-white p-1 rounded-md border border-white/20 focus:ring-2 focus:ring-amber-500 focus:outline-none"
+                            />
+                        </label>
+                        <input ref={forecastInputRef} type="file" accept="text/csv,.csv" onChange={handleForecastImport} className="hidden" />
+                    </div>
+                    <p className="text-xs text-gray-500">Colunas: local; inicio; fim; e opcionalmente altura_onda ou motivo. Uma nova previsão substitui a anterior nos locais que ela cobre.</p>
+                    {forecastMessage && (
+                        <div className="text-xs">
+                            <p className="text-teal-300">{forecastMessage.text}</p>
+                            {forecastMessage.errors.map(error => <p key={error} className="text-rose-400">{error}</p>)}
+                        </div>
+                    )}
+                </div>
+
                 <div className="space-y-2 overflow-y-auto pr-2 flex-grow">
                     {locations.map((location) => (
                         <div 
@@ -1039,11 +2245,22 @@ const LocationSetup: React.FC<LocationSetupProps> = ({ locations, setLocations }
                         >
                             <div className="flex items-center gap-3">
                                 <p className="text-gray-200 font-semibold">{location.name}</p>
-                                {location.name === 'TERMINAL' && (
+                                <span className={`text-xs font-semibold px-2 py-0.5 rounded-full ${isTerminalLocation(location) ? 'bg-amber-500/20 text-amber-300' : 'bg-teal-500/20 text-teal-300'}`}>{locationTypeLabels[location.type]}</span>
+                                {isTerminalLocation(location) && (
                                     <div className="relative group">
                                         <InfoIcon className="w-4 h-4 text-amber-400 cursor-help" />
                                         <div className="absolute top-full left-0 mt-2 w-max max-w-xs p-2 text-xs text-white bg-gray-800 rounded-md shadow-lg opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none z-20">
-                                            Para a localidade TERMINAL, indicar as coordenadas do Píer de Barcaças.
+                                            Produtos: {(location.products || catalogueCodes).join(', ')}. Indicar as coordenadas do píer de barcaças.
+                                        </div>
+                                    </div>
+                                )}
+                                {location.closures && location.closures.length > 0 && (
+                                    <div className="relative group">
+                                        <span className="text-xs font-semibold px-2 py-0.5 rounded-full bg-rose-500/20 text-rose-300 cursor-help">
+                                            {location.closures.length} {location.closures.length === 1 ? 'fechamento' : 'fechamentos'}
+                                        </span>
+                                        <div className="absolute top-full left-0 mt-2 w-max max-w-xs p-2 text-xs text-white bg-gray-800 rounded-md shadow-lg opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none z-20 space-y-0.5">
+                                            {location.closures.map(closure => <p key={closure.id}>{describeClosure(closure)}{closure.reason && ` · ${closure.reason}`}</p>)}
                                         </div>
                                     </div>
                                 )}
@@ -1056,9 +2273,118 @@ const LocationSetup: React.FC<LocationSetupProps> = ({ locations, setLocations }
 
                             <div className="flex items-center gap-2">
                                 <button onClick={() => startEditing(location)} className="text-amber-500 hover:text-amber-400 p-1"><PencilIcon className="w-4 h-4"/></button>
-                                {location.name !== 'TERMINAL' && (
-                                     <button onClick={() => handleDeleteLocation(location.id)} className="text-gray-500 hover:text-rose-400 p-1"><TrashIcon className="w-4 h-4" /></button>
-                                )}
+                                <button onClick={() => handleDeleteLocation(location.id)} className="text-gray-500 hover:text-rose-400 p-1"><TrashIcon className="w-4 h-4" /></button>
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        </Card>
+    );
+};
+
+// --- Product Catalogue Component ---
+interface ProductCatalogueSetupProps {
+    products: Product[];
+    setProducts: React.Dispatch<React.SetStateAction<Product[]>>;
+    barges: Barge[];
+    requests: RefuelingRequest[];
+    locations: Location[];
+}
+const ProductCatalogueSetup: React.FC<ProductCatalogueSetupProps> = ({ products, setProducts, barges, requests, locations }) => {
+    const initialFormState = { code: '', name: '', density: 0, sulphurContent: '', tankGroups: '' };
+    const [productForm, setProductForm] = useState(initialFormState);
+    const [editingCode, setEditingCode] = useState<string | null>(null);
+    const inputClasses = "w-full bg-white/10 text-white placeholder-gray-400 p-2 rounded-md border border-white/20 focus:ring-2 focus:ring-amber-500 focus:outline-none disabled:opacity-50";
+
+    const handleFormChange = (field: keyof typeof productForm, value: string | number) => {
+        setProductForm(prev => ({ ...prev, [field]: value }));
+    };
+
+    const handleFormSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        const code = productForm.code.trim().toUpperCase();
+        if (!code || !productForm.name.trim()) return;
+        if (!editingCode && products.some(p => p.code === code)) {
+            alert(`Já existe um produto com o código '${code}'.`);
+            return;
+        }
+        const sulphurContent = productForm.sulphurContent === '' ? undefined : Math.max(0, parseFloat(productForm.sulphurContent) || 0);
+        const product: Product = { code, name: productForm.name.trim(), density: productForm.density, sulphurContent, tankGroups: parseTankGroups(productForm.tankGroups) };
+        setProducts(prev => editingCode ? prev.map(p => p.code === editingCode ? product : p) : [...prev, product]);
+        cancelEditing();
+    };
+
+    const startEditing = (product: Product) => {
+        setEditingCode(product.code);
+        setProductForm({ code: product.code, name: product.name, density: product.density, sulphurContent: product.sulphurContent?.toString() ?? '', tankGroups: product.tankGroups.join(', ') });
+    };
+
+    const cancelEditing = () => {
+        setEditingCode(null);
+        setProductForm(initialFormState);
+    };
+
+    const handleDeleteProduct = (code: string) => {
+        if (isProductInUse(code, barges, requests, locations)) {
+            alert(`O produto '${code}' é usado por barcaças, pedidos ou terminais e não pode ser excluído.`);
+            return;
+        }
+        setProducts(prev => prev.filter(p => p.code !== code));
+        if (editingCode === code) cancelEditing();
+    };
+
+    return (
+        <Card title="Catálogo de Produtos" icon={<FuelIcon className="w-7 h-7 text-amber-400" />}>
+            <div className="h-full flex flex-col">
+                <p className="text-sm text-gray-400 mb-4">Defina os produtos fornecidos. Barcaças, pedidos e terminais usam o código do produto.</p>
+                <form onSubmit={handleFormSubmit} className="space-y-3 mb-6 p-4 bg-white/5 rounded-lg text-sm">
+                    <div className="grid grid-cols-2 gap-4">
+                        {/* The code is the reference kept by barges and requests, so it is fixed once created. */}
+                        <input type="text" placeholder="Código (ex: HSFO)" value={productForm.code} onChange={e => handleFormChange('code', e.target.value)} className={inputClasses} disabled={!!editingCode} required />
+                        <input type="text" placeholder="Nome (ex: High Sulphur Fuel Oil)" value={productForm.name} onChange={e => handleFormChange('name', e.target.value)} className={inputClasses} required />
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <label className="text-xs text-gray-300">Densidade a 15 °C (t/m³)</label>
+                            <input type="number" min="0" step="0.001" value={productForm.density || ''} onChange={e => handleFormChange('density', Math.max(0, parseFloat(e.target.value) || 0))} className={inputClasses} />
+                        </div>
+                        <div>
+                            <label className="text-xs text-gray-300">Teor de Enxofre (% m/m)</label>
+                            <input type="number" min="0" step="0.01" value={productForm.sulphurContent} onChange={e => handleFormChange('sulphurContent', e.target.value)} className={inputClasses} />
+                        </div>
+                        <div>
+                            <label className="text-xs text-gray-300">Grupos de Tanque Compatíveis (separados por vírgula)</label>
+                            <input type="text" placeholder="Residual, Destilado" value={productForm.tankGroups} onChange={e => handleFormChange('tankGroups', e.target.value)} className={inputClasses} />
+                        </div>
+                    </div>
+                    <div className="flex gap-2">
+                        <button type="submit" className="flex-grow bg-gradient-to-r from-teal-500 to-teal-600 hover:from-teal-600 hover:to-teal-700 text-white font-bold p-2 rounded-md transition-colors flex items-center justify-center gap-2">
+                            {editingCode ? <CheckIcon className="w-5 h-5"/> : <PlusIcon className="w-5 h-5"/>}
+                            {editingCode ? 'Salvar Alterações' : 'Adicionar Produto'}
+                        </button>
+                        {editingCode && (
+                             <button type="button" onClick={cancelEditing} className="bg-gray-700 hover:bg-gray-600 text-white font-bold p-2 rounded-md transition-colors">Cancelar</button>
+                        )}
+                    </div>
+                </form>
+
+                <div className="space-y-2 overflow-y-auto pr-2 flex-grow">
+                    {products.map(product => (
+                        <div key={product.code} className={`flex items-center justify-between bg-white/5 p-3 rounded-lg text-sm ${editingCode === product.code ? 'ring-2 ring-amber-500' : ''}`}>
+                            <div>
+                                <p className="text-gray-200 font-semibold">{product.code} <span className="font-normal text-gray-400">· {product.name}</span></p>
+                                <div className="flex flex-wrap gap-2 mt-1">
+                                    <span className="text-xs bg-amber-500/20 text-amber-200 px-2 py-0.5 rounded-full">{product.density ? `${product.density} t/m³` : 'Densidade não informada'}</span>
+                                    <span className="text-xs bg-amber-500/20 text-amber-200 px-2 py-0.5 rounded-full">{product.sulphurContent !== undefined ? `${product.sulphurContent}% S` : 'Enxofre não informado'}</span>
+                                    {product.tankGroups.map(group => (
+                                        <span key={group} className="text-xs bg-teal-500/20 text-teal-200 px-2 py-0.5 rounded-full">{group}</span>
+                                    ))}
+                                </div>
+                            </div>
+                            <div className="flex items-center gap-2">
+                                <button onClick={() => startEditing(product)} className="text-amber-500 hover:text-amber-400 p-1"><PencilIcon className="w-4 h-4"/></button>
+                                <button onClick={() => handleDeleteProduct(product.code)} className="text-gray-500 hover:text-rose-400 p-1"><TrashIcon className="w-4 h-4" /></button>
                             </div>
                         </div>
                     ))}
@@ -1085,10 +2411,7 @@ const MapView: React.FC<MapViewProps> = ({ barges, bargeStates, locations, sched
     useEffect(() => {
         if (selectedBargeId) {
             const bargeExists = barges.some(b => b.id === selectedBargeId);
-            const bargeIsInSchedule = schedule.some(item => {
-                const barge = barges.find(b => b.id === selectedBargeId);
-                return barge && item.bargeName === barge.name;
-            });
+            const bargeIsInSchedule = schedule.some(item => item.bargeId === selectedBargeId);
 
             if (!bargeExists || !bargeIsInSchedule) {
                 setSelectedBargeId(null);
@@ -1107,13 +2430,13 @@ const MapView: React.FC<MapViewProps> = ({ barges, bargeStates, locations, sched
             // Due to the useEffect above, we can be more confident that selectedBarge exists
             // and is in the schedule. A check is still good practice.
             if (selectedBarge) {
-                const bargeSchedule = schedule.filter(item => item.bargeName === selectedBarge.name);
+                const bargeSchedule = schedule.filter(item => item.bargeId === selectedBarge.id);
                 const initialState = bargeStates.find(bs => bs.bargeId === selectedBarge.id);
                 const startLocation = locations.find(l => l.id === initialState?.locationId);
 
                 if (bargeSchedule.length > 0 && startLocation) {
                     const waypoints = bargeSchedule.map(item => {
-                        const loc = locations.find(l => l.name === item.locationName);
+                        const loc = locations.find(l => l.id === item.locationId);
                         return loc ? `${loc.latitude},${loc.longitude}` : '';
                     }).filter(Boolean);
                     
@@ -1161,7 +2484,7 @@ const MapView: React.FC<MapViewProps> = ({ barges, bargeStates, locations, sched
       )
     }
     
-    const scheduledBarges = barges.filter(barge => schedule.some(item => item.bargeName === barge.name));
+    const scheduledBarges = barges.filter(barge => schedule.some(item => item.bargeId === barge.id));
 
     return (
         <Card title="Visualização no Mapa" icon={<MapIcon className="w-7 h-7 text-amber-400" />}>
@@ -1202,6 +2525,941 @@ const MapView: React.FC<MapViewProps> = ({ barges, bargeStates, locations, sched
 };
 
 
+// --- Operational Parameters Component ---
+interface OperationalParametersSetupProps {
+    parameters: OperationalParameters;
+    setParameters: React.Dispatch<React.SetStateAction<OperationalParameters>>;
+    barges: Barge[];
+    locations: Location[];
+    requests: RefuelingRequest[];
+}
+type RateOverrideKey = 'bargePumpRates' | 'terminalLoadingRates' | 'requestMaxReceivingRates';
+
+const OperationalParametersSetup: React.FC<OperationalParametersSetupProps> = ({ parameters, setParameters, barges, locations, requests }) => {
+    const inputClasses = "w-full bg-white/10 text-white placeholder-gray-400 p-2 rounded-md border border-white/20 focus:ring-2 focus:ring-amber-500 focus:outline-none";
+    const terminals = locations.filter(isTerminalLocation);
+
+    const parseOptional = (value: string): number | undefined => {
+        const parsed = parseFloat(value);
+        return isNaN(parsed) || parsed < 0 ? undefined : parsed;
+    };
+
+    // Rates must stay positive: while the field is empty or not positive the previous rate is kept.
+    const [rateDrafts, setRateDrafts] = useState<Partial<Record<'pumpRate' | 'terminalLoadingRate', string>>>({});
+
+    const handleDefaultRateChange = (field: 'pumpRate' | 'terminalLoadingRate', value: string) => {
+        setRateDrafts(prev => ({ ...prev, [field]: value }));
+        const parsed = parseFloat(value);
+        if (parsed > 0) setParameters(prev => ({ ...prev, [field]: parsed }));
+    };
+
+    const isInvalidRateDraft = (field: 'pumpRate' | 'terminalLoadingRate') =>
+        rateDrafts[field] !== undefined && !(parseFloat(rateDrafts[field]!) > 0);
+
+    const handleDefaultChange = (field: 'initialFainaHours' | 'finalFainaHours' | 'travelRoundingHours', value: string) => {
+        setParameters(prev => ({ ...prev, [field]: Math.max(0, parseFloat(value) || 0) }));
+    };
+
+    // An empty field removes the override so the default applies again.
+    const handleRateOverride = (key: RateOverrideKey, id: string, value: string) => {
+        const parsed = parseOptional(value);
+        setParameters(prev => {
+            const overrides = { ...prev[key] };
+            if (parsed) overrides[id] = parsed; else delete overrides[id];
+            return { ...prev, [key]: overrides };
+        });
+    };
+
+    const handleFainaOverride = (locationId: string, field: keyof LocationFainaOverride, value: string) => {
+        const parsed = parseOptional(value);
+        setParameters(prev => {
+            const override: LocationFainaOverride = { ...prev.locationFaina[locationId], [field]: parsed };
+            const locationFaina = { ...prev.locationFaina };
+            if (override.initialFainaHours === undefined && override.finalFainaHours === undefined) delete locationFaina[locationId];
+            else locationFaina[locationId] = override;
+            return { ...prev, locationFaina };
+        });
+    };
+
+    const sectionTitle = (text: string) => <h3 className="font-bold text-gray-200 mb-3">{text}</h3>;
+
+    return (
+        <Card title="Parâmetros Operacionais" icon={<ClockIcon className="w-7 h-7 text-amber-400" />}>
+            <div className="space-y-4 overflow-y-auto pr-2 h-full text-sm">
+                <div className="p-4 bg-white/5 rounded-lg">
+                    {sectionTitle('Valores Padrão')}
+                    <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                        <div>
+                            <label className="text-xs text-gray-300">Bombeamento (ton/h)</label>
+                            <input type="number" min="1" value={rateDrafts.pumpRate ?? parameters.pumpRate} onChange={e => handleDefaultRateChange('pumpRate', e.target.value)} onBlur={() => setRateDrafts(prev => ({ ...prev, pumpRate: undefined }))} className={inputClasses} />
+                            {isInvalidRateDraft('pumpRate') && <p className="text-xs text-rose-400 mt-1">Deve ser maior que zero; mantido {parameters.pumpRate}.</p>}
+                        </div>
+                        <div>
+                            <label className="text-xs text-gray-300">Carregamento no Terminal (ton/h)</label>
+                            <input type="number" min="1" value={rateDrafts.terminalLoadingRate ?? parameters.terminalLoadingRate} onChange={e => handleDefaultRateChange('terminalLoadingRate', e.target.value)} onBlur={() => setRateDrafts(prev => ({ ...prev, terminalLoadingRate: undefined }))} className={inputClasses} />
+                            {isInvalidRateDraft('terminalLoadingRate') && <p className="text-xs text-rose-400 mt-1">Deve ser maior que zero; mantido {parameters.terminalLoadingRate}.</p>}
+                        </div>
+                        <div>
+                            <label className="text-xs text-gray-300">Faina Inicial (h)</label>
+                            <input type="number" min="0" step="0.25" value={parameters.initialFainaHours} onChange={e => handleDefaultChange('initialFainaHours', e.target.value)} className={inputClasses} />
+                        </div>
+                        <div>
+                            <label className="text-xs text-gray-300">Faina Final (h)</label>
+                            <input type="number" min="0" step="0.25" value={parameters.finalFainaHours} onChange={e => handleDefaultChange('finalFainaHours', e.target.value)} className={inputClasses} />
+                        </div>
+                        <div>
+                            <label className="text-xs text-gray-300">Arredondamento da Viagem (h)</label>
+                            <input type="number" min="0" step="0.25" value={parameters.travelRoundingHours} onChange={e => handleDefaultChange('travelRoundingHours', e.target.value)} className={inputClasses} />
+                        </div>
+                    </div>
+                    <p className="text-xs text-gray-400 mt-2">Use 0 no arredondamento para calcular o tempo de viagem exato. Campos em branco abaixo usam estes valores padrão.</p>
+                </div>
+
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                    <div className="p-4 bg-white/5 rounded-lg">
+                        {sectionTitle('Taxa de Bombeamento por Barcaça')}
+                        <div className="space-y-2">
+                            {barges.map(barge => (
+                                <div key={barge.id} className="grid grid-cols-2 gap-4 items-center">
+                                    <p className="text-gray-300">{barge.name}</p>
+                                    <input type="number" min="1" placeholder={`${parameters.pumpRate} ton/h`} value={parameters.bargePumpRates[barge.id] ?? ''} onChange={e => handleRateOverride('bargePumpRates', barge.id, e.target.value)} className={inputClasses} />
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="p-4 bg-white/5 rounded-lg">
+                        {sectionTitle('Taxa de Carregamento por Terminal')}
+                        <div className="space-y-2">
+                            {terminals.length === 0 && <p className="text-gray-400">Nenhum terminal cadastrado.</p>}
+                            {terminals.map(terminal => (
+                                <div key={terminal.id} className="grid grid-cols-2 gap-4 items-center">
+                                    <p className="text-gray-300">{terminal.name}</p>
+                                    <input type="number" min="1" placeholder={`${parameters.terminalLoadingRate} ton/h`} value={parameters.terminalLoadingRates[terminal.id] ?? ''} onChange={e => handleRateOverride('terminalLoadingRates', terminal.id, e.target.value)} className={inputClasses} />
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="p-4 bg-white/5 rounded-lg">
+                        {sectionTitle('Faina por Local')}
+                        <div className="space-y-2">
+                            {locations.map(location => (
+                                <div key={location.id} className="grid grid-cols-3 gap-4 items-center">
+                                    <p className="text-gray-300">{location.name}</p>
+                                    <input type="number" min="0" step="0.25" placeholder={`Inicial: ${parameters.initialFainaHours}h`} value={parameters.locationFaina[location.id]?.initialFainaHours ?? ''} onChange={e => handleFainaOverride(location.id, 'initialFainaHours', e.target.value)} className={inputClasses} />
+                                    <input type="number" min="0" step="0.25" placeholder={`Final: ${parameters.finalFainaHours}h`} value={parameters.locationFaina[location.id]?.finalFainaHours ?? ''} onChange={e => handleFainaOverride(location.id, 'finalFainaHours', e.target.value)} className={inputClasses} />
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="p-4 bg-white/5 rounded-lg">
+                        {sectionTitle('Vazão Máxima de Recebimento por Pedido')}
+                        <div className="space-y-2">
+                            {requests.length === 0 && <p className="text-gray-400">Nenhum pedido cadastrado.</p>}
+                            {requests.map(request => (
+                                <div key={request.id} className="grid grid-cols-2 gap-4 items-center">
+                                    <p className="text-gray-300">{request.shipName}</p>
+                                    <input type="number" min="1" placeholder="Sem limite" value={parameters.requestMaxReceivingRates[request.id] ?? ''} onChange={e => handleRateOverride('requestMaxReceivingRates', request.id, e.target.value)} className={inputClasses} />
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+            </div>
+        </Card>
+    );
+};
+
+// --- Scenario Workspace Component ---
+type ScenarioSnapshot = Omit<Scenario, 'id' | 'name' | 'createdAt'>;
+
+interface ScenarioWorkspaceProps {
+    scenarios: Scenario[];
+    current: ScenarioSnapshot;
+    locations: Location[];
+    parameters: OperationalParameters;
+    onSave: (name: string) => void;
+    onDelete: (id: string) => void;
+    onPromote: (id: string) => void;
+}
+const ScenarioWorkspace: React.FC<ScenarioWorkspaceProps> = ({ scenarios, current, locations, parameters, onSave, onDelete, onPromote }) => {
+    const [name, setName] = useState('');
+
+    // Every snapshot is measured against the requests it had to serve, with today's locations and parameters.
+    const kpisOf = useCallback((snapshot: ScenarioSnapshot): ScheduleKpis => computeScheduleKpis(
+        snapshot.schedule,
+        snapshot.requests.filter(r => schedulableRequestStatuses.includes(r.status)),
+        { barges: snapshot.barges, bargeStates: snapshot.bargeStates, requests: snapshot.requests, locations, simulationStartTime: snapshot.simulationStartTime, parameters },
+    ), [locations, parameters]);
+
+    const columns = useMemo(() => [
+        { id: 'current', name: 'Atual (não salvo)', createdAt: '', kpis: kpisOf(current) },
+        ...scenarios.map(scenario => ({ id: scenario.id, name: scenario.name, createdAt: scenario.createdAt, kpis: kpisOf(scenario) })),
+    ], [scenarios, current, kpisOf]);
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!name.trim()) return;
+        onSave(name.trim());
+        setName('');
+    };
+
+    return (
+        <Card title="Cenários" icon={<CalendarIcon className="w-7 h-7 text-amber-400" />}>
+            <div className="h-full flex flex-col text-sm">
+                <form onSubmit={handleSubmit} className="flex gap-2 mb-2 p-4 bg-white/5 rounded-lg flex-shrink-0">
+                    <input type="text" value={name} onChange={e => setName(e.target.value)} placeholder="Nome do cenário (ex: Triton em docagem)" className="flex-grow bg-white/10 text-white placeholder-gray-400 p-2 rounded-md border border-white/20 focus:ring-2 focus:ring-amber-500 focus:outline-none" />
+                    <button type="submit" disabled={!name.trim()} className="bg-gradient-to-r from-teal-500 to-teal-600 hover:from-teal-600 hover:to-teal-700 text-white font-bold py-2 px-4 rounded-md transition-colors flex items-center gap-2 disabled:opacity-50">
+                        <SaveIcon className="w-5 h-5" /> Salvar Cenário Atual
+                    </button>
+                </form>
+                <p className="text-xs text-gray-400 mb-4 flex-shrink-0">Um cenário guarda a frota, o cenário inicial, os pedidos, as prioridades e a programação gerada. Promover um cenário traz a programação, as prioridades e o início da simulação dele sobre a frota e os pedidos atuais, pronta para publicação; cenários anteriores a uma publicação dos seus pedidos não podem ser promovidos.</p>
+
+                <div className="overflow-auto flex-grow">
+                    <table className="w-full text-left text-gray-300">
+                        <thead className="text-xs text-amber-400 uppercase bg-black/20 sticky top-0 z-10">
+                            <tr>
+                                <th className="px-4 py-3">Indicador</th>
+                                {columns.map(column => (
+                                    <th key={column.id} className="px-4 py-3 align-top">
+                                        <p className="normal-case text-sm text-white">{column.name}</p>
+                                        {column.createdAt && <p className="normal-case font-normal text-gray-400">{formatDateTime(column.createdAt)}</p>}
+                                        {column.id !== 'current' && (
+                                            <div className="flex gap-2 mt-1 normal-case font-normal">
+                                                <button onClick={() => onPromote(column.id)} className="text-teal-400 hover:text-teal-300 flex items-center gap-1"><PublishIcon className="w-4 h-4" /> Promover</button>
+                                                <button onClick={() => onDelete(column.id)} className="text-gray-500 hover:text-rose-400"><TrashIcon className="w-4 h-4" /></button>
+                                            </div>
+                                        )}
+                                    </th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-white/10">
+                            {kpiDefinitions.map(definition => {
+                                const values = columns.map(column => column.kpis[definition.key]);
+                                const best = definition.higherIsBetter ? Math.max(...values) : Math.min(...values);
+                                return (
+                                    <tr key={definition.key}>
+                                        <td className="px-4 py-2 text-gray-400">{definition.label}</td>
+                                        {columns.map(column => {
+                                            const value = column.kpis[definition.key];
+                                            return (
+                                                <td key={column.id} className={`px-4 py-2 ${columns.length > 1 && value === best ? 'text-teal-300 font-bold' : ''}`}>
+                                                    {definition.key === 'requestsServed' ? `${value}/${column.kpis.requestsTotal}` : `${value}${definition.unit ? ` ${definition.unit}` : ''}`}
+                                                </td>
+                                            );
+                                        })}
+                                    </tr>
+                                );
+                            })}
+                        </tbody>
+                    </table>
+                    {scenarios.length === 0 && <p className="text-center text-gray-400 p-4">Nenhum cenário salvo. Gere uma programação e salve-a como cenário para compará-la com alternativas.</p>}
+                </div>
+            </div>
+        </Card>
+    );
+};
+
+// --- KPI Dashboard Component ---
+interface KpiDashboardProps {
+    schedule: ScheduleItem[];
+    history: OperationHistoryItem[];
+    requests: RefuelingRequest[];
+    products: Product[];
+    context: ScheduleContext;
+}
+const utilisationSegments = [
+    { key: 'pumpingHours', label: 'Bombeio (com faina)', className: ganttPhaseStyles.pumping.className },
+    { key: 'transitHours', label: 'Trânsito', className: ganttPhaseStyles.transit.className },
+    { key: 'reloadingHours', label: 'Recarga', className: ganttPhaseStyles.reload.className },
+    { key: 'idleHours', label: 'Ocioso', className: 'bg-white/10' },
+] as const;
+
+const formatRate = ({ onTime, total }: OnTimeRate) => (total > 0 ? `${Math.round((onTime / total) * 100)}%` : '-');
+
+const KpiDashboard: React.FC<KpiDashboardProps> = ({ schedule, history, requests, products, context }) => {
+    const [granularity, setGranularity] = useState<TrendGranularity>('day');
+
+    const utilisation = useMemo(() => computeBargeUtilisation(schedule, context), [schedule, context]);
+    const cycleAverage = useMemo(() => servicesPerReloadCycle(schedule, context), [schedule, context]);
+    const scheduledDeliveries = useMemo(() => schedule.filter(item => item.shipName !== 'TERMINAL'), [schedule]);
+    const plannedTonnage = useMemo(() => tonnageByProduct(scheduledDeliveries), [scheduledDeliveries]);
+    const deliveredTonnage = useMemo(() => tonnageByProduct(history), [history]);
+    const rates = useMemo(() => onTimeRates(history, requests), [history, requests]);
+    const trend = useMemo(() => historyTrend(history, requests, granularity), [history, requests, granularity]);
+    const maxTrendTonnage = Math.max(1, ...trend.map(point => point.tonnage));
+
+    // Products no longer in the catalogue still show up if they were delivered.
+    const productCodes = [...new Set([...products.map(p => p.code), ...Object.keys(plannedTonnage), ...Object.keys(deliveredTonnage)])];
+    const sectionTitle = (text: string) => <h3 className="font-bold text-gray-200 mb-3">{text}</h3>;
+    const stat = (label: string, value: string, hint?: string) => (
+        <div className="p-4 bg-white/5 rounded-lg">
+            <p className="text-xs text-gray-400">{label}</p>
+            <p className="text-2xl font-bold text-teal-300">{value}</p>
+            {hint && <p className="text-xs text-gray-500">{hint}</p>}
+        </div>
+    );
+
+    return (
+        <Card title="Indicadores" icon={<CalendarIcon className="w-7 h-7 text-amber-400" />}>
+            <div className="space-y-4 overflow-y-auto pr-2 h-full text-sm">
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                    {stat('No Prazo (Janela)', formatRate(rates.window), `${rates.window.onTime}/${rates.window.total} entregas publicadas`)}
+                    {stat('No Prazo (Data Contratual)', formatRate(rates.contractual), `${rates.contractual.onTime}/${rates.contractual.total} entregas publicadas`)}
+                    {stat('Atendimentos por Ciclo de Recarga', cycleAverage ? String(cycleAverage) : '-', 'Programação atual')}
+                    {stat('Entregas Programadas', String(scheduledDeliveries.length), 'Programação atual')}
+                </div>
+
+                <div className="p-4 bg-white/5 rounded-lg">
+                    {sectionTitle('Utilização por Barcaça (programação atual)')}
+                    {schedule.length === 0 && <p className="text-gray-400">Gere uma programação para ver a utilização da frota.</p>}
+                    {schedule.length > 0 && (
+                        <div className="space-y-2">
+                            {utilisation.map(row => {
+                                const total = utilisationSegments.reduce((sum, segment) => sum + row[segment.key], 0) || 1;
+                                return (
+                                    <div key={row.bargeId} className="grid grid-cols-[10rem_1fr] gap-3 items-center">
+                                        <p className="text-gray-300 truncate">{row.bargeName}</p>
+                                        <div className="flex h-5 rounded overflow-hidden bg-black/20">
+                                            {utilisationSegments.map(segment => row[segment.key] > 0 && (
+                                                <div key={segment.key} title={`${segment.label}: ${row[segment.key]}h`} className={segment.className} style={{ width: `${(row[segment.key] / total) * 100}%` }} />
+                                            ))}
+                                        </div>
+                                    </div>
+                                );
+                            })}
+                            <div className="flex flex-wrap gap-4 pt-2 text-xs text-gray-400">
+                                {utilisationSegments.map(segment => (
+                                    <span key={segment.key} className="flex items-center gap-1"><span className={`inline-block w-3 h-3 rounded-sm ${segment.className}`} /> {segment.label}</span>
+                                ))}
+                            </div>
+                        </div>
+                    )}
+                </div>
+
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                    <div className="p-4 bg-white/5 rounded-lg">
+                        {sectionTitle('Tonelagem por Produto')}
+                        <table className="w-full text-left text-gray-300">
+                            <thead className="text-xs text-amber-400 uppercase">
+                                <tr><th className="py-1">Produto</th><th className="py-1">Programado</th><th className="py-1">Publicado</th></tr>
+                            </thead>
+                            <tbody className="divide-y divide-white/10">
+                                {productCodes.map(code => (
+                                    <tr key={code}>
+                                        <td className="py-1">{code}</td>
+                                        <td className="py-1">{plannedTonnage[code] || 0}t</td>
+                                        <td className="py-1">{deliveredTonnage[code] || 0}t</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+
+                    <div className="p-4 bg-white/5 rounded-lg">
+                        <div className="flex justify-between items-center mb-3">
+                            <h3 className="font-bold text-gray-200">Tendência das Entregas Publicadas</h3>
+                            <div className="flex gap-1 text-xs">
+                                {(['day', 'week'] as const).map(option => (
+                                    <button key={option} onClick={() => setGranularity(option)} className={`px-3 py-1 rounded-full ${granularity === option ? 'bg-amber-500 text-white' : 'bg-white/10 text-gray-300 hover:bg-white/20'}`}>
+                                        {option === 'day' ? 'Dia' : 'Semana'}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
+                        {trend.length === 0 && <p className="text-gray-400">Nenhuma operação publicada ainda.</p>}
+                        <div className="space-y-1">
+                            {trend.map(point => (
+                                <div key={point.period} className="grid grid-cols-[6rem_1fr_7rem] gap-3 items-center text-xs">
+                                    <p className="text-gray-400">{granularity === 'week' ? `Sem. ${formatDate(point.period)}` : formatDate(point.period)}</p>
+                                    <div className="h-4 bg-black/20 rounded overflow-hidden">
+                                        <div className="h-full bg-teal-500" style={{ width: `${(point.tonnage / maxTrendTonnage) * 100}%` }} />
+                                    </div>
+                                    <p className="text-gray-300 text-right">{point.tonnage}t · {point.services} · {formatRate(point.onTimeWindow)}</p>
+                                </div>
+                            ))}
+                        </div>
+                        {trend.length > 0 && <p className="text-xs text-gray-500 mt-2">Tonelagem · atendimentos · no prazo (janela)</p>}
+                    </div>
+                </div>
+            </div>
+        </Card>
+    );
+};
+
+// --- Disruption Panel Component ---
+interface DisruptionPanelProps {
+    baseline: ScheduleItem[];
+    input: DisruptionInput;
+    products: Product[];
+    onAdopt: (result: DisruptionResult) => void;
+}
+const DisruptionPanel: React.FC<DisruptionPanelProps> = ({ baseline, input, products, onAdopt }) => {
+    const { context } = input;
+    const serviceableLocations = context.locations.filter(l => !isTerminalLocation(l));
+    const initialDraft = {
+        kind: 'barge-unavailable' as DisruptionKind,
+        bargeId: context.barges[0]?.id || '',
+        locationId: context.locations[0]?.id || '',
+        itemIndex: -1,
+        hours: 2,
+        from: context.simulationStartTime,
+        until: context.simulationStartTime,
+        shipName: '',
+        requestLocationId: serviceableLocations[0]?.id || '',
+        productType: products[0]?.code || '',
+        quantity: 0,
+    };
+    const [draft, setDraft] = useState(initialDraft);
+    const [events, setEvents] = useState<DisruptionEvent[]>([]);
+    const [result, setResult] = useState<DisruptionResult | null>(null);
+    const [simulationError, setSimulationError] = useState<string | null>(null);
+    const inputClasses = "w-full bg-white/10 text-white placeholder-gray-400 p-2 rounded-md border border-white/20 focus:ring-2 focus:ring-amber-500 focus:outline-none";
+
+    const deliveries = baseline.map((item, index) => ({ item, index })).filter(({ item }) => item.shipName !== 'TERMINAL');
+    const updateDraft = (change: Partial<typeof initialDraft>) => setDraft(prev => ({ ...prev, ...change }));
+
+    // Any change to the events makes the previous simulation stale.
+    const updateEvents = (next: DisruptionEvent[]) => {
+        setEvents(next);
+        setResult(null);
+    };
+
+    const buildEvent = (): DisruptionEvent | null => {
+        const id = crypto.randomUUID();
+        switch (draft.kind) {
+            case 'barge-unavailable':
+                return draft.bargeId && draft.until > draft.from ? { id, kind: draft.kind, bargeId: draft.bargeId, from: draft.from, until: draft.until } : null;
+            case 'location-closed':
+                return draft.locationId && draft.until > draft.from ? { id, kind: draft.kind, locationId: draft.locationId, from: draft.from, until: draft.until } : null;
+            case 'operation-delay':
+                return draft.itemIndex >= 0 && draft.hours > 0 ? { id, kind: draft.kind, itemIndex: draft.itemIndex, hours: draft.hours } : null;
+            case 'extra-request':
+                if (!draft.shipName.trim() || !draft.requestLocationId || !draft.productType || draft.quantity <= 0 || draft.until <= draft.from) return null;
+                return {
+                    id,
+                    kind: draft.kind,
+                    request: {
+                        id,
+                        shipName: draft.shipName.trim(),
+                        products: [{ productType: draft.productType, quantity: draft.quantity }],
+                        windowStart: draft.from,
+                        windowEnd: draft.until,
+                        contractualDate: draft.until.slice(0, 10),
+                        status: RequestStatus.Confirmed,
+                        locationId: draft.requestLocationId,
+                    },
+                };
+        }
+    };
+
+    const handleAddEvent = (e: React.FormEvent) => {
+        e.preventDefault();
+        const event = buildEvent();
+        if (!event) {
+            setSimulationError("Preencha todos os campos do evento. O fim do período deve ser posterior ao início.");
+            return;
+        }
+        setSimulationError(null);
+        updateEvents([...events, event]);
+        setDraft(prev => ({ ...initialDraft, kind: prev.kind }));
+    };
+
+    const handleSimulate = () => {
+        try {
+            setResult(simulateDisruptions(baseline, events, input));
+            setSimulationError(null);
+        } catch (err: any) {
+            setSimulationError(err.message || "Não foi possível simular os eventos.");
+        }
+    };
+
+    const describeEvent = (event: DisruptionEvent): string => {
+        switch (event.kind) {
+            case 'barge-unavailable':
+                return `${context.barges.find(b => b.id === event.bargeId)?.name || event.bargeId} de ${formatDateTime(event.from)} a ${formatDateTime(event.until)}`;
+            case 'location-closed':
+                return `${context.locations.find(l => l.id === event.locationId)?.name || event.locationId} de ${formatDateTime(event.from)} a ${formatDateTime(event.until)}`;
+            case 'operation-delay': {
+                const item = baseline[event.itemIndex];
+                return item ? `${item.shipName} (${item.product}, ${item.bargeName}) +${event.hours}h` : `Operação removida +${event.hours}h`;
+            }
+            case 'extra-request':
+                return `${event.request.shipName}: ${event.request.products.map(p => `${p.quantity}t ${p.productType}`).join(', ')} até ${formatDateTime(event.request.windowEnd)}`;
+        }
+    };
+
+    const simulated = useMemo(() => {
+        if (!result) return null;
+        const simulatedContext = { ...context, requests: result.requests, locations: result.locations };
+        return {
+            schedule: attachTimelines(result.schedule, simulatedContext),
+            violationsByItem: groupViolationsByItem(validateSchedule(result.schedule, simulatedContext)),
+        };
+    }, [result, context]);
+
+    const shipNames = (ids: string[]) => ids.map(id => result?.requests.find(r => r.id === id)?.shipName || id);
+
+    if (baseline.length === 0) {
+        return (
+            <Card title="Contingências" icon={<InfoIcon className="w-7 h-7 text-amber-400" />}>
+                <p className="text-center text-gray-400 p-4">Gere uma programação para simular contingências sobre ela.</p>
+            </Card>
+        );
+    }
+
+    return (
+        <Card title="Contingências" icon={<InfoIcon className="w-7 h-7 text-amber-400" />}>
+            <div className="space-y-4 overflow-y-auto pr-2 h-full text-sm">
+                <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                    <form onSubmit={handleAddEvent} className="p-4 bg-white/5 rounded-lg space-y-3">
+                        <select value={draft.kind} onChange={e => updateDraft({ kind: e.target.value as DisruptionKind })} className={inputClasses}>
+                            {(Object.keys(disruptionKindLabels) as DisruptionKind[]).map(kind => <option key={kind} value={kind} className="bg-gray-800">{disruptionKindLabels[kind]}</option>)}
+                        </select>
+                        {draft.kind === 'barge-unavailable' && (
+                            <select value={draft.bargeId} onChange={e => updateDraft({ bargeId: e.target.value })} className={inputClasses}>
+                                {context.barges.map(b => <option key={b.id} value={b.id} className="bg-gray-800">{b.name}</option>)}
+                            </select>
+                        )}
+                        {draft.kind === 'location-closed' && (
+                            <select value={draft.locationId} onChange={e => updateDraft({ locationId: e.target.value })} className={inputClasses}>
+                                {context.locations.map(l => <option key={l.id} value={l.id} className="bg-gray-800">{l.name}</option>)}
+                            </select>
+                        )}
+                        {draft.kind === 'operation-delay' && (
+                            <div className="grid grid-cols-[1fr_6rem] gap-2">
+                                <select value={draft.itemIndex} onChange={e => updateDraft({ itemIndex: parseInt(e.target.value, 10) })} className={inputClasses}>
+                                    <option value={-1} className="bg-gray-800">Selecione a operação</option>
+                                    {deliveries.map(({ item, index }) => (
+                                        <option key={index} value={index} className="bg-gray-800">{`${formatDateTime(item.scheduledTime)} · ${item.shipName} · ${item.quantity}t ${item.product} · ${item.bargeName}`}</option>
+                                    ))}
+                                </select>
+                                <input type="number" min="0.25" step="0.25" value={draft.hours || ''} onChange={e => updateDraft({ hours: parseFloat(e.target.value) || 0 })} title="Atraso (h)" className={inputClasses} />
+                            </div>
+                        )}
+                        {draft.kind === 'extra-request' && (
+                            <>
+                                <div className="grid grid-cols-2 gap-2">
+                                    <input type="text" placeholder="Nome do Navio" value={draft.shipName} onChange={e => updateDraft({ shipName: e.target.value })} className={inputClasses} />
+                                    <select value={draft.requestLocationId} onChange={e => updateDraft({ requestLocationId: e.target.value })} className={inputClasses}>
+                                        {serviceableLocations.map(l => <option key={l.id} value={l.id} className="bg-gray-800">{l.name}</option>)}
+                                    </select>
+                                </div>
+                                <div className="grid grid-cols-2 gap-2">
+                                    <select value={draft.productType} onChange={e => updateDraft({ productType: e.target.value })} className={inputClasses}>
+                                        {products.map(p => <option key={p.code} value={p.code} className="bg-gray-800">{p.code}</option>)}
+                                    </select>
+                                    <input type="number" min="1" placeholder="Quantidade (t)" value={draft.quantity || ''} onChange={e => updateDraft({ quantity: parseInt(e.target.value, 10) || 0 })} className={inputClasses} />
+                                </div>
+                            </>
+                        )}
+                        {draft.kind !== 'operation-delay' && (
+                            <div className="grid grid-cols-2 gap-2">
+                                <div>
+                                    <label className="text-xs text-gray-300">{draft.kind === 'extra-request' ? 'Início da Janela' : 'De'}</label>
+                                    <input type="datetime-local" value={draft.from} onChange={e => updateDraft({ from: e.target.value })} className={inputClasses} />
+                                </div>
+                                <div>
+                                    <label className="text-xs text-gray-300">{draft.kind === 'extra-request' ? 'Fim da Janela' : 'Até'}</label>
+                                    <input type="datetime-local" value={draft.until} onChange={e => updateDraft({ until: e.target.value })} className={inputClasses} />
+                                </div>
+                            </div>
+                        )}
+                        <button type="submit" className="w-full bg-gradient-to-r from-teal-500 to-teal-600 hover:from-teal-600 hover:to-teal-700 text-white font-bold p-2 rounded-md transition-colors flex items-center justify-center gap-2">
+                            <PlusIcon className="w-5 h-5" /> Adicionar Evento
+                        </button>
+                    </form>
+
+                    <div className="p-4 bg-white/5 rounded-lg flex flex-col">
+                        <h3 className="font-bold text-gray-200 mb-3">Eventos</h3>
+                        <div className="space-y-2 flex-grow">
+                            {events.length === 0 && <p className="text-gray-400">Nenhum evento adicionado.</p>}
+                            {events.map(event => (
+                                <div key={event.id} className="flex justify-between items-center bg-white/5 p-2 rounded-md">
+                                    <p className="text-gray-300"><span className="font-semibold text-amber-300">{disruptionKindLabels[event.kind]}:</span> {describeEvent(event)}</p>
+                                    <button onClick={() => updateEvents(events.filter(e => e.id !== event.id))} className="text-gray-500 hover:text-rose-400 p-1"><TrashIcon className="w-4 h-4" /></button>
+                                </div>
+                            ))}
+                        </div>
+                        <button onClick={handleSimulate} disabled={events.length === 0} className="mt-3 bg-gradient-to-r from-teal-500 to-amber-500 hover:from-teal-600 hover:to-amber-600 text-white font-bold py-2 px-6 rounded-full transition-all disabled:opacity-50 disabled:cursor-not-allowed">
+                            Simular
+                        </button>
+                    </div>
+                </div>
+
+                {simulationError && <p className="text-rose-400 bg-rose-900/50 p-3 rounded-md">{simulationError}</p>}
+
+                {result && simulated && (
+                    <div className="space-y-4">
+                        <div className="p-4 bg-white/5 rounded-lg space-y-2">
+                            <div className="flex justify-between items-center gap-4">
+                                <h3 className="font-bold text-gray-200">Impacto nas Janelas dos Navios</h3>
+                                <button onClick={() => onAdopt(result)} className="bg-amber-700 hover:bg-amber-600 text-white text-xs font-bold py-1.5 px-4 rounded-full transition-colors">
+                                    Adotar Programação Simulada
+                                </button>
+                            </div>
+                            {result.newMisses.length === 0 && result.recovered.length === 0 && <p className="text-teal-300">Nenhum navio passa a perder sua janela.</p>}
+                            {result.newMisses.length > 0 && (
+                                <p className="text-rose-300"><span className="font-semibold">Passam a perder a janela:</span> {shipNames(result.newMisses).join(', ')}</p>
+                            )}
+                            {result.recovered.length > 0 && (
+                                <p className="text-teal-300"><span className="font-semibold">Deixam de perder a janela:</span> {shipNames(result.recovered).join(', ')}</p>
+                            )}
+                            {result.baselineMisses.length > 0 && (
+                                <p className="text-xs text-gray-400">Já perdiam a janela na programação original: {shipNames(result.baselineMisses).join(', ')}</p>
+                            )}
+                        </div>
+                        <div className="h-96">
+                            <GanttChart
+                                schedule={simulated.schedule}
+                                barges={context.barges}
+                                requests={result.requests}
+                                simulationStartTime={context.simulationStartTime}
+                                violationsByItem={simulated.violationsByItem}
+                                lockedBargeIds={[]}
+                            />
+                        </div>
+                    </div>
+                )}
+            </div>
+        </Card>
+    );
+};
+
+// --- Scheduling Provider Setup Component ---
+interface SchedulingProviderSetupProps {
+    settings: SchedulingProviderSettings;
+    setSettings: React.Dispatch<React.SetStateAction<SchedulingProviderSettings>>;
+}
+const SchedulingProviderSetup: React.FC<SchedulingProviderSetupProps> = ({ settings, setSettings }) => {
+    const [recordings, setRecordings] = useState<PromptRecording[]>(loadRecordings);
+    const [importError, setImportError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const inputClasses = "w-full bg-white/10 text-white placeholder-gray-400 p-2 rounded-md border border-white/20 focus:ring-2 focus:ring-amber-500 focus:outline-none";
+    const isRecording = settings.kind === 'replay' && settings.replay.mode === 'record';
+
+    const updateRecordings = (next: PromptRecording[]) => {
+        saveRecordings(next);
+        setRecordings(next);
+    };
+
+    const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            updateRecordings(mergeRecordings(recordings, parseRecordingsFile(await file.text())));
+            setImportError(null);
+        } catch (err: any) {
+            setImportError(err.message || "Não foi possível importar o arquivo.");
+        }
+    };
+
+    const providerDescriptions: Record<SchedulingProviderKind, string> = {
+        gemini: 'Usa o modelo Gemini do Google. Requer a variável de ambiente API_KEY.',
+        'openai-compatible': 'Usa qualquer servidor compatível com a API de chat da OpenAI, como um servidor de modelos on-prem.',
+        replay: 'Grava pares de prompt/resposta ou reproduz gravações anteriores sem acesso à rede.',
+        local: 'Motor determinístico que aplica as regras diretamente, sem IA e sem rede.',
+    };
+
+    return (
+        <Card title="Motor de Programação" icon={<SpeedIcon className="w-7 h-7 text-amber-400" />}>
+            <div className="space-y-4 overflow-y-auto pr-2 h-full text-sm">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                    {(Object.keys(providerKindLabels) as SchedulingProviderKind[]).map(kind => (
+                        <button
+                            key={kind}
+                            onClick={() => setSettings(prev => ({ ...prev, kind }))}
+                            className={`text-left p-4 rounded-lg transition-all ${settings.kind === kind ? 'bg-white/10 ring-2 ring-amber-500' : 'bg-white/5 hover:bg-white/10'}`}
+                        >
+                            <p className="font-bold text-gray-200">{providerKindLabels[kind]}</p>
+                            <p className="text-xs text-gray-400 mt-1">{providerDescriptions[kind]}</p>
+                        </button>
+                    ))}
+                </div>
+
+                {(settings.kind === 'gemini' || (isRecording && settings.replay.backend === 'gemini')) && (
+                    <div className="p-4 bg-white/5 rounded-lg space-y-2">
+                        <label className="text-xs text-gray-300">Modelo Gemini</label>
+                        <input type="text" value={settings.gemini.model} onChange={e => setSettings(prev => ({ ...prev, gemini: { model: e.target.value } }))} placeholder="gemini-2.5-flash" className={inputClasses} />
+                    </div>
+                )}
+
+                {(settings.kind === 'openai-compatible' || (isRecording && settings.replay.backend === 'openai-compatible')) && (
+                    <div className="p-4 bg-white/5 rounded-lg grid grid-cols-1 md:grid-cols-3 gap-4">
+                        <div>
+                            <label className="text-xs text-gray-300">URL Base</label>
+                            <input type="text" value={settings.openAICompatible.baseUrl} onChange={e => setSettings(prev => ({ ...prev, openAICompatible: { ...prev.openAICompatible, baseUrl: e.target.value } }))} placeholder="http://localhost:11434/v1" className={inputClasses} />
+                        </div>
+                        <div>
+                            <label className="text-xs text-gray-300">Modelo</label>
+                            <input type="text" value={settings.openAICompatible.model} onChange={e => setSettings(prev => ({ ...prev, openAICompatible: { ...prev.openAICompatible, model: e.target.value } }))} className={inputClasses} />
+                        </div>
+                        <div>
+                            <label className="text-xs text-gray-300">Chave de API (opcional)</label>
+                            <input type="password" value={settings.openAICompatible.apiKey} onChange={e => setSettings(prev => ({ ...prev, openAICompatible: { ...prev.openAICompatible, apiKey: e.target.value } }))} className={inputClasses} />
+                            <p className="text-xs text-gray-400 mt-1">Guardada só nesta sessão do navegador; informe-a de novo ao reabrir.</p>
+                        </div>
+                    </div>
+                )}
+
+                {settings.kind === 'replay' && (
+                    <div className="p-4 bg-white/5 rounded-lg space-y-4">
+                        <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <label className="text-xs text-gray-300">Modo</label>
+                                <select value={settings.replay.mode} onChange={e => setSettings(prev => ({ ...prev, replay: { ...prev.replay, mode: e.target.value as 'record' | 'replay' } }))} className={inputClasses}>
+                                    <option value="replay" className="bg-teal-900">Reproduzir gravações</option>
+                                    <option value="record" className="bg-teal-900">Gravar novas gerações</option>
+                                </select>
+                            </div>
+                            <div>
+                                <label className="text-xs text-gray-300">Backend para gravação</label>
+                                <select value={settings.replay.backend} onChange={e => setSettings(prev => ({ ...prev, replay: { ...prev.replay, backend: e.target.value as LlmBackendKind } }))} disabled={!isRecording} className={`${inputClasses} disabled:opacity-50`}>
+                                    <option value="gemini" className="bg-teal-900">{providerKindLabels.gemini}</option>
+                                    <option value="openai-compatible" className="bg-teal-900">{providerKindLabels['openai-compatible']}</option>
+                                </select>
+                            </div>
+                        </div>
+
+                        <div className="flex items-center justify-between">
+                            <p className="font-semibold text-gray-200">{recordings.length} {recordings.length === 1 ? 'gravação' : 'gravações'}</p>
+                            <div className="flex gap-2">
+                                <button onClick={() => fileInputRef.current?.click()} className="flex items-center gap-1.5 bg-white/10 hover:bg-white/20 text-gray-200 font-semibold py-1.5 px-3 rounded-md transition-colors text-xs">
+                                    <LoadIcon className="w-4 h-4" /> Importar
+                                </button>
+                                <button onClick={() => downloadFile('gravacoes-programacao.json', serializeRecordings(recordings), 'application/json')} disabled={recordings.length === 0} className="flex items-center gap-1.5 bg-white/10 hover:bg-white/20 text-gray-200 font-semibold py-1.5 px-3 rounded-md transition-colors text-xs disabled:opacity-50">
+                                    <SaveIcon className="w-4 h-4" /> Exportar
+                                </button>
+                                <button onClick={() => updateRecordings([])} disabled={recordings.length === 0} className="flex items-center gap-1.5 bg-gray-800 hover:bg-gray-700 text-gray-300 font-semibold py-1.5 px-3 rounded-md transition-colors text-xs disabled:opacity-50">
+                                    <TrashIcon className="w-4 h-4" /> Limpar
+                                </button>
+                                <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+                            </div>
+                        </div>
+                        {importError && <p className="text-rose-400 text-xs">{importError}</p>}
+                        <div className="space-y-2">
+                            {recordings.map(r => (
+                                <div key={r.id} className="flex items-center justify-between bg-white/5 p-2 rounded-md">
+                                    <div>
+                                        <p className="text-gray-200 font-semibold">{r.client}</p>
+                                        <p className="text-xs text-gray-400">{formatDateTime(r.recordedAt)} · {r.prompt.length} caracteres de prompt</p>
+                                    </div>
+                                    <button onClick={() => updateRecordings(recordings.filter(x => x.id !== r.id))} className="text-gray-500 hover:text-rose-400 p-1"><TrashIcon className="w-4 h-4" /></button>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                )}
+            </div>
+        </Card>
+    );
+};
+
+// --- State Transfer Component ---
+interface StateTransferProps {
+    state: AppState;
+    onApply: (state: AppState, message: string) => void;
+    onReset: () => void;
+}
+const StateTransfer: React.FC<StateTransferProps> = ({ state, onApply, onReset }) => {
+    const [pending, setPending] = useState<{ fileName: string; file: AppStateFile } | null>(null);
+    const [mode, setMode] = useState<'merge' | 'replace'>('merge');
+    const [sections, setSections] = useState<AppStateSection[]>([]);
+    const [importError, setImportError] = useState<string | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+
+    const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+        const file = e.target.files?.[0];
+        e.target.value = '';
+        if (!file) return;
+        try {
+            setPending({ fileName: file.name, file: parseAppStateFile(await file.text()) });
+            setMode('merge');
+            setSections([]);
+            setImportError(null);
+        } catch (err: any) {
+            setPending(null);
+            setImportError(err.message || "Não foi possível ler o arquivo.");
+        }
+    };
+
+    const handleApply = () => {
+        if (!pending) return;
+        if (mode === 'replace') {
+            if (!window.confirm("Substituir toda a configuração atual pelo conteúdo do arquivo? Os dados atuais que não estiverem no arquivo serão perdidos.")) return;
+            onApply(replaceAppState(state, pending.file.state), `Estado importado de ${pending.fileName}.`);
+        } else {
+            let merge: AppStateMerge;
+            try {
+                merge = mergeAppState(state, pending.file.state, sections, loadBdnSequence());
+            } catch (err: any) {
+                setImportError(err.message || "Não foi possível mesclar o arquivo.");
+                return;
+            }
+            saveBdnSequence(merge.lastBdnSequence);
+            const renumbered = merge.renumberedBdns > 0 ? ` ${merge.renumberedBdns} BDN(s) com número já usado foram renumeradas.` : '';
+            onApply(merge.state, `${sections.map(s => appStateSectionLabels[s]).join(', ')} importado(s) de ${pending.fileName}.${renumbered}`);
+        }
+        setImportError(null);
+        setPending(null);
+    };
+
+    const toggleSection = (section: AppStateSection) =>
+        setSections(prev => (prev.includes(section) ? prev.filter(s => s !== section) : [...prev, section]));
+
+    const recordCounts = (imported: AppState): Partial<Record<AppStateSection, number>> => ({
+        fleet: imported.barges.length,
+        initialState: imported.bargeStates.length,
+        locations: imported.locations.length,
+        products: imported.products?.length,
+        requests: imported.requests.length,
+        priorities: imported.priorities.length,
+        history: imported.operationHistory.length,
+    });
+
+    return (
+        <div className="mt-4 pt-4 border-t border-white/10 space-y-3">
+            <div className="flex justify-center items-center gap-4 flex-wrap">
+                <p className="text-sm text-gray-400">
+                    Sua configuração é salva automaticamente.
+                </p>
+                <button
+                  onClick={() => downloadAppState(state)}
+                  className="flex items-center gap-2 bg-gray-800 hover:bg-gray-700 text-gray-300 font-semibold py-2 px-4 rounded-md transition-colors text-sm"
+                >
+                    <SaveIcon className="w-4 h-4"/> Exportar Estado
+                </button>
+                <button
+                  onClick={() => fileInputRef.current?.click()}
+                  className="flex items-center gap-2 bg-gray-800 hover:bg-gray-700 text-gray-300 font-semibold py-2 px-4 rounded-md transition-colors text-sm"
+                >
+                    <LoadIcon className="w-4 h-4"/> Importar Estado
+                </button>
+                <input ref={fileInputRef} type="file" accept=".json,application/json" onChange={handleFile} className="hidden" />
+                <button 
+                  onClick={onReset} 
+                  className="flex items-center gap-2 bg-gray-800 hover:bg-gray-700 text-gray-300 font-semibold py-2 px-4 rounded-md transition-colors text-sm"
+                >
+                    <TrashIcon className="w-4 h-4"/> Redefinir para Padrões
+                </button>
+            </div>
+            {importError && <p className="text-sm text-rose-400">{importError}</p>}
+            {pending && (
+                <div className="max-w-3xl mx-auto p-4 bg-white/5 rounded-lg text-left text-sm space-y-3">
+                    <div className="flex justify-between items-start gap-4">
+                        <div>
+                            <p className="font-bold text-gray-200">{pending.fileName}</p>
+                            <p className="text-xs text-gray-400">
+                                {pending.file.exportedAt ? `Exportado em ${formatDateTime(pending.file.exportedAt)} · ` : ''}
+                                versão {pending.file.version}{pending.file.version < APP_STATE_VERSION ? ` (atualizado para a versão ${APP_STATE_VERSION})` : ''}
+                            </p>
+                        </div>
+                        <button onClick={() => setPending(null)} title="Cancelar importação" className="text-gray-400 hover:text-white">
+                            <XIcon className="w-5 h-5" />
+                        </button>
+                    </div>
+                    <div className="flex gap-4">
+                        <label className="flex items-center gap-2 text-gray-300 cursor-pointer">
+                            <input type="radio" checked={mode === 'merge'} onChange={() => setMode('merge')} className="accent-amber-500" />
+                            Importar seções selecionadas
+                        </label>
+                        <label className="flex items-center gap-2 text-gray-300 cursor-pointer">
+                            <input type="radio" checked={mode === 'replace'} onChange={() => setMode('replace')} className="accent-amber-500" />
+                            Substituir tudo
+                        </label>
+                    </div>
+                    {mode === 'merge' ? (
+                        <>
+                            <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                                {appStateSectionsIn(pending.file.state).map(section => {
+                                    const count = recordCounts(pending.file.state)[section];
+                                    return (
+                                        <label key={section} className="flex items-center gap-2 text-gray-300 cursor-pointer">
+                                            <input type="checkbox" checked={sections.includes(section)} onChange={() => toggleSection(section)} className="accent-amber-500" />
+                                            {appStateSectionLabels[section]}
+                                            {count !== undefined && <span className="text-xs text-gray-500">({count})</span>}
+                                        </label>
+                                    );
+                                })}
+                            </div>
+                            <p className="text-xs text-gray-400">Registros do arquivo substituem os atuais com o mesmo identificador e os demais são acrescentados. Configurações são substituídas.</p>
+                        </>
+                    ) : (
+                        <p className="text-xs text-amber-300">Toda a configuração atual será substituída pelo conteúdo do arquivo. A chave de API do servidor de modelos atual é mantida.</p>
+                    )}
+                    <p className="text-xs text-gray-400">A programação gerada e ainda não publicada será descartada.</p>
+                    <div className="flex justify-end">
+                        <button
+                            onClick={handleApply}
+                            disabled={mode === 'merge' && sections.length === 0}
+                            className="bg-amber-700 hover:bg-amber-600 text-white font-semibold py-2 px-4 rounded-md transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                        >
+                            Importar
+                        </button>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+// --- Change Log Component ---
+interface ChangeLogProps {
+    history: ChangeHistory;
+    onUndo: () => void;
+    onRedo: () => void;
+}
+const ChangeLog: React.FC<ChangeLogProps> = ({ history, onUndo, onRedo }) => {
+    const [isOpen, setIsOpen] = useState(false);
+    const lastDone = history.done[history.done.length - 1];
+    const nextRedo = history.undone[history.undone.length - 1];
+    const buttonClasses = "flex items-center gap-1.5 text-gray-300 hover:text-white hover:bg-white/10 py-1.5 px-2 rounded-md transition-colors text-sm disabled:opacity-40 disabled:cursor-not-allowed disabled:hover:bg-transparent";
+    const time = (at: string) => new Date(at).toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+    return (
+        <div className="relative ml-auto flex items-center gap-1 pb-1">
+            <button onClick={onUndo} disabled={!lastDone} title={lastDone ? `Desfazer: ${lastDone.label} (Ctrl+Z)` : 'Nada a desfazer'} className={buttonClasses}>
+                <UndoIcon className="w-4 h-4" /> Desfazer
+            </button>
+            <button onClick={onRedo} disabled={!nextRedo} title={nextRedo ? `Refazer: ${nextRedo.label} (Ctrl+Shift+Z)` : 'Nada a refazer'} className={buttonClasses}>
+                <RedoIcon className="w-4 h-4" /> Refazer
+            </button>
+            <button onClick={() => setIsOpen(!isOpen)} className={buttonClasses}>
+                Alterações ({history.done.length})
+            </button>
+            {isOpen && (
+                <div className="absolute right-0 top-full mt-1 w-96 max-h-96 overflow-y-auto bg-teal-950 border border-white/20 rounded-lg shadow-xl z-20 p-2 text-sm">
+                    {history.done.length === 0 && history.undone.length === 0 ? (
+                        <p className="text-gray-400 text-center p-4">Nenhuma alteração nesta sessão.</p>
+                    ) : (
+                        <ul className="space-y-1">
+                            {/* Most recent first: what can be redone, then what can be undone. */}
+                            {history.undone.map(entry => (
+                                <li key={entry.id} className="flex justify-between gap-3 p-2 rounded-md text-gray-500 line-through">
+                                    <span>{entry.label}</span>
+                                    <span className="text-xs flex-shrink-0">{time(entry.at)}</span>
+                                </li>
+                            ))}
+                            {[...history.done].reverse().map((entry, i) => (
+                                <li key={entry.id} className={`flex justify-between gap-3 p-2 rounded-md text-gray-200 ${i === 0 ? 'bg-white/10' : ''}`}>
+                                    <span>{entry.label}</span>
+                                    <span className="text-xs text-gray-400 flex-shrink-0">{time(entry.at)}</span>
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+                    <p className="text-xs text-gray-500 mt-2 px-2">Mantidas apenas nesta sessão. As alterações desfeitas aparecem riscadas.</p>
+                </div>
+            )}
+        </div>
+    );
+};
+
 // --- Tab Button Component ---
 interface TabButtonProps {
     isActive: boolean;
@@ -1259,7 +3517,7 @@ const ProgbunkerLogo = () => (
 
 
 // --- Main App Component ---
-type TabName = 'setup' | 'state' | 'scheduling' | 'history' | 'priorities' | 'locations' | 'map';
+type TabName = 'setup' | 'state' | 'scheduling' | 'scenarios' | 'disruptions' | 'dashboard' | 'history' | 'priorities' | 'locations' | 'products' | 'map' | 'parameters' | 'engine';
 
 const defaultPriorities: Priority[] = [
   { id: 'p1', text: "Data Contratual: Priorizar o atendimento de navios em sua 'dataContratual'." },
@@ -1269,60 +3527,67 @@ const defaultPriorities: Priority[] = [
 ];
 
 const defaultBarges: Barge[] = [
-    { id: 'b1', name: 'Poseidon', products: [{ productType: ProductType.VLSFO, capacity: 2000 }], speed: 10 },
-    { id: 'b2', name: 'Triton', products: [{ productType: ProductType.MGO, capacity: 800 }], speed: 12 },
-    { id: 'b3', name: 'Nereus (Híbrida)', products: [{ productType: ProductType.VLSFO, capacity: 1000 }, { productType: ProductType.MGO, capacity: 400 }], speed: 9 },
+    { id: 'b1', name: 'Poseidon', products: [{ productType: 'VLSFO', capacity: 2000, tankGroup: 'Residual' }], speed: 10 },
+    { id: 'b2', name: 'Triton', products: [{ productType: 'MGO', capacity: 800, tankGroup: 'Destilado' }], speed: 12 },
+    { id: 'b3', name: 'Nereus (Híbrida)', products: [{ productType: 'VLSFO', capacity: 1000, tankGroup: 'Residual' }, { productType: 'MGO', capacity: 400, tankGroup: 'Destilado' }], speed: 9 },
 ];
 
 const defaultLocations: Location[] = [
-    // The AI uses TERMINAL for recharges. It is the only default location.
-    { id: 'loc-term', name: 'TERMINAL', latitude: -23.918613, longitude: -46.367846 },
+    // Barges reload at terminals. The barge pier is the only default location.
+    { id: 'loc-term', name: 'TERMINAL', type: LocationType.Terminal, latitude: -23.918613, longitude: -46.367846 },
 ];
 
 const defaultBargeStates: BargeState[] = [
-    { bargeId: 'b1', volumes: [{productType: ProductType.VLSFO, volume: 1500}], locationId: 'loc-term' },
-    { bargeId: 'b2', volumes: [{productType: ProductType.MGO, volume: 600}], locationId: 'loc-term' },
-    { bargeId: 'b3', volumes: [{productType: ProductType.VLSFO, volume: 750}, {productType: ProductType.MGO, volume: 300}], locationId: 'loc-term' },
+    { bargeId: 'b1', volumes: [{productType: 'VLSFO', volume: 1500}], locationId: 'loc-term' },
+    { bargeId: 'b2', volumes: [{productType: 'MGO', volume: 600}], locationId: 'loc-term' },
+    { bargeId: 'b3', volumes: [{productType: 'VLSFO', volume: 750}, {productType: 'MGO', volume: 300}], locationId: 'loc-term' },
 ];
 
 const defaultRequests: RefuelingRequest[] = []; // Start with no requests, as locations must be configured first.
 
-// Type definition for the application state to be saved
-interface AppState {
-    barges: Barge[];
-    bargeStates: BargeState[];
-    requests: RefuelingRequest[];
-    locations: Location[];
-    priorities: Priority[];
-    operationHistory: OperationHistoryItem[];
-    simulationStartTime?: string;
-}
+const LOCAL_STORAGE_KEY = 'bargeSchedulerConfig_v4'; // Incremented version to avoid conflicts
+// v3 history records referenced barges, ships and locations by name only.
+const LEGACY_LOCAL_STORAGE_KEY = 'bargeSchedulerConfig_v3';
+// A saved entry that fails to load is moved here rather than deleted, so it can still be recovered.
+const UNREADABLE_STATE_STORAGE_KEY = 'bargeSchedulerConfig_unreadable';
+const initialTabOrder: TabName[] = ['scheduling', 'scenarios', 'disruptions', 'dashboard', 'state', 'setup', 'locations', 'products', 'map', 'priorities', 'parameters', 'engine', 'history'];
 
-const LOCAL_STORAGE_KEY = 'bargeSchedulerConfig_v3'; // Incremented version to avoid conflicts
-const initialTabOrder: TabName[] = ['scheduling', 'state', 'setup', 'locations', 'map', 'priorities', 'history'];
+interface LoadedState {
+    state: AppState | null; // null when nothing is saved or the saved entry is unreadable
+    problem?: string;
+}
 
-// Function to load the application state from localStorage
-const loadInitialState = (): AppState | null => {
+// Function to load the application state from localStorage, upgrading and checking it like an imported file
+const loadInitialState = (): LoadedState => {
+    const savedStateJSON = localStorage.getItem(LOCAL_STORAGE_KEY);
+    const legacyStateJSON = savedStateJSON ? null : localStorage.getItem(LEGACY_LOCAL_STORAGE_KEY);
+    if (!savedStateJSON && !legacyStateJSON) return { state: null };
     try {
-        const savedStateJSON = localStorage.getItem(LOCAL_STORAGE_KEY);
-        if (savedStateJSON) {
-            return JSON.parse(savedStateJSON) as AppState;
-        }
-    } catch (error) {
+        if (savedStateJSON) return { state: parseStoredAppState(savedStateJSON) };
+        const migratedState = readAppState(JSON.parse(legacyStateJSON!), 3);
+        localStorage.setItem(LOCAL_STORAGE_KEY, serializeStoredAppState(migratedState));
+        localStorage.removeItem(LEGACY_LOCAL_STORAGE_KEY);
+        return { state: migratedState };
+    } catch (error: any) {
         console.error("Could not load state from localStorage on init", error);
-        localStorage.removeItem(LOCAL_STORAGE_KEY); // Clear corrupted data
+        localStorage.setItem(UNREADABLE_STATE_STORAGE_KEY, (savedStateJSON || legacyStateJSON)!);
+        localStorage.removeItem(savedStateJSON ? LOCAL_STORAGE_KEY : LEGACY_LOCAL_STORAGE_KEY);
+        return {
+            state: null,
+            problem: `A configuração salva não pôde ser lida e a aplicação iniciou com os padrões. O conteúdo original foi guardado em localStorage na chave '${UNREADABLE_STATE_STORAGE_KEY}'. ${error.message || ''}`,
+        };
     }
-    return null; // Return null if nothing is found or there's an error
 };
 
 export default function App() {
-  const [initialState] = useState(loadInitialState);
+  const [{ state: initialState, problem: initialLoadProblem }] = useState(loadInitialState);
   const isInitialMount = useRef(true);
 
-  const [barges, setBarges] = useState<Barge[]>(initialState?.barges || defaultBarges);
-  const [locations, setLocations] = useState<Location[]>(initialState?.locations || defaultLocations);
+  const [barges, setBarges] = useState<Barge[]>(() => normalizeBargeTankGroups(initialState?.barges || defaultBarges, initialState?.products || defaultProducts));
+  const [locations, setLocations] = useState<Location[]>(() => normalizeLocations(initialState?.locations || defaultLocations));
   const [bargeStates, setBargeStates] = useState<BargeState[]>(initialState?.bargeStates || defaultBargeStates);
-  const [requests, setRequests] = useState<RefuelingRequest[]>(initialState?.requests || defaultRequests);
+  const [requests, setRequests] = useState<RefuelingRequest[]>(() => normalizeRequestStatuses(initialState?.requests || defaultRequests));
+  const [products, setProducts] = useState<Product[]>(() => normalizeProductCatalogue(initialState?.products, initialState?.barges || defaultBarges, initialState?.requests || defaultRequests));
   const [operationHistory, setOperationHistory] = useState<OperationHistoryItem[]>(initialState?.operationHistory || []);
   const [priorities, setPriorities] = useState<Priority[]>(initialState?.priorities || defaultPriorities);
   const [simulationStartTime, setSimulationStartTime] = useState<string>(initialState?.simulationStartTime || (() => {
@@ -1331,12 +3596,36 @@ export default function App() {
     now.setMinutes(now.getMinutes() - now.getTimezoneOffset());
     return now.toISOString().slice(0, 16);
   })());
+  const [operationalParameters, setOperationalParameters] = useState<OperationalParameters>(() => normalizeOperationalParameters(initialState?.operationalParameters));
+  // A key still in a configuration saved before it moved to the session is taken over, and dropped from the save.
+  const [providerSettings, setProviderSettings] = useState<SchedulingProviderSettings>(() => {
+    const saved = { ...defaultProviderSettings, ...initialState?.schedulingProvider };
+    return { ...saved, openAICompatible: { ...saved.openAICompatible, apiKey: saved.openAICompatible.apiKey || loadSessionApiKey() } };
+  });
+  const [bdnSupplier, setBdnSupplier] = useState<BdnSupplier>({ ...emptyBdnSupplier, ...initialState?.bdnSupplier });
   
   const [schedule, setSchedule] = useState<ScheduleItem[]>([]);
   const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(initialLoadProblem || null);
   const [activeTab, setActiveTab] = useState<TabName>(initialTabOrder[0]);
   const [feedbackMessage, setFeedbackMessage] = useState('');
+  const [overrideViolations, setOverrideViolations] = useState(false);
+  const [lockedBargeIds, setLockedBargeIds] = useState<string[]>([]);
+  const [scenarios, setScenarios] = useState<Scenario[]>(loadScenarios);
+
+  const appState = useMemo((): Required<AppState> => ({
+    barges,
+    bargeStates,
+    requests,
+    locations,
+    products,
+    priorities,
+    operationHistory,
+    simulationStartTime,
+    schedulingProvider: providerSettings,
+    operationalParameters,
+    bdnSupplier,
+  }), [barges, bargeStates, requests, locations, products, priorities, operationHistory, simulationStartTime, providerSettings, operationalParameters, bdnSupplier]);
 
   // Auto-save state to localStorage on any change
   useEffect(() => {
@@ -1346,25 +3635,103 @@ export default function App() {
         return;
     }
     try {
-        const appState: AppState = {
-            barges,
-            bargeStates,
-            requests,
-            locations,
-            priorities,
-            operationHistory,
-            simulationStartTime,
-        };
-        localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(appState));
+        localStorage.setItem(LOCAL_STORAGE_KEY, serializeStoredAppState(appState));
     } catch (err) {
         console.error("Failed to auto-save state to localStorage", err);
         setError("Erro: Não foi possível salvar a configuração automaticamente. Suas alterações podem não ser mantidas.");
     }
-  }, [barges, bargeStates, requests, locations, priorities, operationHistory, simulationStartTime]);
+  }, [appState]);
+
+  useEffect(() => {
+    saveSessionApiKey(providerSettings.openAICompatible.apiKey);
+  }, [providerSettings.openAICompatible.apiKey]);
+
+  // Every change to the saved state or the schedule becomes an undoable entry. Handlers that change several
+  // sections at once name the change with labelNextChange; the others are described from the difference.
+  const [changeHistory, setChangeHistory] = useState<ChangeHistory>(emptyChangeHistory);
+  const undoSnapshot = useMemo((): UndoSnapshot => ({ state: appState, schedule }), [appState, schedule]);
+  const lastSnapshot = useRef(undoSnapshot);
+  const isRestoringSnapshot = useRef(false);
+  const nextChangeLabel = useRef<string | null>(null);
+
+  const labelNextChange = useCallback((label: string) => {
+    nextChangeLabel.current = label;
+  }, []);
+
+  useEffect(() => {
+    // A generation is recorded once it ends, from the schedule before it to the result.
+    if (isLoading) return;
+    const previous = lastSnapshot.current;
+    lastSnapshot.current = undoSnapshot;
+    if (isRestoringSnapshot.current) {
+        isRestoringSnapshot.current = false;
+        return;
+    }
+    if (previous === undoSnapshot) {
+        nextChangeLabel.current = null; // the labelled handler changed nothing
+        return;
+    }
+    const label = nextChangeLabel.current || describeChange(previous, undoSnapshot);
+    nextChangeLabel.current = null;
+    setChangeHistory(prev => recordChange(prev, previous, undoSnapshot, label));
+  }, [undoSnapshot, isLoading]);
+
+  const restoreSnapshot = useCallback(({ state, schedule }: UndoSnapshot) => {
+    isRestoringSnapshot.current = true;
+    setBarges(state.barges);
+    setBargeStates(state.bargeStates);
+    setRequests(state.requests);
+    setLocations(state.locations);
+    setProducts(state.products);
+    setPriorities(state.priorities);
+    setOperationHistory(state.operationHistory);
+    setSimulationStartTime(state.simulationStartTime);
+    setProviderSettings(state.schedulingProvider);
+    setOperationalParameters(state.operationalParameters);
+    setBdnSupplier(state.bdnSupplier);
+    setSchedule(schedule);
+    setError(null);
+  }, []);
+
+  const handleUndo = useCallback(() => {
+    if (isLoading) return;
+    const result = undoChange(changeHistory);
+    if (!result) return;
+    setChangeHistory(result.history);
+    restoreSnapshot(result.snapshot);
+    setFeedbackMessage(`Desfeito: ${changeHistory.done[changeHistory.done.length - 1].label}`);
+    setTimeout(() => setFeedbackMessage(''), 3000);
+  }, [changeHistory, isLoading, restoreSnapshot]);
+
+  const handleRedo = useCallback(() => {
+    if (isLoading) return;
+    const result = redoChange(changeHistory);
+    if (!result) return;
+    setChangeHistory(result.history);
+    restoreSnapshot(result.snapshot);
+    setFeedbackMessage(`Refeito: ${changeHistory.undone[changeHistory.undone.length - 1].label}`);
+    setTimeout(() => setFeedbackMessage(''), 3000);
+  }, [changeHistory, isLoading, restoreSnapshot]);
+
+  // Text fields keep the browser's own undo of what is being typed.
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+        if (!(e.ctrlKey || e.metaKey) || e.altKey || e.key.toLowerCase() !== 'z') return;
+        const target = e.target as HTMLElement;
+        const isTextField = target.isContentEditable || target.tagName === 'TEXTAREA'
+            || (target.tagName === 'INPUT' && !['checkbox', 'radio', 'button', 'submit', 'range', 'color', 'file'].includes((target as HTMLInputElement).type));
+        if (isTextField) return;
+        e.preventDefault();
+        if (e.shiftKey) handleRedo();
+        else handleUndo();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [handleUndo, handleRedo]);
 
 
   const bargesForPrompt = useMemo((): BargeForPrompt[] => {
-    const defaultLocation: Location = { id: 'default', name: 'Terminal Padrão', latitude: 0, longitude: 0 };
+    const defaultLocation: Location = { id: 'default', name: 'Terminal Padrão', type: LocationType.Terminal, latitude: 0, longitude: 0 };
     return barges.map(barge => {
         const state = bargeStates.find(s => s.bargeId === barge.id);
         const initialLocation = locations.find(l => l.id === state?.locationId) || locations[0] || defaultLocation;
@@ -1374,7 +3741,8 @@ export default function App() {
             return {
                 productType: p.productType,
                 capacity: p.capacity,
-                currentVolume: volumeState?.volume || 0
+                currentVolume: volumeState?.volume || 0,
+                tankGroup: p.tankGroup,
             }
         });
 
@@ -1383,62 +3751,146 @@ export default function App() {
             name: barge.name,
             initialLocation: initialLocation,
             speed: barge.speed,
+            pumpRate: resolveBargePumpRate(operationalParameters, barge.id),
             products: productsForPrompt
         };
     });
-  }, [barges, bargeStates, locations]);
+  }, [barges, bargeStates, locations, operationalParameters]);
 
-  const requestsToSchedule = useMemo(() => requests.filter(r => r.status === RequestStatus.Confirmed), [requests]);
+  // Schedules are planned and checked against what is still to be delivered after the published operations.
+  const openRequests = useMemo(() => outstandingRequests(requests, operationHistory), [requests, operationHistory]);
 
-  const handleGenerateSchedule = useCallback(async () => {
+  const scheduleContext = useMemo(
+    () => ({ barges, bargeStates, requests: openRequests, locations, simulationStartTime, parameters: operationalParameters, products }),
+    [barges, bargeStates, openRequests, locations, simulationStartTime, operationalParameters, products]
+  );
+  const scheduleWithTimelines = useMemo(() => attachTimelines(schedule, scheduleContext), [schedule, scheduleContext]);
+  const scheduleViolations = useMemo(() => validateSchedule(schedule, scheduleContext), [schedule, scheduleContext]);
+  const inventoryProjection = useMemo(() => projectInventory(schedule, scheduleContext), [schedule, scheduleContext]);
+
+  // Manual edits replan the affected barges; the violations above are recomputed from the edited schedule.
+  // Locked items and locked barges are left untouched.
+  const handleEditScheduleItem = useCallback((index: number, change: ScheduleItemChange) => {
+    setSchedule(prev => {
+      const item = prev[index];
+      if (!item || isLockedItem(item, lockedBargeIds) || (change.bargeId && lockedBargeIds.includes(change.bargeId))) return prev;
+      return editScheduleItem(prev, index, change, scheduleContext);
+    });
+  }, [scheduleContext, lockedBargeIds]);
+
+  const handleToggleItemLock = useCallback((index: number) => {
+    setSchedule(prev => prev.map((item, i) => (i === index ? { ...item, locked: !item.locked } : item)));
+  }, []);
+
+  const handleToggleBargeLock = useCallback((bargeId: string) => {
+    setLockedBargeIds(prev => prev.includes(bargeId) ? prev.filter(id => id !== bargeId) : [...prev, bargeId]);
+  }, []);
+
+  // Any new or cleared schedule must be reviewed again before it can be published over its violations.
+  useEffect(() => {
+    setOverrideViolations(false);
+  }, [schedule]);
+
+  const requestsToSchedule = useMemo(
+    () => openRequests.filter(r => schedulableRequestStatuses.includes(r.status) && r.products.length > 0),
+    [openRequests]
+  );
+
+  const requestsForPrompt = useMemo((): RequestForPrompt[] => requestsToSchedule.map(r => {
+      const location = locations.find(l => l.id === r.locationId);
+      return {
+          id: r.id,
+          shipName: r.shipName,
+          products: r.products,
+          windowStart: r.windowStart,
+          windowEnd: r.windowEnd,
+          contractualDate: r.contractualDate,
+          location: location || { id: 'unknown', name: 'Local Desconhecido', type: LocationType.Anchorage, latitude: 0, longitude: 0 },
+          maxReceivingRate: operationalParameters.requestMaxReceivingRates[r.id],
+      }
+  }), [requestsToSchedule, locations, operationalParameters]);
+
+  const unservedRequests = useMemo(
+    () => (schedule.length > 0 ? reconcileSchedule(requestsToSchedule, schedule, scheduleContext) : []),
+    [requestsToSchedule, schedule, scheduleContext]
+  );
+
+  // A focused generation keeps the whole current schedule and only plans what is still missing for the given requests,
+  // after the last operation of each barge: the gaps between kept operations are not offered to the provider.
+  const handleGenerateSchedule = useCallback(async (focusRequestIds?: string[]) => {
     if (bargesForPrompt.length === 0 || requestsToSchedule.length === 0) {
-      setError("Adicione pelo menos uma barcaça e um pedido com o status 'A Confirmar'.");
+      setError("Adicione pelo menos uma barcaça e um pedido confirmado com quantidade a entregar.");
       return;
     }
+    // Locked operations survive the regeneration and constrain everything planned around them.
+    const lockedItems = focusRequestIds ? schedule : schedule.filter(item => isLockedItem(item, lockedBargeIds));
+    labelNextChange('Geração da programação');
     setIsLoading(true);
     setError(null);
-    setSchedule([]);
+    setSchedule(lockedItems);
     try {
-      const requestsForPrompt: RequestForPrompt[] = requestsToSchedule.map(r => {
-          const location = locations.find(l => l.id === r.locationId);
-          return {
-              shipName: r.shipName,
-              products: r.products,
-              windowStart: r.windowStart,
-              windowEnd: r.windowEnd,
-              contractualDate: r.contractualDate,
-              location: location || { id: 'unknown', name: 'Local Desconhecido', latitude: 0, longitude: 0 }
-          }
-      });
+      const constrained = constrainToLockedOperations(bargesForPrompt, requestsForPrompt, lockedItems, lockedBargeIds, scheduleContext);
+      if (constrained.barges.length === 0) {
+        throw new Error("Todas as barcaças estão travadas. Destrave ao menos uma para replanejar.");
+      }
+
+      const requestsToPlan = focusRequestIds ? constrained.requests.filter(r => focusRequestIds.includes(r.id)) : constrained.requests;
 
-      const result = await generateSchedule(bargesForPrompt, requestsForPrompt, priorities, simulationStartTime);
-      const sortedResult = result.sort((a, b) => new Date(a.scheduledTime).getTime() - new Date(b.scheduledTime).getTime());
+      const provider = createSchedulingProvider(providerSettings);
+      const result = await provider.generateSchedule({
+        barges: constrained.barges,
+        requests: requestsToPlan,
+        priorities,
+        simulationStartTime,
+        parameters: operationalParameters,
+        terminals: locations.filter(isTerminalLocation),
+        products,
+      });
+      // Ids returned by the provider are checked against the current records; unknown ones surface as violations.
+      const linkedResult = linkScheduleReferences(result, { barges, requests, locations });
+      const sortedResult = [...lockedItems, ...linkedResult].sort((a, b) => new Date(a.scheduledTime).getTime() - new Date(b.scheduledTime).getTime());
       setSchedule(sortedResult);
+      setRequests(prev => applyScheduleStatuses(prev, sortedResult, 'Programação gerada'));
     } catch (err: any) {
       setError(err.message || "Ocorreu um erro desconhecido.");
     } finally {
       setIsLoading(false);
     }
-  }, [bargesForPrompt, requestsToSchedule, priorities, locations, simulationStartTime]);
+  }, [bargesForPrompt, requestsForPrompt, requestsToSchedule, priorities, locations, products, simulationStartTime, providerSettings, operationalParameters, schedule, lockedBargeIds, scheduleContext, barges, requests, labelNextChange]);
 
   const handleCommitSchedule = useCallback(() => {
     if (schedule.length === 0) return;
+    if (scheduleViolations.length > 0 && !overrideViolations) {
+      setError("A programação possui violações de restrições. Corrija-as ou marque 'Ignorar violações' para publicar.");
+      return;
+    }
 
-    const newHistoryItems: OperationHistoryItem[] = schedule
+    const published: OperationHistoryItem[] = scheduleWithTimelines
       .filter(item => item.shipName !== 'TERMINAL')
-      .map(item => ({
-        ...item,
-        id: crypto.randomUUID(),
-        completionTime: item.scheduledTime,
-    }));
+      .map(item => {
+        const request = requests.find(r => r.id === item.requestId);
+        return {
+          ...item,
+          id: crypto.randomUUID(),
+          completionTime: item.timeline?.releaseTime || item.scheduledTime,
+          windowEnd: request?.windowEnd,
+          contractualDate: request?.contractualDate,
+        };
+    });
+    const { items: newHistoryItems, lastSequence } = issueBunkerDeliveryNotes(published, operationHistory, requests, products, bdnSupplier, loadBdnSequence());
+    saveBdnSequence(lastSequence);
 
-    setOperationHistory(prev => [...prev, ...newHistoryItems].sort((a, b) => new Date(b.completionTime).getTime() - new Date(a.completionTime).getTime()));
+    const nextHistory = [...operationHistory, ...newHistoryItems].sort((a, b) => new Date(b.completionTime).getTime() - new Date(a.completionTime).getTime());
+    labelNextChange(`Publicação de ${newHistoryItems.length} operação(ões)`);
+    setOperationHistory(nextHistory);
+    // Requests served by a schedule published without a generation (a promoted scenario, say) are scheduled first.
+    setRequests(prev => applyPublicationStatuses(applyScheduleStatuses(prev, schedule, 'Programação publicada'), newHistoryItems, nextHistory, 'Programação publicada'));
     
     setBargeStates(currentStates => {
       const nextStates = JSON.parse(JSON.stringify(currentStates));
 
       schedule.forEach(item => {
-        const barge = barges.find(b => b.name === item.bargeName);
+        const barge = barges.find(b => b.id === item.bargeId);
         if (!barge) return;
 
         const stateToUpdate = nextStates.find(s => s.bargeId === barge.id);
@@ -1459,7 +3911,7 @@ export default function App() {
         }
 
         // Update location
-        const newLocation = locations.find(l => l.name === item.locationName);
+        const newLocation = locations.find(l => l.id === item.locationId);
         if (newLocation) {
           stateToUpdate.locationId = newLocation.id;
         }
@@ -1468,16 +3920,121 @@ export default function App() {
     });
 
     setSchedule([]); // Clear the schedule after committing
-  }, [schedule, barges, locations]);
+    setError(null);
+  }, [schedule, scheduleWithTimelines, barges, requests, locations, products, bdnSupplier, operationHistory, scheduleViolations, overrideViolations, labelNextChange]);
+
+  // The operation is considered complete when the hose was disconnected, once that has been recorded.
+  // A delivered quantity off the plan re-evaluates the request and puts the difference back on (or takes it off) the barge.
+  const handleRecordActuals = useCallback((id: string, actuals: OperationActuals) => {
+    const item = operationHistory.find(h => h.id === id);
+    if (!item) return;
+    const updated = { ...item, actuals, completionTime: actuals.hoseDisconnectedTime || item.completionTime };
+    const nextHistory = operationHistory.map(h => (h.id === id ? updated : h));
+    setOperationHistory(nextHistory);
+    setRequests(prev => applyPublicationStatuses(prev, [updated], nextHistory, 'Quantidade entregue registrada'));
+
+    const leftOnBoard = (item.actuals?.deliveredQuantity ?? item.quantity) - (actuals.deliveredQuantity ?? item.quantity);
+    const capacity = barges.find(b => b.id === item.bargeId)?.products.find(p => p.productType === item.product)?.capacity;
+    if (leftOnBoard === 0 || capacity === undefined) return;
+    setBargeStates(prev => prev.map(state => (state.bargeId !== item.bargeId ? state : {
+      ...state,
+      volumes: state.volumes.map(v => (v.productType === item.product ? { ...v, volume: Math.min(capacity, Math.max(0, v.volume + leftOnBoard)) } : v)),
+    })));
+  }, [operationHistory, barges]);
+
+  // Deliveries published before notes were issued, or whose note is reissued after completing the master data,
+  // get the next number.
+  const handleIssueBdn = useCallback((id: string) => {
+    const item = operationHistory.find(h => h.id === id);
+    if (!item) return;
+    const { items: [reissued], lastSequence } = issueBunkerDeliveryNotes([{ ...item, bdn: undefined }], operationHistory, requests, products, bdnSupplier, loadBdnSequence());
+    saveBdnSequence(lastSequence);
+    setOperationHistory(prev => prev.map(h => (h.id === id ? reissued : h)));
+  }, [operationHistory, requests, products, bdnSupplier]);
+
+  // Requests only scheduled by the discarded schedule are confirmed again.
+  const handleClearSchedule = useCallback(() => {
+    labelNextChange('Programação descartada');
+    setSchedule([]);
+    setRequests(prev => applyScheduleStatuses(prev, [], 'Programação descartada'));
+  }, [labelNextChange]);
+
+  const updateScenarios = useCallback((next: Scenario[]) => {
+    saveScenarios(next);
+    setScenarios(next);
+  }, []);
+
+  const currentScenario = useMemo(
+    () => ({ simulationStartTime, barges, bargeStates, requests, priorities, schedule }),
+    [simulationStartTime, barges, bargeStates, requests, priorities, schedule]
+  );
+
+  const handleSaveScenario = useCallback((name: string) => {
+    updateScenarios([...scenarios, { ...currentScenario, id: crypto.randomUUID(), name, createdAt: new Date().toISOString() }]);
+  }, [scenarios, currentScenario, updateScenarios]);
+
+  const handleDeleteScenario = useCallback((id: string) => {
+    updateScenarios(scenarios.filter(s => s.id !== id));
+  }, [scenarios, updateScenarios]);
+
+  // Promoting brings the scenario's schedule, priorities and start time over the current fleet, initial state and
+  // requests, which may have moved on since, so it can be reviewed and published. Publications made after the
+  // scenario was saved are never undone by it.
+  const handlePromoteScenario = useCallback((id: string) => {
+    const scenario = scenarios.find(s => s.id === id);
+    if (!scenario) return;
+    const published = requestsPublishedSince(scenario, requests);
+    if (published.length > 0) {
+      setError(`O cenário "${scenario.name}" é anterior à publicação de operações para ${published.map(r => r.shipName).join(', ')}. Salve um novo cenário a partir da situação atual.`);
+      return;
+    }
+    const { schedule: promoted, dropped } = scheduleForPromotion(scenario, barges, requests);
+    const droppedNote = dropped > 0 ? ` ${dropped} operação(ões) de barcaças ou pedidos que não podem mais ser programados serão descartadas.` : '';
+    if (!window.confirm(`Promover o cenário "${scenario.name}" substitui as prioridades, o início da simulação e a programação atuais; a frota, o cenário inicial e os pedidos atuais são mantidos.${droppedNote} Deseja continuar?`)) return;
+    setPriorities(scenario.priorities);
+    setSimulationStartTime(scenario.simulationStartTime);
+    setLockedBargeIds([]);
+    setSchedule(promoted);
+    setError(null);
+    setActiveTab('scheduling');
+    setFeedbackMessage(`Cenário "${scenario.name}" promovido. Revise e publique a programação.`);
+    setTimeout(() => setFeedbackMessage(''), 3000);
+  }, [scenarios, barges, requests]);
+
+  const disruptionInput = useMemo((): DisruptionInput => ({
+    barges: bargesForPrompt,
+    requests: requestsForPrompt,
+    priorities,
+    terminals: locations.filter(isTerminalLocation),
+    context: scheduleContext,
+  }), [bargesForPrompt, requestsForPrompt, priorities, locations, scheduleContext]);
+
+  // Adopting a simulation replaces the schedule and registers the extra requests it serves.
+  const handleAdoptDisruption = useCallback((result: DisruptionResult) => {
+    setRequests(prev => applyScheduleStatuses([...prev, ...result.requests.filter(r => !prev.some(p => p.id === r.id))], result.schedule, 'Programação simulada adotada'));
+    setSchedule(result.schedule);
+    setLockedBargeIds([]);
+    setActiveTab('scheduling');
+    setFeedbackMessage("Programação simulada adotada. Revise e publique.");
+    setTimeout(() => setFeedbackMessage(''), 3000);
+  }, []);
 
   const handleResetToDefaults = useCallback(() => {
     if (window.confirm("Tem certeza de que deseja redefinir todos os dados para os padrões da aplicação? Todas as suas alterações personalizadas serão perdidas.")) {
+        if (window.confirm("Deseja baixar uma cópia do estado atual antes de redefinir? Ela pode ser importada depois pelo botão Importar Estado.")) {
+            downloadAppState(appState);
+        }
         localStorage.removeItem(LOCAL_STORAGE_KEY);
+        labelNextChange('Redefinição para os padrões');
         setBarges(defaultBarges);
         setBargeStates(defaultBargeStates);
         setRequests(defaultRequests);
         setLocations(defaultLocations);
+        setProducts(defaultProducts);
         setPriorities(defaultPriorities);
+        setProviderSettings(defaultProviderSettings);
+        setOperationalParameters(defaultOperationalParameters);
+        setBdnSupplier(emptyBdnSupplier);
         setOperationHistory([]);
         setSimulationStartTime(() => {
             const now = new Date();
@@ -1489,43 +4046,84 @@ export default function App() {
         setFeedbackMessage("A aplicação foi redefinida para os padrões.");
         setTimeout(() => setFeedbackMessage(''), 3000);
     }
-  }, []);
+  }, [appState, labelNextChange]);
+
+  // Imported states go through the same normalisation as the saved one on start-up. The generated schedule
+  // points to records that may have been replaced, so it is discarded.
+  const handleApplyAppState = useCallback((state: AppState, message: string) => {
+    labelNextChange(message);
+    setBarges(normalizeBargeTankGroups(state.barges, state.products || defaultProducts));
+    setBargeStates(state.bargeStates);
+    setRequests(normalizeRequestStatuses(state.requests));
+    setLocations(normalizeLocations(state.locations));
+    setProducts(normalizeProductCatalogue(state.products, state.barges, state.requests));
+    setPriorities(state.priorities);
+    setOperationHistory(state.operationHistory);
+    if (state.simulationStartTime) setSimulationStartTime(state.simulationStartTime);
+    setOperationalParameters(normalizeOperationalParameters(state.operationalParameters));
+    setProviderSettings({ ...defaultProviderSettings, ...state.schedulingProvider });
+    setBdnSupplier({ ...emptyBdnSupplier, ...state.bdnSupplier });
+    setSchedule([]);
+    setLockedBargeIds([]);
+    setOverrideViolations(false);
+    setError(null);
+    setFeedbackMessage(message);
+    setTimeout(() => setFeedbackMessage(''), 3000);
+  }, [labelNextChange]);
 
   const tabLabels: Record<TabName, string> = {
     setup: 'Frota',
     state: 'Cenário inicial',
     locations: 'Locais',
+    products: 'Produtos',
     scheduling: 'Programação',
+    scenarios: 'Cenários',
+    disruptions: 'Contingências',
+    dashboard: 'Indicadores',
     map: 'Mapa',
     priorities: 'Prioridades',
+    parameters: 'Parâmetros',
+    engine: 'Motor',
     history: 'Publicação'
   };
 
   const renderTabContent = () => {
     switch (activeTab) {
       case 'setup':
-        return <BargeSetup barges={barges} setBarges={setBarges} setBargeStates={setBargeStates} locations={locations} />;
+        return <BargeSetup barges={barges} setBarges={setBarges} setBargeStates={setBargeStates} locations={locations} products={products} />;
       case 'state':
-        return <BargeInitialState barges={barges} bargeStates={bargeStates} setBargeStates={setBargeStates} locations={locations} simulationStartTime={simulationStartTime} setSimulationStartTime={setSimulationStartTime} />;
+        return <BargeInitialState barges={barges} bargeStates={bargeStates} setBargeStates={setBargeStates} locations={locations} simulationStartTime={simulationStartTime} setSimulationStartTime={setSimulationStartTime} inventory={inventoryProjection} hasSchedule={schedule.length > 0} />;
       case 'locations':
-        return <LocationSetup locations={locations} setLocations={setLocations} />;
+        return <LocationSetup locations={locations} setLocations={setLocations} products={products} />;
+      case 'products':
+        return <ProductCatalogueSetup products={products} setProducts={setProducts} barges={barges} requests={requests} locations={locations} />;
       case 'scheduling':
          return (
             <div className="grid grid-rows-2 gap-6 h-full overflow-hidden">
                 <div className="row-span-1 overflow-hidden">
-                   <RequestsTable requests={requests} setRequests={setRequests} locations={locations} />
+                   <RequestsTable requests={requests} setRequests={setRequests} locations={locations} products={products} history={operationHistory} schedule={schedule} />
                 </div>
                 <div className="row-span-1 overflow-hidden">
-                   <ScheduleView schedule={schedule} isLoading={isLoading} requests={requests} />
+                   <ScheduleView schedule={scheduleWithTimelines} isLoading={isLoading} requests={requests} violations={scheduleViolations} barges={barges} simulationStartTime={simulationStartTime} onEditItem={isLoading ? undefined : handleEditScheduleItem} lockedBargeIds={lockedBargeIds} onToggleItemLock={isLoading ? undefined : handleToggleItemLock} onToggleBargeLock={isLoading ? undefined : handleToggleBargeLock} inventory={inventoryProjection} locations={locations} />
                 </div>
             </div>
          );
+      case 'scenarios':
+        return <ScenarioWorkspace scenarios={scenarios} current={currentScenario} locations={locations} parameters={operationalParameters} onSave={handleSaveScenario} onDelete={handleDeleteScenario} onPromote={handlePromoteScenario} />;
+      case 'disruptions':
+        return <DisruptionPanel baseline={schedule} input={disruptionInput} products={products} onAdopt={handleAdoptDisruption} />;
+      case 'dashboard':
+        return <KpiDashboard schedule={schedule} history={operationHistory} requests={requests} products={products} context={scheduleContext} />;
       case 'map':
         return <MapView barges={barges} bargeStates={bargeStates} locations={locations} schedule={schedule} />;
       case 'history':
-         return <OperationsHistory history={operationHistory} />;
+         return <OperationsHistory history={operationHistory} onRecordActuals={handleRecordActuals} onIssueBdn={handleIssueBdn} supplier={bdnSupplier} setSupplier={setBdnSupplier} />;
       case 'priorities':
         return <PrioritiesSetup priorities={priorities} setPriorities={setPriorities} resetPriorities={() => setPriorities(defaultPriorities)} />;
+      case 'parameters':
+        return <OperationalParametersSetup parameters={operationalParameters} setParameters={setOperationalParameters} barges={barges} locations={locations} requests={requests} />;
+      case 'engine':
+        return <SchedulingProviderSetup settings={providerSettings} setSettings={setProviderSettings} />;
       default:
         return null;
     }
@@ -1546,6 +4144,7 @@ export default function App() {
                         {tabLabels[tabKey]}
                     </TabButton>
                 ))}
+                <ChangeLog history={changeHistory} onUndo={handleUndo} onRedo={handleRedo} />
             </div>
         </div>
 
@@ -1555,24 +4154,50 @@ export default function App() {
         
         <footer className="pt-8 text-center space-y-4 flex-shrink-0">
             {error && <p className="text-rose-400 bg-rose-900/50 p-3 rounded-md">{error}</p>}
+            {activeTab === 'scheduling' && !isLoading && unservedRequests.length > 0 && (
+              <UnservedRequestsReport unserved={unservedRequests} onRegenerate={handleGenerateSchedule} />
+            )}
             {activeTab === 'scheduling' && (
               <div className="flex justify-center items-center gap-4">
+                <select
+                    value={providerSettings.kind}
+                    onChange={e => setProviderSettings(prev => ({ ...prev, kind: e.target.value as SchedulingProviderKind }))}
+                    disabled={isLoading}
+                    title="Motor de Programação"
+                    className="bg-white/10 text-white p-3 rounded-full border border-white/20 focus:ring-2 focus:ring-amber-500 focus:outline-none disabled:opacity-50"
+                >
+                    {(Object.keys(providerKindLabels) as SchedulingProviderKind[]).map(kind => (
+                        <option key={kind} value={kind} className="bg-teal-900">{providerKindLabels[kind]}</option>
+                    ))}
+                </select>
                 <button
-                    onClick={handleGenerateSchedule}
+                    onClick={() => handleGenerateSchedule()}
                     disabled={isLoading || barges.length === 0 || requestsToSchedule.length === 0}
                     className="bg-gradient-to-r from-teal-500 to-amber-500 hover:from-teal-600 hover:to-amber-600 text-white font-bold py-3 px-8 rounded-full shadow-lg transform hover:scale-105 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed disabled:scale-100"
                 >
                     {isLoading ? 'Gerando...' : 'Gerar Programação'}
                 </button>
+                {scheduleViolations.length > 0 && (
+                    <label className="flex items-center gap-2 text-sm text-rose-300 cursor-pointer">
+                        <input
+                            type="checkbox"
+                            checked={overrideViolations}
+                            onChange={e => setOverrideViolations(e.target.checked)}
+                            disabled={isLoading}
+                            className="accent-amber-500"
+                        />
+                        Ignorar violações
+                    </label>
+                )}
                 <button
                     onClick={handleCommitSchedule}
-                    disabled={isLoading || schedule.length === 0}
+                    disabled={isLoading || schedule.length === 0 || (scheduleViolations.length > 0 && !overrideViolations)}
                     className="bg-amber-700 hover:bg-amber-600 text-white font-bold py-3 px-8 rounded-full shadow-lg transform hover:scale-105 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed disabled:scale-100"
                 >
                     Publicar
                 </button>
                  <button
-                    onClick={() => setSchedule([])}
+                    onClick={handleClearSchedule}
                     disabled={isLoading || schedule.length === 0}
                     title="Limpar Programação Gerada"
                     className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-3 px-6 rounded-full shadow-lg transform hover:scale-105 transition-all duration-300 disabled:opacity-50 disabled:cursor-not-allowed disabled:scale-100 flex items-center gap-2"
@@ -1582,17 +4207,7 @@ export default function App() {
                 </button>
               </div>
             )}
-            <div className="flex justify-center items-center gap-4 mt-4 pt-4 border-t border-white/10">
-                <p className="text-sm text-gray-400">
-                    Sua configuração é salva automaticamente.
-                </p>
-                <button 
-                  onClick={handleResetToDefaults} 
-                  className="flex items-center gap-2 bg-gray-800 hover:bg-gray-700 text-gray-300 font-semibold py-2 px-4 rounded-md transition-colors text-sm"
-                >
-                    <TrashIcon className="w-4 h-4"/> Redefinir para Padrões
-                </button>
-            </div>
+            <StateTransfer state={appState} onApply={handleApplyAppState} onReset={handleResetToDefaults} />
             <div className="h-4">
              {feedbackMessage && <p className="text-sm text-teal-400">{feedbackMessage}</p>}
             </div>
@@ -0,0 +1,405 @@
+import { LocationType } from '../types';
+import type { Barge, BargeState, BdnSupplier, Location, OperationalParameters, OperationHistoryItem, Priority, Product, RefuelingRequest } from '../types';
+import { renumberImportedNotes } from './bunkerDeliveryNote';
+import { normalizeLocations } from './locationTypes';
+import { migrateHistoryReferences } from './scheduleReferences';
+import { withoutApiKey } from './schedulingProvider';
+import type { SchedulingProviderSettings } from './schedulingProvider';
+
+// Everything the application saves, in localStorage and in exported state files.
+export interface AppState {
+  barges: Barge[];
+  bargeStates: BargeState[];
+  requests: RefuelingRequest[];
+  locations: Location[];
+  products?: Product[]; // absent in states saved before the product catalogue
+  priorities: Priority[];
+  operationHistory: OperationHistoryItem[];
+  simulationStartTime?: string;
+  schedulingProvider?: SchedulingProviderSettings;
+  operationalParameters?: OperationalParameters;
+  bdnSupplier?: BdnSupplier;
+}
+
+// Version of the AppState shape. Bump it together with a new entry in `migrations` whenever the shape changes.
+export const APP_STATE_VERSION = 4;
+
+const APP_STATE_FORMAT = 'barge-scheduler-state';
+
+// --- Migrations ---
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+type SavedState = Record<string, unknown>;
+
+/**
+ * Each step upgrades a state of the version it is keyed by to the next version. States are plain parsed JSON
+ * here, validated only after the last step, so every field is checked before it is used.
+ */
+const migrations: Record<number, (state: SavedState) => SavedState> = {
+  // v3 history records referenced barges, ships and locations by name only, and locations had no type.
+  3: state => ({
+    ...state,
+    locations: Array.isArray(state.locations) ? normalizeLocations(state.locations) : state.locations,
+    operationHistory: Array.isArray(state.operationHistory)
+      ? migrateHistoryReferences(state.operationHistory, {
+        barges: Array.isArray(state.barges) ? state.barges : [],
+        requests: Array.isArray(state.requests) ? state.requests : [],
+        locations: Array.isArray(state.locations) ? normalizeLocations(state.locations) : [],
+      })
+      : state.operationHistory,
+  }),
+};
+
+const OLDEST_MIGRATABLE_VERSION = Math.min(...Object.keys(migrations).map(Number));
+
+const migrateAppState = (state: unknown, version: number): unknown => {
+  if (!Number.isInteger(version) || version < OLDEST_MIGRATABLE_VERSION) {
+    throw new Error(`Versão de estado não suportada: ${version}.`);
+  }
+  if (version > APP_STATE_VERSION) {
+    throw new Error(`O estado foi salvo por uma versão mais nova da aplicação (versão ${version}; esta lê até a ${APP_STATE_VERSION}). Atualize a aplicação antes de importá-lo.`);
+  }
+  // Anything but an object is left for the validation to reject.
+  if (!isObject(state)) return state;
+  let migrated = state;
+  for (let v = version; v < APP_STATE_VERSION; v++) migrated = migrations[v](migrated);
+  return migrated;
+};
+
+// --- Validation ---
+
+// Checks a value, adding a message per problem found, prefixed with the path of the value in the state.
+type Validator = (value: unknown, path: string, errors: string[]) => void;
+
+const text: Validator = (value, path, errors) => {
+  if (typeof value !== 'string') errors.push(`${path}: texto esperado.`);
+};
+
+const number: Validator = (value, path, errors) => {
+  if (typeof value !== 'number' || !isFinite(value)) errors.push(`${path}: número esperado.`);
+};
+
+const positive: Validator = (value, path, errors) => {
+  if (typeof value !== 'number' || !isFinite(value) || value <= 0) errors.push(`${path}: número maior que zero esperado.`);
+};
+
+const boolean: Validator = (value, path, errors) => {
+  if (typeof value !== 'boolean') errors.push(`${path}: verdadeiro/falso esperado.`);
+};
+
+const oneOf = (values: readonly string[]): Validator => (value, path, errors) => {
+  if (!values.includes(value as string)) errors.push(`${path}: deve ser ${values.map(v => `'${v}'`).join(', ')}.`);
+};
+
+const optional = (validator: Validator): Validator => (value, path, errors) => {
+  if (value !== undefined) validator(value, path, errors);
+};
+
+const arrayOf = (validator: Validator): Validator => (value, path, errors) => {
+  if (!Array.isArray(value)) errors.push(`${path}: lista esperada.`);
+  else value.forEach((item, i) => validator(item, `${path}[${i}]`, errors));
+};
+
+const recordOf = (validator: Validator): Validator => (value, path, errors) => {
+  if (!isObject(value)) errors.push(`${path}: objeto esperado.`);
+  else Object.entries(value).forEach(([key, item]) => validator(item, `${path}.${key}`, errors));
+};
+
+// Fields not in the shape are allowed, so states written by a newer patch release still load.
+const object = (shape: Record<string, Validator>): Validator => (value, path, errors) => {
+  if (!isObject(value)) errors.push(`${path}: objeto esperado.`);
+  else Object.entries(shape).forEach(([key, validator]) => validator(value[key], path ? `${path}.${key}` : key, errors));
+};
+
+const timelineSchema = object({
+  departureTime: text,
+  distanceNm: number,
+  transitHours: number,
+  arrivalTime: text,
+  pumpingStartTime: text,
+  pumpingEndTime: text,
+  releaseTime: text,
+  onboardVolume: optional(number),
+});
+
+const supplierSchema = object({ name: text, address: text, phone: text, port: text });
+
+const appStateSchema = object({
+  barges: arrayOf(object({
+    id: text,
+    name: text,
+    speed: number,
+    products: arrayOf(object({ productType: text, capacity: number, tankGroup: optional(text) })),
+  })),
+  bargeStates: arrayOf(object({
+    bargeId: text,
+    locationId: text,
+    volumes: arrayOf(object({ productType: text, volume: number })),
+  })),
+  requests: arrayOf(object({
+    id: text,
+    shipName: text,
+    products: arrayOf(object({ productType: text, quantity: number })),
+    windowStart: text,
+    windowEnd: text,
+    contractualDate: text,
+    status: text, // statuses from before the lifecycle are mapped when the state is applied
+    locationId: text,
+    imoNumber: optional(text),
+    statusHistory: optional(arrayOf(object({ from: optional(text), to: text, at: text, reason: text, automatic: boolean }))),
+  })),
+  locations: arrayOf(object({
+    id: text,
+    name: text,
+    latitude: number,
+    longitude: number,
+    type: optional(oneOf(Object.values(LocationType))), // absent before location types; set when the state is applied
+    products: optional(arrayOf(text)),
+    closures: optional(arrayOf(object({ id: text, kind: oneOf(['recurring', 'ad-hoc']), from: text, until: text, reason: text }))),
+  })),
+  products: optional(arrayOf(object({
+    code: text,
+    name: text,
+    density: number,
+    sulphurContent: optional(number),
+    tankGroups: arrayOf(text),
+  }))),
+  priorities: arrayOf(object({ id: text, text })),
+  operationHistory: arrayOf(object({
+    id: text,
+    bargeId: optional(text),
+    requestId: optional(text),
+    locationId: optional(text),
+    shipName: text,
+    bargeName: text,
+    completionTime: text,
+    product: text,
+    quantity: number,
+    scheduledTime: optional(text),
+    locationName: optional(text),
+    timeline: optional(timelineSchema),
+    windowEnd: optional(text),
+    contractualDate: optional(text),
+    actuals: optional(object({
+      arrivalTime: optional(text),
+      hoseConnectedTime: optional(text),
+      pumpingStartTime: optional(text),
+      pumpingEndTime: optional(text),
+      hoseDisconnectedTime: optional(text),
+      deliveredQuantity: optional(number),
+      remarks: optional(text),
+      recordedAt: text,
+    })),
+    bdn: optional(object({
+      number: text,
+      issuedAt: text,
+      imoNumber: optional(text),
+      productName: text,
+      density: number,
+      sulphurContent: optional(number),
+      supplier: supplierSchema,
+    })),
+  })),
+  simulationStartTime: optional(text),
+  // Settings are merged over the defaults when applied, so every part of them may be missing.
+  schedulingProvider: optional(object({
+    kind: optional(oneOf(['gemini', 'openai-compatible', 'replay', 'local'])),
+    gemini: optional(object({ model: text })),
+    openAICompatible: optional(object({ baseUrl: text, model: text, apiKey: optional(text) })),
+    replay: optional(object({ mode: oneOf(['record', 'replay']), backend: oneOf(['gemini', 'openai-compatible']) })),
+  })),
+  operationalParameters: optional(object({
+    pumpRate: optional(positive),
+    terminalLoadingRate: optional(positive),
+    initialFainaHours: optional(number),
+    finalFainaHours: optional(number),
+    travelRoundingHours: optional(number),
+    bargePumpRates: optional(recordOf(positive)),
+    terminalLoadingRates: optional(recordOf(positive)),
+    locationFaina: optional(recordOf(object({ initialFainaHours: optional(number), finalFainaHours: optional(number) }))),
+    requestMaxReceivingRates: optional(recordOf(positive)),
+  })),
+  bdnSupplier: optional(supplierSchema),
+});
+
+const MAX_REPORTED_ERRORS = 8;
+
+/**
+ * Upgrades a saved state of the given version to the current one and checks its shape, throwing an error
+ * that lists the first problems found when it does not match.
+ */
+export const readAppState = (state: unknown, version: number): AppState => {
+  const migrated = migrateAppState(state, version);
+  const errors: string[] = [];
+  appStateSchema(migrated, '', errors);
+  if (errors.length > 0) {
+    const more = errors.length > MAX_REPORTED_ERRORS ? ` (e mais ${errors.length - MAX_REPORTED_ERRORS})` : '';
+    throw new Error(`Estado inválido: ${errors.slice(0, MAX_REPORTED_ERRORS).join(' ')}${more}`);
+  }
+  return migrated as AppState;
+};
+
+// --- Files ---
+
+export interface AppStateFile {
+  state: AppState;
+  version: number; // version the file was written in, before migration
+  exportedAt?: string;
+}
+
+// The envelope written both to exported files and to localStorage. The API key of the model server is never in it.
+const envelope = (state: AppState) => ({
+  format: APP_STATE_FORMAT,
+  version: APP_STATE_VERSION,
+  state: state.schedulingProvider ? { ...state, schedulingProvider: withoutApiKey(state.schedulingProvider) } : state,
+});
+
+const isEnvelope = (value: unknown): value is Record<string, unknown> => isObject(value) && value.format === APP_STATE_FORMAT;
+
+export const serializeAppState = (state: AppState): string =>
+  JSON.stringify({ ...envelope(state), exportedAt: new Date().toISOString() }, null, 2);
+
+// Reads an exported file. A bare state without the envelope is taken as a copy of the v3 localStorage entry.
+export const parseAppStateFile = (content: string): AppStateFile => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw new Error("O arquivo não é um JSON válido.");
+  }
+  if (isEnvelope(parsed)) {
+    return {
+      state: readAppState(parsed.state, Number(parsed.version)),
+      version: Number(parsed.version),
+      exportedAt: typeof parsed.exportedAt === 'string' ? parsed.exportedAt : undefined,
+    };
+  }
+  if (isObject(parsed) && Array.isArray(parsed.barges)) return { state: readAppState(parsed, 3), version: 3 };
+  throw new Error("O arquivo não contém um estado exportado desta aplicação.");
+};
+
+// --- Local storage ---
+
+// The localStorage entry held the bare state, without the envelope, up to this version.
+const BARE_STORED_STATE_VERSION = 4;
+
+export const serializeStoredAppState = (state: AppState): string => JSON.stringify(envelope(state));
+
+// Reads the localStorage entry, migrating it from the version it was saved in.
+export const parseStoredAppState = (content: string): AppState => {
+  const parsed: unknown = JSON.parse(content);
+  return isEnvelope(parsed) ? readAppState(parsed.state, Number(parsed.version)) : readAppState(parsed, BARE_STORED_STATE_VERSION);
+};
+
+// --- Merging ---
+
+export type AppStateSection = 'fleet' | 'initialState' | 'locations' | 'products' | 'requests' | 'priorities' | 'history' | 'parameters' | 'supplier' | 'engine';
+
+export const appStateSectionLabels: Record<AppStateSection, string> = {
+  fleet: 'Frota',
+  initialState: 'Cenário inicial',
+  locations: 'Locais',
+  products: 'Produtos',
+  requests: 'Pedidos',
+  priorities: 'Prioridades',
+  history: 'Histórico de publicações',
+  parameters: 'Parâmetros operacionais',
+  supplier: 'Fornecedor das BDNs',
+  engine: 'Motor de programação',
+};
+
+// Records of the file replace the current ones with the same key; the others are added after them.
+const mergeByKey = <T>(current: T[], imported: T[], keyOf: (record: T) => string): T[] => {
+  const importedKeys = new Set(imported.map(keyOf));
+  const currentKeys = new Set(current.map(keyOf));
+  return [
+    ...current.map(record => (importedKeys.has(keyOf(record)) ? imported.find(i => keyOf(i) === keyOf(record))! : record)),
+    ...imported.filter(record => !currentKeys.has(keyOf(record))),
+  ];
+};
+
+// Sections the file has data for; the optional settings are absent in states saved before they existed.
+export const appStateSectionsIn = (state: AppState): AppStateSection[] =>
+  (Object.keys(appStateSectionLabels) as AppStateSection[]).filter(section => {
+    if (section === 'products') return !!state.products;
+    if (section === 'parameters') return !!state.operationalParameters;
+    if (section === 'supplier') return !!state.bdnSupplier;
+    if (section === 'engine') return !!state.schedulingProvider;
+    return true;
+  });
+
+// Keeps the current API key when the imported settings come from an exported file, which never carries one.
+const importProviderSettings = (current: AppState, imported: AppState): SchedulingProviderSettings | undefined =>
+  imported.schedulingProvider && {
+    ...imported.schedulingProvider,
+    openAICompatible: {
+      ...imported.schedulingProvider.openAICompatible,
+      apiKey: imported.schedulingProvider.openAICompatible?.apiKey || current.schedulingProvider?.openAICompatible.apiKey || '',
+    },
+  };
+
+// The whole imported state, apart from the API key.
+export const replaceAppState = (current: AppState, imported: AppState): AppState => ({
+  ...imported,
+  schedulingProvider: importProviderSettings(current, imported),
+});
+
+export interface AppStateMerge {
+  state: AppState;
+  lastBdnSequence: number; // last BDN number used, including those given to imported notes
+  renumberedBdns: number;
+}
+
+// Imported records, of the merged sections, that point to a barge or location the merged state does not have.
+const danglingReferences = (merged: AppState, imported: AppState, has: (section: AppStateSection) => boolean): string[] => {
+  const bargeIds = new Set(merged.barges.map(b => b.id));
+  const locationIds = new Set(merged.locations.map(l => l.id));
+  const missingBarge = (id: string | undefined) => id !== undefined && !bargeIds.has(id);
+  const missingLocation = (id: string | undefined) => id !== undefined && !locationIds.has(id);
+  return [
+    ...(has('requests') ? imported.requests : [])
+      .filter(r => missingLocation(r.locationId))
+      .map(r => `Pedido de ${r.shipName}: local '${r.locationId}' inexistente.`),
+    ...(has('initialState') ? imported.bargeStates : [])
+      .filter(s => missingBarge(s.bargeId) || missingLocation(s.locationId))
+      .map(s => `Cenário inicial da barcaça '${s.bargeId}': ${missingBarge(s.bargeId) ? 'barcaça' : `local '${s.locationId}'`} inexistente.`),
+    ...(has('history') ? imported.operationHistory : [])
+      .filter(h => missingBarge(h.bargeId) || missingLocation(h.locationId))
+      .map(h => `Publicação para ${h.shipName}: ${missingBarge(h.bargeId) ? `barcaça ${h.bargeName}` : `local ${h.locationName || h.locationId}`} inexistente.`),
+  ];
+};
+
+/**
+ * Brings the selected sections of an imported state into the current one. Record lists are merged by id
+ * (barge states by barge, products by code) and settings are replaced; the other sections are left untouched.
+ * Imported notes whose number is taken are renumbered on from `lastBdnSequence`. Throws, listing the first
+ * problems, when imported records would point to barges or locations that are neither current nor imported.
+ */
+export const mergeAppState = (current: AppState, imported: AppState, sections: AppStateSection[], lastBdnSequence: number): AppStateMerge => {
+  const has = (section: AppStateSection) => sections.includes(section);
+  const history = has('history')
+    ? renumberImportedNotes(current.operationHistory, imported.operationHistory, lastBdnSequence)
+    : { items: imported.operationHistory, lastSequence: lastBdnSequence, renumbered: 0 };
+  const state: AppState = {
+    ...current,
+    barges: has('fleet') ? mergeByKey(current.barges, imported.barges, b => b.id) : current.barges,
+    bargeStates: has('initialState') ? mergeByKey(current.bargeStates, imported.bargeStates, s => s.bargeId) : current.bargeStates,
+    simulationStartTime: has('initialState') ? imported.simulationStartTime || current.simulationStartTime : current.simulationStartTime,
+    locations: has('locations') ? mergeByKey(current.locations, imported.locations, l => l.id) : current.locations,
+    products: has('products') && imported.products ? mergeByKey(current.products || [], imported.products, p => p.code) : current.products,
+    requests: has('requests') ? mergeByKey(current.requests, imported.requests, r => r.id) : current.requests,
+    priorities: has('priorities') ? mergeByKey(current.priorities, imported.priorities, p => p.id) : current.priorities,
+    operationHistory: has('history') ? mergeByKey(current.operationHistory, history.items, h => h.id) : current.operationHistory,
+    operationalParameters: has('parameters') ? imported.operationalParameters || current.operationalParameters : current.operationalParameters,
+    bdnSupplier: has('supplier') ? imported.bdnSupplier || current.bdnSupplier : current.bdnSupplier,
+    schedulingProvider: has('engine') ? importProviderSettings(current, imported) || current.schedulingProvider : current.schedulingProvider,
+  };
+  const problems = danglingReferences(state, { ...imported, operationHistory: history.items }, has);
+  if (problems.length > 0) {
+    const more = problems.length > MAX_REPORTED_ERRORS ? ` (e mais ${problems.length - MAX_REPORTED_ERRORS})` : '';
+    throw new Error(`Registros importados apontam para barcaças ou locais inexistentes; inclua as seções Frota ou Locais na importação. ${problems.slice(0, MAX_REPORTED_ERRORS).join(' ')}${more}`);
+  }
+  return { state, lastBdnSequence: history.lastSequence, renumberedBdns: history.renumbered };
+};
@@ -0,0 +1,182 @@
+import type { BdnSupplier, BunkerDeliveryNote, OperationHistoryItem, Product, RefuelingRequest } from '../types';
+import { buildPdf, newPdfPage, pdfLine, pdfRect, pdfText, wrapPdfText, PDF_MARGIN, PDF_PAGE_WIDTH } from './pdfDocument';
+import { formatLocalDateTime } from './scheduleExport';
+
+export const emptyBdnSupplier: BdnSupplier = { name: '', address: '', phone: '', port: '' };
+
+// 'IMO 9074729' -> '9074729'.
+export const normalizeImoNumber = (text: string) => text.replace(/^\s*imo[\s:.-]*/i, '').replace(/\s/g, '');
+
+// Seven digits, the last being the check digit: the sum of the first six weighted 7 down to 2, modulo 10.
+export const isValidImoNumber = (imo: string): boolean => {
+  if (!/^\d{7}$/.test(imo)) return false;
+  const digits = [...imo].map(Number);
+  return digits.slice(0, 6).reduce((sum, digit, i) => sum + digit * (7 - i), 0) % 10 === digits[6];
+};
+
+const BDN_PREFIX = 'BDN-';
+
+const formatBdnNumber = (sequence: number) => `${BDN_PREFIX}${String(sequence).padStart(6, '0')}`;
+
+const lastBdnSequence = (history: OperationHistoryItem[]) =>
+  Math.max(0, ...history.map(item => Number(item.bdn?.number.slice(BDN_PREFIX.length)) || 0));
+
+// The last number ever issued is kept apart from the saved state, so undoing a publication or importing an older
+// file never hands out a number again.
+const BDN_SEQUENCE_STORAGE_KEY = 'bargeSchedulerBdnSequence_v1';
+
+export const loadBdnSequence = (): number => {
+  try {
+    return Number(localStorage.getItem(BDN_SEQUENCE_STORAGE_KEY)) || 0;
+  } catch (error) {
+    console.error("Could not load the BDN sequence from localStorage", error);
+    return 0;
+  }
+};
+
+export const saveBdnSequence = (sequence: number) => {
+  localStorage.setItem(BDN_SEQUENCE_STORAGE_KEY, String(Math.max(sequence, loadBdnSequence())));
+};
+
+/**
+ * Issues a note for every delivery in `items` that has none yet, numbered on from `lastIssued` or the highest
+ * number found in `history`, whichever is higher, and returns the last number used. The ship IMO number,
+ * product data and supplier details are copied from the current master data.
+ */
+export const issueBunkerDeliveryNotes = (
+  items: OperationHistoryItem[],
+  history: OperationHistoryItem[],
+  requests: RefuelingRequest[],
+  products: Product[],
+  supplier: BdnSupplier,
+  lastIssued: number,
+): { items: OperationHistoryItem[]; lastSequence: number } => {
+  let sequence = Math.max(lastIssued, lastBdnSequence([...history, ...items]));
+  const issuedAt = new Date().toISOString();
+  const issued = items.map(item => {
+    if (item.bdn) return item;
+    const product = products.find(p => p.code === item.product);
+    const request = requests.find(r => r.id === item.requestId);
+    const bdn: BunkerDeliveryNote = {
+      number: formatBdnNumber(++sequence),
+      issuedAt,
+      imoNumber: request?.imoNumber,
+      productName: product ? `${product.code} – ${product.name}` : item.product,
+      density: Math.round((product?.density || 0) * 1000 * 10) / 10,
+      sulphurContent: product?.sulphurContent,
+      supplier: { ...supplier },
+    };
+    return { ...item, bdn };
+  });
+  return { items: issued, lastSequence: sequence };
+};
+
+/**
+ * Imported deliveries whose note number is already used by another delivery of the current history get the next
+ * numbers, so a merged history never holds two notes with one number. Returns the last number used.
+ */
+export const renumberImportedNotes = (
+  current: OperationHistoryItem[],
+  imported: OperationHistoryItem[],
+  lastIssued: number,
+): { items: OperationHistoryItem[]; lastSequence: number; renumbered: number } => {
+  const importedIds = new Set(imported.map(item => item.id));
+  // Current deliveries the import replaces give their numbers up.
+  const taken = new Set(current.filter(item => item.bdn && !importedIds.has(item.id)).map(item => item.bdn!.number));
+  let sequence = Math.max(lastIssued, lastBdnSequence([...current, ...imported]));
+  let renumbered = 0;
+  const items = imported.map(item => {
+    if (!item.bdn) return item;
+    if (!taken.has(item.bdn.number)) {
+      taken.add(item.bdn.number);
+      return item;
+    }
+    renumbered++;
+    const bdn = { ...item.bdn, number: formatBdnNumber(++sequence) };
+    taken.add(bdn.number);
+    return { ...item, bdn };
+  });
+  return { items, lastSequence: sequence, renumbered };
+};
+
+// Mandatory fields of a note that were left blank, to be completed in the master data before reissuing.
+export const bdnMissingFields = (bdn: BunkerDeliveryNote): string[] => [
+  ...(bdn.imoNumber ? [] : ['número IMO do navio']),
+  ...(bdn.density > 0 ? [] : ['densidade a 15 °C']),
+  ...(bdn.sulphurContent !== undefined ? [] : ['teor de enxofre']),
+  ...(bdn.supplier.name ? [] : ['nome do fornecedor']),
+  ...(bdn.supplier.address ? [] : ['endereço do fornecedor']),
+  ...(bdn.supplier.phone ? [] : ['telefone do fornecedor']),
+];
+
+const notInformed = 'Não informado / Not informed';
+
+/**
+ * The note as a one-page PDF. Commencement and quantity are the recorded actuals when available, the
+ * planned pumping start and quantity otherwise.
+ */
+export const buildBunkerDeliveryNotePdf = (item: OperationHistoryItem): Blob => {
+  const bdn = item.bdn;
+  if (!bdn) throw new Error(`A entrega para ${item.shipName} não tem BDN emitida.`);
+  const page = newPdfPage();
+  const width = PDF_PAGE_WIDTH - 2 * PDF_MARGIN;
+  const commencement = item.actuals?.pumpingStartTime || item.timeline?.pumpingStartTime || item.scheduledTime;
+  const quantity = item.actuals?.deliveredQuantity ?? item.quantity;
+
+  pdfText(page, PDF_PAGE_WIDTH / 2, PDF_MARGIN + 14, 'BUNKER DELIVERY NOTE', { size: 18, bold: true, align: 'center' });
+  pdfText(page, PDF_PAGE_WIDTH / 2, PDF_MARGIN + 30, 'Nota de Entrega de Combustível — MARPOL Anexo VI, Regra 18.5 e Apêndice V', { size: 9, align: 'center' });
+  pdfText(page, PDF_PAGE_WIDTH - PDF_MARGIN, PDF_MARGIN + 52, `Nº ${bdn.number}`, { size: 12, bold: true, align: 'right' });
+  pdfText(page, PDF_MARGIN, PDF_MARGIN + 52, `Emitida em ${new Date(bdn.issuedAt).toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' })}`, { size: 8 });
+
+  const fields: { label: string; value: string }[] = [
+    { label: 'Navio recebedor / Receiving ship', value: item.shipName },
+    { label: 'Número IMO / IMO number', value: bdn.imoNumber || notInformed },
+    { label: 'Porto / Port', value: bdn.supplier.port || notInformed },
+    { label: 'Local de entrega / Delivery location', value: item.locationName || notInformed },
+    { label: 'Início do abastecimento / Commencement of bunkering', value: formatLocalDateTime(commencement) || notInformed },
+    { label: 'Barcaça fornecedora / Delivering barge', value: item.bargeName },
+    { label: 'Fornecedor / Fuel oil supplier', value: bdn.supplier.name || notInformed },
+    { label: 'Endereço / Address', value: bdn.supplier.address || notInformed },
+    { label: 'Telefone / Telephone', value: bdn.supplier.phone || notInformed },
+    { label: 'Produto / Product name', value: bdn.productName },
+    { label: 'Quantidade / Quantity (MT)', value: quantity.toLocaleString('pt-BR', { maximumFractionDigits: 3 }) },
+    { label: 'Densidade a 15 °C / Density at 15 °C (kg/m³)', value: bdn.density > 0 ? bdn.density.toLocaleString('pt-BR') : notInformed },
+    { label: 'Teor de enxofre / Sulphur content (% m/m)', value: bdn.sulphurContent !== undefined ? bdn.sulphurContent.toLocaleString('pt-BR') : notInformed },
+  ];
+  let y = PDF_MARGIN + 66;
+  fields.forEach(field => {
+    const lines = wrapPdfText(field.value, width * 0.55 - 10, 10);
+    const height = Math.max(22, lines.length * 12 + 10);
+    pdfRect(page, PDF_MARGIN, y, width, height);
+    pdfLine(page, PDF_MARGIN + width * 0.45, y, PDF_MARGIN + width * 0.45, y + height);
+    pdfText(page, PDF_MARGIN + 6, y + 14, field.label, { size: 8, bold: true });
+    lines.forEach((line, i) => pdfText(page, PDF_MARGIN + width * 0.45 + 6, y + 14 + i * 12, line, { size: 10 }));
+    y += height;
+  });
+
+  y += 24;
+  const declaration = 'Declaro que o combustível acima foi fornecido em conformidade com a regra 18.3 do Anexo VI da MARPOL e que '
+    + 'seu teor de enxofre não excede o limite aplicável da regra 14.1 ou, quando for o caso, da regra 14.4. / '
+    + 'I declare that the fuel oil supplied conforms with regulation 18.3 of MARPOL Annex VI and that its sulphur content '
+    + 'does not exceed the limit value given by regulation 14.1 or, where applicable, regulation 14.4.';
+  wrapPdfText(declaration, width, 9).forEach(line => {
+    pdfText(page, PDF_MARGIN, y, line, { size: 9 });
+    y += 12;
+  });
+
+  // One block for the supplier's representative and one for the receiving ship, side by side.
+  y += 60;
+  const blockWidth = width / 2 - 20;
+  [
+    { title: 'Representante do fornecedor / Supplier\'s representative', x: PDF_MARGIN },
+    { title: 'Comandante ou oficial responsável / Master or officer in charge', x: PDF_MARGIN + width / 2 + 20 },
+  ].forEach(({ title, x }) => {
+    pdfLine(page, x, y, x + blockWidth, y);
+    pdfText(page, x, y + 12, title, { size: 8, bold: true });
+    pdfText(page, x, y + 28, 'Nome / Name:', { size: 8 });
+    pdfText(page, x, y + 44, 'Data / Date:', { size: 8 });
+    pdfText(page, x, y + 60, 'Carimbo / Stamp:', { size: 8 });
+  });
+
+  return buildPdf([page], `Bunker Delivery Note ${bdn.number}`);
+};
@@ -0,0 +1,121 @@
+import type { ScheduleItem } from '../types';
+import type { AppState } from './appStateFile';
+
+// What an undo brings back: everything saved, and the schedule under review.
+export interface UndoSnapshot {
+  state: Required<AppState>;
+  schedule: ScheduleItem[];
+}
+
+export interface ChangeEntry {
+  id: string;
+  label: string;
+  at: string; // ISO timestamp of the last change merged into the entry
+  before: UndoSnapshot;
+  after: UndoSnapshot;
+}
+
+// `done` holds the applied changes and `undone` the ones that can be redone, both oldest first.
+export interface ChangeHistory {
+  done: ChangeEntry[];
+  undone: ChangeEntry[];
+}
+
+export const emptyChangeHistory: ChangeHistory = { done: [], undone: [] };
+
+const MAX_CHANGES = 100;
+// Changes with the same description this close together, as the keystrokes of a field, form one entry.
+const MERGE_WINDOW_MS = 1500;
+
+// A new change drops whatever could still be redone.
+export const recordChange = (history: ChangeHistory, before: UndoSnapshot, after: UndoSnapshot, label: string, now = new Date()): ChangeHistory => {
+  const last = history.done[history.done.length - 1];
+  if (last && last.label === label && now.getTime() - new Date(last.at).getTime() < MERGE_WINDOW_MS) {
+    return { done: [...history.done.slice(0, -1), { ...last, at: now.toISOString(), after }], undone: [] };
+  }
+  const entry: ChangeEntry = { id: crypto.randomUUID(), label, at: now.toISOString(), before, after };
+  return { done: [...history.done, entry].slice(-MAX_CHANGES), undone: [] };
+};
+
+export const undoChange = (history: ChangeHistory): { history: ChangeHistory; snapshot: UndoSnapshot } | null => {
+  const entry = history.done[history.done.length - 1];
+  if (!entry) return null;
+  return { history: { done: history.done.slice(0, -1), undone: [...history.undone, entry] }, snapshot: entry.before };
+};
+
+export const redoChange = (history: ChangeHistory): { history: ChangeHistory; snapshot: UndoSnapshot } | null => {
+  const entry = history.undone[history.undone.length - 1];
+  if (!entry) return null;
+  return { history: { done: [...history.done, entry], undone: history.undone.slice(0, -1) }, snapshot: entry.after };
+};
+
+// --- Descriptions ---
+
+interface TrackedList<T> {
+  label: string;
+  records: (snapshot: UndoSnapshot) => T[];
+  key: (record: T) => string;
+  name: (record: T, snapshot: UndoSnapshot) => string;
+}
+
+const trackedList = <T>(list: TrackedList<T>) => list;
+
+const trackedLists = [
+  trackedList({ label: 'Frota', records: s => s.state.barges, key: b => b.id, name: b => b.name }),
+  trackedList({
+    label: 'Cenário inicial',
+    records: s => s.state.bargeStates,
+    key: b => b.bargeId,
+    name: (b, s) => s.state.barges.find(barge => barge.id === b.bargeId)?.name || b.bargeId,
+  }),
+  trackedList({ label: 'Locais', records: s => s.state.locations, key: l => l.id, name: l => l.name }),
+  trackedList({ label: 'Produtos', records: s => s.state.products, key: p => p.code, name: p => p.code }),
+  trackedList({ label: 'Pedidos', records: s => s.state.requests, key: r => r.id, name: r => r.shipName }),
+  trackedList({ label: 'Prioridades', records: s => s.state.priorities, key: p => p.id, name: p => p.text }),
+  trackedList({ label: 'Publicações', records: s => s.state.operationHistory, key: h => h.id, name: h => h.shipName }),
+];
+
+const trackedSettings: { description: string; value: (snapshot: UndoSnapshot) => unknown }[] = [
+  { description: 'Início da simulação alterado', value: s => s.state.simulationStartTime },
+  { description: 'Parâmetros operacionais alterados', value: s => s.state.operationalParameters },
+  { description: 'Motor de programação alterado', value: s => s.state.schedulingProvider },
+  { description: 'Fornecedor das BDNs alterado', value: s => s.state.bdnSupplier },
+  { description: 'Programação alterada', value: s => s.schedule },
+];
+
+const counted = (count: number, singular: string, plural: string) => `${count} ${count === 1 ? singular : plural}`;
+
+const describeList = <T>(list: TrackedList<T>, before: UndoSnapshot, after: UndoSnapshot): string | null => {
+  const previous = list.records(before);
+  const next = list.records(after);
+  if (previous === next) return null;
+  const previousByKey = new Map(previous.map(record => [list.key(record), record]));
+  const nextKeys = new Set(next.map(list.key));
+  const added = next.filter(record => !previousByKey.has(list.key(record)));
+  const removed = previous.filter(record => !nextKeys.has(list.key(record)));
+  const changed = next.filter(record => {
+    const old = previousByKey.get(list.key(record));
+    return old !== undefined && old !== record && JSON.stringify(old) !== JSON.stringify(record);
+  });
+  const total = added.length + removed.length + changed.length;
+  if (total === 0) return previous.some((record, i) => list.key(record) !== list.key(next[i])) ? `${list.label}: reordenação` : null;
+  if (total === 1) {
+    if (added.length) return `${list.label}: inclusão de ${list.name(added[0], after)}`;
+    if (removed.length) return `${list.label}: exclusão de ${list.name(removed[0], before)}`;
+    return `${list.label}: alteração de ${list.name(changed[0], after)}`;
+  }
+  return `${list.label}: ${[
+    added.length ? counted(added.length, 'inclusão', 'inclusões') : '',
+    changed.length ? counted(changed.length, 'alteração', 'alterações') : '',
+    removed.length ? counted(removed.length, 'exclusão', 'exclusões') : '',
+  ].filter(Boolean).join(', ')}`;
+};
+
+// A short account of what changed between two snapshots, for changes made without an explicit description.
+export const describeChange = (before: UndoSnapshot, after: UndoSnapshot): string => {
+  const parts = [
+    ...trackedLists.map(list => describeList(list as TrackedList<unknown>, before, after)),
+    ...trackedSettings.map(setting => (setting.value(before) !== setting.value(after) ? setting.description : null)),
+  ].filter((part): part is string => !!part);
+  return parts.length > 0 ? parts.join('; ') : 'Alteração';
+};
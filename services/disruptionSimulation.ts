@@ -0,0 +1,146 @@
+import type { Location, LocationClosure, Priority, RefuelingRequest, ScheduleItem } from '../types';
+import type { BargeForPrompt, RequestForPrompt } from './geminiService';
+import { generateLocalSchedule, toLocalIsoMinutes, HOUR_MS } from './localScheduler';
+import { constrainToLockedOperations } from './lockedOperations';
+import { reconcileSchedule } from './scheduleReconciliation';
+import { initialBargeState, isTerminalItem, replaySchedule } from './scheduleTimeline';
+import type { ScheduleContext } from './scheduleTimeline';
+
+// What-if events injected into the current plan. Times are local ISO strings (YYYY-MM-DDTHH:MM).
+export type DisruptionEvent =
+  | { id: string; kind: 'barge-unavailable'; bargeId: string; from: string; until: string }
+  | { id: string; kind: 'operation-delay'; itemIndex: number; hours: number }
+  | { id: string; kind: 'location-closed'; locationId: string; from: string; until: string }
+  | { id: string; kind: 'extra-request'; request: RefuelingRequest };
+
+export type DisruptionKind = DisruptionEvent['kind'];
+
+export const disruptionKindLabels: Record<DisruptionKind, string> = {
+  'barge-unavailable': 'Barcaça indisponível',
+  'operation-delay': 'Operação atrasada',
+  'location-closed': 'Local fechado',
+  'extra-request': 'Pedido extra',
+};
+
+export interface DisruptionInput {
+  barges: BargeForPrompt[];
+  requests: RequestForPrompt[];
+  priorities: Priority[];
+  terminals: Location[];
+  context: ScheduleContext;
+}
+
+export interface DisruptionResult {
+  schedule: ScheduleItem[];
+  requests: RefuelingRequest[]; // the requests the simulated schedule serves, extra ones included
+  locations: Location[]; // with the simulated closures added
+  newMisses: string[]; // request ids missing their window only after the disruption
+  recovered: string[]; // request ids that missed their window in the baseline but not anymore
+  baselineMisses: string[];
+}
+
+const time = (iso: string) => new Date(iso).getTime();
+
+// When an event starts to change the plan; operations starting earlier are left as they are.
+const eventStart = (event: DisruptionEvent, baseline: ScheduleItem[]): number => {
+  switch (event.kind) {
+    case 'barge-unavailable':
+    case 'location-closed':
+      return time(event.from);
+    case 'operation-delay':
+      return time(baseline[event.itemIndex]?.scheduledTime ?? '');
+    case 'extra-request':
+      return time(event.request.windowStart);
+  }
+};
+
+// A request misses its window when part of it is left unscheduled or a delivery starts after the window closes.
+export const findWindowMisses = (schedule: ScheduleItem[], requests: RefuelingRequest[], context: ScheduleContext): string[] => {
+  const misses = new Set(reconcileSchedule(requests, schedule, context).map(u => u.request.id));
+  replaySchedule(schedule, context).forEach(r => {
+    if (!isTerminalItem(r.item) && r.request && r.start > time(r.request.windowEnd)) misses.add(r.request.id);
+  });
+  return [...misses];
+};
+
+/**
+ * Replays the baseline up to the first disruption and replans everything after it with the local engine.
+ * Operations already started by then carry on. Unavailable barges only take new work once they are back,
+ * location closures are added to the closure windows of their locations, a delayed operation keeps its barge
+ * and moves by the given hours, and extra requests join the ones to serve.
+ */
+export const simulateDisruptions = (baseline: ScheduleItem[], events: DisruptionEvent[], input: DisruptionInput): DisruptionResult => {
+  const { context, priorities } = input;
+  const extraRequests = events.flatMap(e => (e.kind === 'extra-request' ? [e.request] : []));
+  const requests = [...context.requests, ...extraRequests];
+
+  const closures = events.flatMap(e => (e.kind === 'location-closed' ? [e] : []));
+  const withClosures = (location: Location): Location => {
+    const added = closures
+      .filter(c => c.locationId === location.id)
+      .map((c): LocationClosure => ({ id: c.id, kind: 'ad-hoc', from: c.from, until: c.until, reason: 'Contingência simulada', source: 'manual' }));
+    return added.length > 0 ? { ...location, closures: [...(location.closures || []), ...added] } : location;
+  };
+  const locations = context.locations.map(withClosures);
+  const simulatedContext: ScheduleContext = { ...context, requests, locations };
+  const toServe = requests.filter(r => input.requests.some(p => p.id === r.id) || extraRequests.includes(r));
+
+  const starts = events.map(e => eventStart(e, baseline)).filter(t => !isNaN(t));
+  const cut = starts.length > 0 ? Math.min(...starts) : Infinity;
+
+  const delays = events.flatMap(e => (e.kind === 'operation-delay' ? [e] : []));
+  const delayed = delays
+    .filter(e => baseline[e.itemIndex] && !isTerminalItem(baseline[e.itemIndex]))
+    .map(e => {
+      const item = baseline[e.itemIndex];
+      return { ...item, scheduledTime: toLocalIsoMinutes(time(item.scheduledTime) + e.hours * HOUR_MS) };
+    });
+  const kept = [...baseline.filter(item => time(item.scheduledTime) < cut), ...delayed];
+
+  const extraForPlanning: RequestForPrompt[] = extraRequests.flatMap(r => {
+    const location = locations.find(l => l.id === r.locationId);
+    return location ? [{ id: r.id, shipName: r.shipName, products: r.products, windowStart: r.windowStart, windowEnd: r.windowEnd, contractualDate: r.contractualDate, location }] : [];
+  });
+  const constrained = constrainToLockedOperations(input.barges, [...input.requests, ...extraForPlanning], kept, [], simulatedContext);
+
+  const plannedRequests = constrained.requests.map(r => ({ ...r, location: withClosures(r.location) }));
+
+  const outages = events.flatMap(e => (e.kind === 'barge-unavailable' ? [e] : []));
+  const plannedBarges = constrained.barges.map(b => {
+    const outage = outages.filter(o => o.bargeId === b.id);
+    if (outage.length === 0) return b;
+    const barge = context.barges.find(candidate => candidate.id === b.id);
+    const start = barge && !b.availableFrom ? initialBargeState(barge, context) : undefined;
+    const availableFrom = Math.max(
+      b.availableFrom ? time(b.availableFrom) : start?.release ?? time(context.simulationStartTime),
+      ...outage.map(o => time(o.until)),
+    );
+    return {
+      ...b,
+      availableFrom: toLocalIsoMinutes(availableFrom),
+      products: start ? b.products.map(p => ({ ...p, currentVolume: start.volumes[p.productType] ?? p.currentVolume })) : b.products,
+    };
+  });
+
+  const replanned = generateLocalSchedule(
+    plannedBarges,
+    plannedRequests,
+    priorities,
+    context.simulationStartTime,
+    context.parameters,
+    input.terminals.map(withClosures),
+    context.products,
+  );
+  const schedule = [...kept, ...replanned].sort((a, b) => time(a.scheduledTime) - time(b.scheduledTime));
+
+  const baselineMisses = findWindowMisses(baseline, toServe.filter(r => !extraRequests.includes(r)), context);
+  const simulatedMisses = findWindowMisses(schedule, toServe, simulatedContext);
+  return {
+    schedule,
+    requests,
+    locations,
+    newMisses: simulatedMisses.filter(id => !baselineMisses.includes(id)),
+    recovered: baselineMisses.filter(id => !simulatedMisses.includes(id)),
+    baselineMisses,
+  };
+};
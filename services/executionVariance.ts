@@ -0,0 +1,96 @@
+import type { OperationHistoryItem } from '../types';
+import { HOUR_MS } from './localScheduler';
+
+// Planned and actual value of one measure; null where either side is unknown.
+export interface PlannedVsActual {
+  planned: number;
+  actual: number;
+}
+
+// Planned-vs-actual comparison of one published delivery. Durations are in hours, rates in t/h.
+export interface OperationVariance {
+  item: OperationHistoryItem;
+  arrivalDelayHours: number | null; // positive when the barge arrived late
+  // From the end of the barge's previous delivery to this arrival, idle time and reloads in between included.
+  transitHours: PlannedVsActual | null;
+  initialFainaHours: PlannedVsActual | null; // arrival to pumping start
+  pumpRate: PlannedVsActual | null;
+  finalFainaHours: PlannedVsActual | null; // pumping end to hose disconnection
+  quantityVariance: number | null;
+}
+
+const time = (iso: string | undefined) => (iso ? new Date(iso).getTime() : NaN);
+const hoursBetween = (from: number, to: number) => (isNaN(from) || isNaN(to) ? NaN : (to - from) / HOUR_MS);
+const pair = (planned: number, actual: number): PlannedVsActual | null =>
+  isNaN(planned) || isNaN(actual) || !isFinite(planned) || !isFinite(actual) ? null : { planned, actual };
+
+/**
+ * Compares every published delivery that has actuals recorded with its planned timeline. Transit is compared
+ * between the previous delivery of the same barge and this one, so it needs actuals recorded on both.
+ */
+export const computeOperationVariances = (history: OperationHistoryItem[]): OperationVariance[] => {
+  const chronological = [...history].sort((a, b) => time(a.scheduledTime ?? a.completionTime) - time(b.scheduledTime ?? b.completionTime));
+  return chronological.flatMap((item, index) => {
+    const { actuals, timeline } = item;
+    if (!actuals) return [];
+    const arrival = time(actuals.arrivalTime);
+    const pumpingStart = time(actuals.pumpingStartTime);
+    const pumpingEnd = time(actuals.pumpingEndTime);
+    const delivered = actuals.deliveredQuantity ?? item.quantity;
+
+    const previous = chronological.slice(0, index).reverse().find(other => other.bargeId === item.bargeId);
+    const previousPlannedEnd = time(previous?.timeline?.releaseTime);
+    const previousEnd = time(previous?.actuals?.hoseDisconnectedTime);
+    const arrivalDelay = hoursBetween(time(timeline?.arrivalTime), arrival);
+
+    return [{
+      item,
+      arrivalDelayHours: isNaN(arrivalDelay) ? null : arrivalDelay,
+      transitHours: timeline ? pair(hoursBetween(previousPlannedEnd, time(timeline.arrivalTime)), hoursBetween(previousEnd, arrival)) : null,
+      initialFainaHours: timeline ? pair(hoursBetween(time(timeline.arrivalTime), time(timeline.pumpingStartTime)), hoursBetween(arrival, pumpingStart)) : null,
+      pumpRate: timeline
+        ? pair(item.quantity / hoursBetween(time(timeline.pumpingStartTime), time(timeline.pumpingEndTime)), delivered / hoursBetween(pumpingStart, pumpingEnd))
+        : null,
+      finalFainaHours: timeline ? pair(hoursBetween(time(timeline.pumpingEndTime), time(timeline.releaseTime)), hoursBetween(pumpingEnd, time(actuals.hoseDisconnectedTime))) : null,
+      quantityVariance: actuals.deliveredQuantity !== undefined ? actuals.deliveredQuantity - item.quantity : null,
+    }];
+  });
+};
+
+// Averages of the comparisons above for the operations of one barge or one location.
+export interface VarianceSummary {
+  key: string;
+  name: string;
+  operations: number;
+  arrivalDelayHours: number | null;
+  transitHours: PlannedVsActual | null;
+  initialFainaHours: PlannedVsActual | null;
+  pumpRate: PlannedVsActual | null;
+  finalFainaHours: PlannedVsActual | null;
+  quantityVariance: number; // total tonnes delivered above (or below) plan
+}
+
+const average = (values: number[]) => (values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : null);
+const averagePair = (pairs: (PlannedVsActual | null)[]): PlannedVsActual | null => {
+  const known = pairs.filter((p): p is PlannedVsActual => p !== null);
+  return known.length > 0 ? { planned: average(known.map(p => p.planned))!, actual: average(known.map(p => p.actual))! } : null;
+};
+
+export const summarizeVariances = (variances: OperationVariance[], by: 'barge' | 'location'): VarianceSummary[] => {
+  const groups = new Map<string, OperationVariance[]>();
+  variances.forEach(v => {
+    const key = (by === 'barge' ? v.item.bargeId ?? v.item.bargeName : v.item.locationId ?? v.item.locationName) || '-';
+    groups.set(key, [...(groups.get(key) || []), v]);
+  });
+  return [...groups.entries()].map(([key, group]) => ({
+    key,
+    name: (by === 'barge' ? group[0].item.bargeName : group[0].item.locationName) || key,
+    operations: group.length,
+    arrivalDelayHours: average(group.flatMap(v => (v.arrivalDelayHours === null ? [] : [v.arrivalDelayHours]))),
+    transitHours: averagePair(group.map(v => v.transitHours)),
+    initialFainaHours: averagePair(group.map(v => v.initialFainaHours)),
+    pumpRate: averagePair(group.map(v => v.pumpRate)),
+    finalFainaHours: averagePair(group.map(v => v.finalFainaHours)),
+    quantityVariance: group.reduce((sum, v) => sum + (v.quantityVariance ?? 0), 0),
+  })).sort((a, b) => a.name.localeCompare(b.name));
+};
@@ -1,5 +1,9 @@
 import { GoogleGenAI, Type } from "@google/genai";
-import type { RefuelingRequest, ScheduleItem, Priority, Location } from '../types';
+import type { RefuelingRequest, ScheduleItem, Priority, Location, OperationalParameters, Product } from '../types';
+import type { LlmClient } from './schedulingProvider';
+import { resolveFaina, resolveTerminalLoadingRate } from './operationalParameters';
+import { closedIntervals } from './locationWindows';
+import { toLocalIsoMinutes } from './localScheduler';
 
 // This interface defines the complete barge data structure required for the prompt.
 export interface BargeForPrompt {
@@ -7,17 +11,24 @@ export interface BargeForPrompt {
   name: string;
   initialLocation: Location;
   speed: number; // in knots
+  pumpRate: number; // in tons per hour
+  availableFrom?: string; // set when locked operations keep the barge busy until then
   products: {
     productType: string;
     capacity: number;
     currentVolume: number;
+    tankGroup?: string;
   }[];
 }
 
-export type RequestForPrompt = Omit<RefuelingRequest, 'id' | 'status' | 'locationId'> & { location: Location };
+export type RequestForPrompt = Omit<RefuelingRequest, 'status' | 'locationId'> & {
+  location: Location;
+  maxReceivingRate?: number; // in tons per hour
+};
 
 
-const scheduleSchema = {
+// The product field only accepts codes from the catalogue in use.
+const buildScheduleSchema = (productCodes: string[]) => ({
   type: Type.OBJECT,
   properties: {
     schedule: {
@@ -34,13 +45,22 @@ const scheduleSchema = {
             type: Type.STRING,
             description: "O nome da barcaça realizando a operação."
           },
+          bargeId: {
+            type: Type.STRING,
+            description: "O 'id' da barcaça realizando a operação, exatamente como informado na frota."
+          },
+          requestId: {
+            type: Type.STRING,
+            description: "O 'id' do pedido atendido, exatamente como informado. Deve ser vazio para retornos ao terminal."
+          },
           scheduledTime: {
             type: Type.STRING,
             description: "A data e hora agendadas para o início da operação no formato ISO 8601 (YYYY-MM-DDTHH:MM)."
           },
           product: {
             type: Type.STRING,
-            description: "O tipo de produto sendo fornecido (VLSFO ou MGO). Se retornando ao terminal, este é o produto a ser recarregado."
+            ...(productCodes.length > 0 ? { enum: productCodes } : {}),
+            description: "O código do produto sendo fornecido, conforme o catálogo de produtos. Se retornando ao terminal, este é o produto a ser recarregado."
           },
           quantity: {
             type: Type.NUMBER,
@@ -48,31 +68,64 @@ const scheduleSchema = {
           },
           locationName: {
             type: Type.STRING,
-            description: "O nome do local onde o serviço está ocorrendo. Para retornos ao terminal, deve ser 'TERMINAL'."
+            description: "O nome do local onde o serviço está ocorrendo. Para retornos ao terminal, o nome do terminal escolhido."
+          },
+          locationId: {
+            type: Type.STRING,
+            description: "O 'id' do local onde o serviço está ocorrendo (o 'id' do local do pedido ou do terminal escolhido para a recarga)."
           }
         },
-        required: ["shipName", "bargeName", "scheduledTime", "product", "quantity", "locationName"]
+        required: ["shipName", "bargeName", "bargeId", "requestId", "scheduledTime", "product", "quantity", "locationName", "locationId"]
       }
     }
   },
   required: ["schedule"]
-};
-
-export const generateSchedule = async (barges: BargeForPrompt[], requests: RequestForPrompt[], priorities: Priority[], simulationStartTime: string): Promise<ScheduleItem[]> => {
-  const API_key = process.env.API_KEY;
-
-  if (!API_key) {
-    console.error("API_KEY environment variable not set");
-    throw new Error("CONFIGURAÇÃO NECESSÁRIA: A chave de API do Gemini não foi encontrada. Por favor, configure a variável de ambiente 'API_KEY' para continuar.");
-  }
-
-  const ai = new GoogleGenAI({ apiKey: API_key });
-  
-  if (barges.length === 0 || requests.length === 0) {
-    return [];
-  }
-
+});
+
+const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+
+// Builds the Portuguese scheduling prompt shared by every LLM-backed provider.
+export const buildSchedulePrompt = (
+  barges: BargeForPrompt[],
+  requests: RequestForPrompt[],
+  priorities: Priority[],
+  simulationStartTime: string,
+  parameters: OperationalParameters,
+  terminals: Location[] = [],
+  products: Product[] = [],
+): string => {
   const prioritiesText = priorities.map((p, index) => `${index + 1}. ${p.text}`).join('\n');
+  const travelRoundingText = parameters.travelRoundingHours > 0
+    ? `Arredonde o tempo de viagem para o múltiplo de ${parameters.travelRoundingHours} hora mais próximo.`
+    : 'Não arredonde o tempo de viagem.';
+
+  // Closures are listed as concrete periods over the planning horizon, two days past the last window.
+  const horizonStart = new Date(simulationStartTime).getTime();
+  const horizonEnd = Math.max(horizonStart, ...requests.map(r => new Date(r.windowEnd).getTime()).filter(t => !isNaN(t))) + 48 * 60 * 60 * 1000;
+  const locationForPrompt = ({ closures, ...location }: Location) => {
+    const closedPeriods = closedIntervals({ ...location, closures }, horizonStart, horizonEnd)
+      .map(interval => ({ from: toLocalIsoMinutes(interval.start), until: toLocalIsoMinutes(interval.end), reason: interval.closure.reason }));
+    return closedPeriods.length > 0 ? { ...location, closedPeriods } : location;
+  };
+
+  // Each terminal carries its own loading rate, faina and the products it supplies.
+  const terminalsForPrompt = terminals.map(t => {
+    const faina = resolveFaina(parameters, t.id);
+    return {
+      ...locationForPrompt(t),
+      products: t.products || products.map(p => p.code),
+      loadingRate: resolveTerminalLoadingRate(parameters, t.id),
+      initialFainaHours: faina.initial,
+      finalFainaHours: faina.final,
+    };
+  });
+
+  // Faina durations can be overridden per location, so each request carries the values that apply to it.
+  const requestsWithFaina = requests.map(r => {
+    const faina = resolveFaina(parameters, r.location.id);
+    return { ...r, location: locationForPrompt(r.location), initialFainaHours: faina.initial, finalFainaHours: faina.final };
+  });
+  const bargesWithLocation = barges.map(b => ({ ...b, initialLocation: locationForPrompt(b.initialLocation) }));
 
   const prompt = `
     Você é um programador de logística de classe mundial para operações de bunkering (abastecimento de navios) de um grande porto.
@@ -83,31 +136,32 @@ export const generateSchedule = async (barges: BargeForPrompt[], requests: Reque
     - O estado inicial das barcaças (localização e volumes) é válido para este exato momento. Qualquer cálculo de tempo de viagem ou serviço deve começar a partir desta data e hora.
 
     **Lógica de Estado Inicial Específica:**
-    - **Barcaças Carregando no Píer:** Se o nome da localização inicial de uma barcaça for 'TERMINAL', considere que ela está em processo de carregamento no píer de barcaças.
+    - **Barcaças Carregando em um Terminal:** Se a localização inicial de uma barcaça for um dos terminais listados abaixo (mesmo 'id'), considere que ela está em processo de carregamento nesse terminal.
     - **Cálculo de Liberação:** O tempo para ela ficar disponível para um novo serviço deve ser calculado da seguinte forma:
-        1. Para cada produto que ela carrega, calcule o 'Tempo de Carregamento Restante' = (Capacidade Total do Produto - Volume Inicial do Produto) / 400. A vazão de carregamento do terminal é de 400 ton/hora.
-        2. O tempo total que a barcaça ficará ocupada no píer é o **maior** 'Tempo de Carregamento Restante' entre seus produtos, acrescido de 2 horas para a 'Faina Final'.
-        3. O horário em que a barcaça estará liberada ('Horário de Liberação') é: ${simulationStartTime} + Tempo Ocupado no Píer.
-    - **Primeira Viagem:** O horário de chegada no primeiro atendimento para essa barcaça será o 'Horário de Liberação' dela somado ao tempo de viagem do 'TERMINAL' até o local do navio a ser atendido.
-    - Para todas as outras barcaças que não estão no 'TERMINAL', elas estão prontas para navegar imediatamente a partir de ${simulationStartTime}.
+        1. Para cada produto que ela carrega e que o terminal fornece ('products' do terminal), calcule o 'Tempo de Carregamento Restante' = (Capacidade Total do Produto - Volume Inicial do Produto) / 'loadingRate' do terminal (ton/hora). Produtos que o terminal não fornece permanecem com o volume inicial.
+        2. O tempo total que a barcaça ficará ocupada no terminal é o **maior** 'Tempo de Carregamento Restante' entre esses produtos, acrescido do 'finalFainaHours' do terminal para a 'Faina Final'.
+        3. O horário em que a barcaça estará liberada ('Horário de Liberação') é: ${simulationStartTime} + Tempo Ocupado no Terminal.
+    - **Primeira Viagem:** O horário de chegada no primeiro atendimento para essa barcaça será o 'Horário de Liberação' dela somado ao tempo de viagem desse terminal até o local do navio a ser atendido.
+    - Para todas as outras barcaças que não estão em um terminal, elas estão prontas para navegar imediatamente a partir de ${simulationStartTime}.
+    - **Barcaças com Operações Travadas:** Se uma barcaça informar 'availableFrom', ela já possui operações fixas que não fazem parte desta programação. Sua 'initialLocation' e seus volumes são os do fim dessas operações, e ela só pode começar a navegar a partir de 'availableFrom'. Não aplique a ela o cálculo de liberação do terminal acima.
 
     **Conceitos Principais:**
-    - **Barcaças Híbridas:** As barcaças podem transportar múltiplos tipos de combustível (VLSFO, MGO), cada um com seu próprio tanque, capacidade e volume atual.
+    - **Barcaças Híbridas:** As barcaças podem transportar múltiplos produtos do catálogo, cada um com seu próprio tanque, capacidade e volume atual. Produtos são identificados pelo seu 'code'.
     - **Pedidos Multi-Produto:** Navios podem solicitar múltiplos tipos de combustível em uma única operação em um local específico.
-    - **Preferência por Eficiência:** Sempre que possível, atenda pedidos multi-produto (navios que precisam de VLSFO e MGO) usando uma única barcaça híbrida. Este é o método mais eficiente.
+    - **Preferência por Eficiência:** Sempre que possível, atenda pedidos multi-produto (navios que precisam de mais de um produto) usando uma única barcaça híbrida. Este é o método mais eficiente.
     - **Eventos da Programação:** Um evento pode ser uma entrega a um navio ou um retorno ao terminal para recarga.
 
     **Prioridades de Agendamento (em ordem):**
     ${prioritiesText}
 
     **Regras de Cálculo de Tempo:**
-    - **Taxa de Bombeamento:** Assuma uma taxa de bombeamento padrão de 300 toneladas por hora.
-    - **Faina Inicial:** 1.5 horas antes do início do bombeamento.
-    - **Faina Final:** 2 horas após o término do bombeamento.
+    - **Taxa de Bombeamento:** Cada barcaça tem sua própria taxa de bombeamento ('pumpRate', em toneladas por hora). Se o pedido informar 'maxReceivingRate', a taxa efetiva é o menor entre 'pumpRate' e 'maxReceivingRate'.
+    - **Faina Inicial:** 'initialFainaHours' do pedido (horas antes do início do bombeamento).
+    - **Faina Final:** 'finalFainaHours' do pedido (horas após o término do bombeamento).
     - **Velocidade da Barcaça:** Cada barcaça tem uma velocidade de navegação específica em nós (knots).
-    - **Cálculo do Tempo de Viagem:** Você deve calcular o tempo de viagem entre diferentes locais. Use a fórmula de Haversine para encontrar a distância de grande círculo em milhas náuticas entre dois pontos, dadas suas latitudes e longitudes. O tempo de viagem em horas é então \`Distância / Velocidade da Barcaça\`. Arredonde o tempo de viagem para a meia hora mais próxima.
+    - **Cálculo do Tempo de Viagem:** Você deve calcular o tempo de viagem entre diferentes locais. Use a fórmula de Haversine para encontrar a distância de grande círculo em milhas náuticas entre dois pontos, dadas suas latitudes e longitudes. O tempo de viagem em horas é então \`Distância / Velocidade da Barcaça\`. ${travelRoundingText}
     - **Viagem Intra-Local:** O tempo de viagem entre serviços no *mesmo* local é considerado zero.
-    - **Tempo Total de Serviço para uma entrega de produto:** 1.5h (inicial) + (Quantidade / 300) + 2h (final). O 'scheduledTime' na saída deve ser o início da faina inicial. Você deve considerar o tempo total de serviço + tempo de viagem calculado antes de agendar a próxima operação para a mesma barcaça.
+    - **Tempo Total de Serviço para uma entrega de produto:** initialFainaHours + (Quantidade / Taxa Efetiva) + finalFainaHours. O 'scheduledTime' na saída deve ser o início da faina inicial. Você deve considerar o tempo total de serviço + tempo de viagem calculado antes de agendar a próxima operação para a mesma barcaça.
 
     **Lógica de Recarga da Barcaça:**
     1.  Após cada entrega, você deve rastrear internamente o volume restante na barcaça.
@@ -117,42 +171,83 @@ export const generateSchedule = async (barges: BargeForPrompt[], requests: Reque
         - shipName: "TERMINAL"
         - product: O tipo de produto que precisa recarregar.
         - quantity: 0
-        - locationName: "TERMINAL"
-    5.  A programação para essa barcaça só pode ser retomada após ela ter ido ao "TERMINAL". O tempo total para uma visita ao terminal é calculado como: 1.5 horas (faina inicial) + Tempo de Recarga + 2 horas (faina final). O Tempo de Recarga é calculado dinamicamente: (Capacidade do Produto da Barcaça - Volume Atual no momento do retorno) / 400. A taxa de carregamento do terminal é de 400 toneladas por hora.
+        - locationName: O nome do terminal escolhido.
+        - requestId: ""
+        - locationId: O 'id' do terminal escolhido.
+    5.  A programação para essa barcaça só pode ser retomada após ela ter ido ao terminal. O tempo total para uma visita ao terminal é calculado como: 'initialFainaHours' do terminal + Tempo de Recarga + 'finalFainaHours' do terminal. O Tempo de Recarga é calculado dinamicamente: (Capacidade do Produto da Barcaça - Volume Atual no momento do retorno) / 'loadingRate' do terminal.
+    6.  **Escolha do Terminal:** Recarregue somente em um terminal que fornece ('products') os produtos que faltam; apenas os produtos fornecidos por ele são recarregados. Entre os terminais possíveis, escolha aquele que permite à barcaça chegar mais cedo ao próximo atendimento.
 
     **Restrições e Regras:**
     - Um navio só pode ser atendido por uma barcaça de cada vez. Se um navio requer serviço de duas barcaças diferentes (para produtos diferentes), seus períodos de serviço não podem se sobrepor. A segunda barcaça só pode começar sua 'Faina Inicial' depois que a primeira barcaça tiver concluído totalmente sua 'Faina Final'.
     - Uma barcaça só pode fornecer um produto que ela transporta e para o qual tem volume suficiente.
     - O início do serviço ('scheduledTime', que é o começo da faina inicial) DEVE estar dentro da janela de abastecimento do navio (entre 'windowStart' e 'windowEnd'). O serviço em si pode terminar após o 'windowEnd'.
+    - **Períodos de Fechamento:** Locais e terminais podem informar 'closedPeriods' (restrições noturnas, de maré ou de tempo). Nenhuma faina ou bombeamento pode ocorrer dentro desses períodos: toda a operação, do início da faina inicial ao fim da faina final, deve caber entre dois fechamentos. Se necessário, a barcaça aguarda a reabertura do local.
     - A programação de saída deve conter uma entrada separada para **CADA ENTREGA DE PRODUTO** e **CADA VISITA AO TERMINAL**.
     - Se um pedido multi-produto puder ser atendido por uma barcaça híbrida, isso é eficiente. Se uma barcaça híbrida não tiver volume suficiente para um pedido multi-produto, você deve então tentar agendar a entrega usando duas barcaças especializadas separadas.
+    - **Entregas Parciais:** Se a quantidade de um produto de um pedido for maior que a capacidade de qualquer barcaça, divida-a em várias entregas, pela mesma barcaça após recarregar ou por barcaças diferentes. As entregas de um mesmo navio são sequenciais e nunca se sobrepõem, e a soma das entregas de cada produto deve ser exatamente a quantidade pedida, nunca maior.
     - Você deve agendar todos os pedidos de produtos possíveis.
+    - Cada item deve referenciar a barcaça, o pedido e o local pelos seus campos 'id' ('bargeId', 'requestId', 'locationId'), copiados exatamente dos dados abaixo. Os nomes servem apenas para leitura.
+
+    **Catálogo de Produtos:**
+    ${JSON.stringify(products, null, 2)}
+
+    **Terminais de Recarga:**
+    ${JSON.stringify(terminalsForPrompt, null, 2)}
 
     **Frota de Barcaças Disponível (Estado Inicial):**
-    ${JSON.stringify(barges, null, 2)}
+    ${JSON.stringify(bargesWithLocation, null, 2)}
 
     **Pedidos de Abastecimento:**
-    ${JSON.stringify(requests, null, 2)}
+    ${JSON.stringify(requestsWithFaina, null, 2)}
 
     Por favor, gere a programação ótima com base em todas essas regras. A saída deve ser um objeto JSON que adere ao schema fornecido.
     `;
 
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: scheduleSchema,
-      },
-    });
-    
-    const jsonString = response.text;
-    const parsedResponse = JSON.parse(jsonString);
-
-    return parsedResponse.schedule || [];
-  } catch (error) {
-    console.error("Erro ao gerar programação:", error);
-    throw new Error("Falha ao gerar a programação devido a um erro na API.");
+  return prompt;
+};
+
+// Parses the JSON returned by a model into schedule items, tolerating markdown code fences around it.
+export const parseScheduleResponse = (text: string): ScheduleItem[] => {
+  const jsonString = text.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+  const parsedResponse = JSON.parse(jsonString);
+  return Array.isArray(parsedResponse) ? parsedResponse : parsedResponse.schedule || [];
+};
+
+// Clients are reused across generations instead of being created on every call.
+const clientCache = new Map<string, GoogleGenAI>();
+
+const getClient = (apiKey: string): GoogleGenAI => {
+  let client = clientCache.get(apiKey);
+  if (!client) {
+    client = new GoogleGenAI({ apiKey });
+    clientCache.set(apiKey, client);
   }
-};
\ No newline at end of file
+  return client;
+};
+
+export const createGeminiClient = (model: string = DEFAULT_GEMINI_MODEL): LlmClient => ({
+  name: `gemini:${model || DEFAULT_GEMINI_MODEL}`,
+  complete: async (prompt: string, productCodes: string[]) => {
+    const API_key = process.env.API_KEY;
+
+    if (!API_key) {
+      console.error("API_KEY environment variable not set");
+      throw new Error("CONFIGURAÇÃO NECESSÁRIA: A chave de API do Gemini não foi encontrada. Por favor, configure a variável de ambiente 'API_KEY' para continuar.");
+    }
+
+    try {
+      const response = await getClient(API_key).models.generateContent({
+        model: model || DEFAULT_GEMINI_MODEL,
+        contents: prompt,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: buildScheduleSchema(productCodes),
+        },
+      });
+      return response.text || '';
+    } catch (error) {
+      console.error("Erro ao gerar programação:", error);
+      throw new Error("Falha ao gerar a programação devido a um erro na API.");
+    }
+  },
+});
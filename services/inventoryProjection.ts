@@ -0,0 +1,91 @@
+import type { Barge, Location, ProductType, ScheduleItem } from '../types';
+import { initialBargeState, isTerminalItem, replaySchedule, usableTanks } from './scheduleTimeline';
+import type { ScheduleContext } from './scheduleTimeline';
+import { isTerminalLocation, terminalSupplies } from './locationTypes';
+
+// Volume in one tank at a point in time (epoch ms). `index` is the schedule item that produced it, null for the start.
+export interface InventoryPoint {
+  time: number;
+  volume: number;
+  index: number | null;
+}
+
+export interface TankProjection {
+  productType: ProductType;
+  capacity: number;
+  points: InventoryPoint[];
+  lowest: number;
+}
+
+export type InventoryWarningKind = 'negative-volume' | 'missing-reload';
+
+export interface InventoryWarning {
+  kind: InventoryWarningKind;
+  index: number;
+  productType: ProductType;
+  time: number;
+  volume: number; // projected volume right after the offending delivery
+  message: string;
+}
+
+export interface BargeInventoryProjection {
+  barge: Barge;
+  tanks: TankProjection[];
+  warnings: InventoryWarning[];
+  // Where the barge is, when it is free and what it holds once every scheduled operation is done.
+  end: { time: number; location?: Location; volumes: Record<string, number> };
+}
+
+/**
+ * Projects the volume of every usable tank of every barge along the schedule, starting from the initial barge state.
+ * Unlike the replay, volumes are not floored at zero, so an overdrawn tank shows how much is missing. A delivery
+ * that overdraws a tank big enough to hold it means a reload is missing before it; one larger than the tank
+ * itself leaves the volume negative whatever reload is planned.
+ */
+export const projectInventory = (schedule: ScheduleItem[], context: ScheduleContext): BargeInventoryProjection[] => {
+  const simulationStart = new Date(context.simulationStartTime).getTime();
+  const replayed = replaySchedule(schedule, context).filter(r => r.barge && !isNaN(r.start));
+
+  return context.barges.map(barge => {
+    const start = initialBargeState(barge, context);
+    const state = context.bargeStates.find(s => s.bargeId === barge.id);
+    const warnings: InventoryWarning[] = [];
+    const volumes: Record<string, number> = { ...start.volumes };
+    const tanks: TankProjection[] = usableTanks(barge, context).map(p => {
+      const initial = state?.volumes.find(v => v.productType === p.productType)?.volume || 0;
+      const points: InventoryPoint[] = [{ time: simulationStart, volume: initial, index: null }];
+      // A barge starting at a terminal tops up there before it is available.
+      if (start.volumes[p.productType] !== initial) points.push({ time: start.release, volume: start.volumes[p.productType], index: null });
+      return { productType: p.productType, capacity: p.capacity, points, lowest: Math.min(initial, start.volumes[p.productType]) };
+    });
+    let location = start.location;
+    let endTime = start.release;
+
+    replayed.filter(r => r.barge!.id === barge.id).forEach(r => {
+      const { item, index } = r;
+      endTime = Math.max(endTime, r.release);
+      if (r.location) location = r.location;
+      const tank = tanks.find(t => t.productType === item.product);
+      if (!tank) return;
+      const before = volumes[item.product];
+      let after = before;
+      if (isTerminalItem(item)) {
+        if (isTerminalLocation(r.location) && terminalSupplies(r.location, item.product)) after = tank.capacity;
+      } else {
+        after = before - item.quantity;
+        if (after < 0 && before >= 0) {
+          const kind: InventoryWarningKind = item.quantity > tank.capacity ? 'negative-volume' : 'missing-reload';
+          const message = kind === 'negative-volume'
+            ? `A entrega de ${item.quantity}t de ${item.product} para ${item.shipName} excede a capacidade do tanque de ${barge.name} (${tank.capacity}t).`
+            : `Falta uma recarga de ${item.product} antes da entrega para ${item.shipName}: ${barge.name} ficaria com ${Math.round(after)}t.`;
+          warnings.push({ kind, index, productType: item.product, time: r.pumpingEnd, volume: after, message });
+        }
+      }
+      volumes[item.product] = after;
+      tank.points.push({ time: r.pumpingStart, volume: before, index }, { time: r.pumpingEnd, volume: after, index });
+      tank.lowest = Math.min(tank.lowest, after);
+    });
+
+    return { barge, tanks, warnings, end: { time: endTime, location, volumes } };
+  });
+};
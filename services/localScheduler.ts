@@ -0,0 +1,358 @@
+import type { ScheduleItem, Priority, Location, ProductType, OperationalParameters, Product } from '../types';
+import type { BargeForPrompt, RequestForPrompt } from './geminiService';
+import { resolveDeliveryRate, resolveFaina, resolveTerminalLoadingRate, roundTravelHours } from './operationalParameters';
+import { isTerminalLocation, terminalSupplies } from './locationTypes';
+import { earliestOpenStart } from './locationWindows';
+import { isTankCompatible } from './productCatalogue';
+
+const EARTH_RADIUS_NM = 3440.065;
+export const HOUR_MS = 60 * 60 * 1000;
+
+// Reload items carry this marker instead of a ship name; the terminal they visit is their location.
+export const TERMINAL_NAME = 'TERMINAL';
+
+// --- Time & distance helpers ---
+
+// Great-circle distance in nautical miles between two locations.
+export const haversineDistanceNm = (a: Location, b: Location): number => {
+  const toRad = (deg: number) => (deg * Math.PI) / 180;
+  const dLat = toRad(b.latitude - a.latitude);
+  const dLon = toRad(b.longitude - a.longitude);
+  const h = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(a.latitude)) * Math.cos(toRad(b.latitude)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_NM * Math.asin(Math.min(1, Math.sqrt(h)));
+};
+
+const isSameLocation = (a: Location, b: Location) =>
+  a.id === b.id || (a.latitude === b.latitude && a.longitude === b.longitude);
+
+// Travel time in hours, rounded as configured in the operational parameters. Travel within the same location is zero.
+export const travelHours = (from: Location, to: Location, speed: number, parameters: OperationalParameters): number => {
+  if (isSameLocation(from, to) || speed <= 0) return 0;
+  return roundTravelHours(parameters, haversineDistanceNm(from, to) / speed);
+};
+
+// Formats a timestamp as a local 'YYYY-MM-DDTHH:MM' string, the same format used by datetime-local inputs.
+export const toLocalIsoMinutes = (time: number): string => {
+  const date = new Date(time);
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+// Schedule times are emitted with minute precision, so every start is rounded up to the next whole minute.
+export const ceilToMinute = (time: number) => Math.ceil(time / 60000) * 60000;
+
+// Total service time of a delivery: initial faina, pumping at the effective rate and final faina.
+export const deliveryHours = (quantity: number, rate: number, faina: { initial: number; final: number }) =>
+  faina.initial + quantity / rate + faina.final;
+
+// Total time of a terminal visit: initial faina, loading the slowest tank and final faina.
+export const terminalVisitHours = (missingByProduct: number[], loadingRate: number, faina: { initial: number; final: number }) =>
+  faina.initial + Math.max(0, ...missingByProduct) / loadingRate + faina.final;
+
+export interface TerminalVisit {
+  terminal: Location;
+  arrival: number;
+  end: number;
+  // Tanks topped up during the visit: every tank that is not full and that the terminal supplies.
+  products: string[];
+}
+
+/**
+ * Plans a reload for a barge that is free at `readyAt` in `from`. Only terminals supplying every product in
+ * `required` are considered, and the one that lets the barge reach `destination` earliest is chosen. A barge
+ * arriving while the terminal is closed waits until the whole visit fits before the next closure.
+ */
+export const planTerminalVisit = (
+  from: Location,
+  readyAt: number,
+  speed: number,
+  volumes: Record<string, number>,
+  capacities: Record<string, number>,
+  required: string[],
+  destination: Location | undefined,
+  terminals: Location[],
+  parameters: OperationalParameters,
+): TerminalVisit | null => {
+  let best: TerminalVisit | null = null;
+  let bestReachesDestination = Infinity;
+  for (const terminal of terminals) {
+    if (!required.every(product => terminalSupplies(terminal, product))) continue;
+    const products = Object.keys(capacities).filter(p => volumes[p] < capacities[p] && terminalSupplies(terminal, p));
+    const visitHours = terminalVisitHours(
+      products.map(p => capacities[p] - volumes[p]),
+      resolveTerminalLoadingRate(parameters, terminal.id),
+      resolveFaina(parameters, terminal.id),
+    );
+    const arrival = earliestOpenStart(terminal, ceilToMinute(readyAt + travelHours(from, terminal, speed, parameters) * HOUR_MS), visitHours * HOUR_MS);
+    if (!isFinite(arrival)) continue;
+    const end = arrival + visitHours * HOUR_MS;
+    const reachesDestination = end + (destination ? travelHours(terminal, destination, speed, parameters) * HOUR_MS : 0);
+    if (reachesDestination < bestReachesDestination) {
+      best = { terminal, arrival, end, products };
+      bestReachesDestination = reachesDestination;
+    }
+  }
+  return best;
+};
+
+// --- Request ordering ---
+
+type RequestComparator = (a: RequestForPrompt, b: RequestForPrompt) => number;
+
+const totalQuantity = (r: RequestForPrompt) => r.products.reduce((sum, p) => sum + p.quantity, 0);
+
+const comparatorsByKeyword: { keywords: string[]; compare: RequestComparator }[] = [
+  { keywords: ['contratual'], compare: (a, b) => a.contractualDate.localeCompare(b.contractualDate) },
+  { keywords: ['janela', 'urgência', 'urgencia'], compare: (a, b) => new Date(a.windowEnd).getTime() - new Date(b.windowEnd).getTime() },
+  { keywords: ['quantidade'], compare: (a, b) => totalQuantity(b) - totalQuantity(a) },
+];
+
+// The priorities are free text written for the AI. The local engine recognises the default rules by keyword,
+// in the order the planner arranged them, and falls back to the default order for anything it cannot interpret.
+const buildRequestComparator = (priorities: Priority[]): RequestComparator => {
+  const ordered: RequestComparator[] = [];
+  priorities.forEach(p => {
+    const text = p.text.toLowerCase();
+    const match = comparatorsByKeyword.find(c => c.keywords.some(k => text.includes(k)));
+    if (match && !ordered.includes(match.compare)) ordered.push(match.compare);
+  });
+  comparatorsByKeyword.forEach(c => {
+    if (!ordered.includes(c.compare)) ordered.push(c.compare);
+  });
+  return (a, b) => {
+    for (const compare of ordered) {
+      const result = compare(a, b);
+      if (result !== 0) return result;
+    }
+    return 0;
+  };
+};
+
+// --- Scheduling engine ---
+
+interface BargeRuntime {
+  barge: BargeForPrompt;
+  location: Location;
+  availableAt: number;
+  volumes: Record<string, number>;
+  capacities: Record<string, number>;
+}
+
+interface PlannedDelivery {
+  product: string;
+  quantity: number;
+}
+
+interface Assignment {
+  runtime: BargeRuntime;
+  reload: TerminalVisit | null;
+  deliveries: { product: string; quantity: number; start: number; end: number }[];
+}
+
+// Parameters and the terminals shared by every planning step of one generation.
+interface PlanningContext {
+  parameters: OperationalParameters;
+  terminals: Location[];
+  products: Product[];
+}
+
+const initialRuntime = (barge: BargeForPrompt, startTime: number, { parameters, products }: PlanningContext): BargeRuntime => {
+  const volumes: Record<string, number> = {};
+  const capacities: Record<string, number> = {};
+  // A tank whose group the product does not accept is left out, so nothing is delivered or reloaded from it.
+  barge.products.filter(p => isTankCompatible(p.productType, p.tankGroup, products)).forEach(p => {
+    volumes[p.productType] = p.currentVolume;
+    capacities[p.productType] = p.capacity;
+  });
+
+  // A barge with locked operations is already at the end state of those operations.
+  if (barge.availableFrom) {
+    return { barge, location: barge.initialLocation, availableAt: Math.max(startTime, new Date(barge.availableFrom).getTime()), volumes, capacities };
+  }
+
+  let availableAt = startTime;
+  // A barge starting at a terminal is still loading the products it supplies: it is released once the slowest
+  // of those tanks is full plus the final faina.
+  const terminal = barge.initialLocation;
+  if (isTerminalLocation(terminal)) {
+    const loading = barge.products.filter(p => capacities[p.productType] !== undefined && terminalSupplies(terminal, p.productType));
+    const loadingRate = resolveTerminalLoadingRate(parameters, terminal.id);
+    const loadingHours = Math.max(0, ...loading.map(p => (p.capacity - p.currentVolume) / loadingRate));
+    availableAt = startTime + (loadingHours + resolveFaina(parameters, terminal.id).final) * HOUR_MS;
+    loading.forEach(p => { volumes[p.productType] = p.capacity; });
+  }
+
+  return { barge, location: barge.initialLocation, availableAt, volumes, capacities };
+};
+
+// Plans the given deliveries on a single barge, reloading first at the terminal when its volume is insufficient.
+// Deliveries wait for the location to be open for their whole service time.
+// Returns null when the barge cannot carry the products or cannot start every delivery inside the ship's window.
+const planOnBarge = (
+  runtime: BargeRuntime,
+  request: RequestForPrompt,
+  deliveries: PlannedDelivery[],
+  shipAvailableAt: number,
+  { parameters, terminals }: PlanningContext,
+): Assignment | null => {
+  if (deliveries.some(d => runtime.capacities[d.product] === undefined || runtime.capacities[d.product] < d.quantity)) {
+    return null;
+  }
+
+  let location = runtime.location;
+  let time = runtime.availableAt;
+  let reload: Assignment['reload'] = null;
+
+  const shortProducts = deliveries.filter(d => runtime.volumes[d.product] < d.quantity).map(d => d.product);
+  if (shortProducts.length > 0) {
+    reload = planTerminalVisit(
+      location, time, runtime.barge.speed, runtime.volumes, runtime.capacities, shortProducts, request.location, terminals, parameters,
+    );
+    if (!reload) return null;
+    location = reload.terminal;
+    time = reload.end;
+  }
+
+  const windowStart = new Date(request.windowStart).getTime();
+  const windowEnd = new Date(request.windowEnd).getTime();
+  const arrival = time + travelHours(location, request.location, runtime.barge.speed, parameters) * HOUR_MS;
+  const rate = resolveDeliveryRate(runtime.barge.pumpRate, request.maxReceivingRate);
+  const faina = resolveFaina(parameters, request.location.id);
+
+  let start = ceilToMinute(Math.max(arrival, windowStart, shipAvailableAt));
+  const planned: Assignment['deliveries'] = [];
+  for (const delivery of deliveries) {
+    const serviceMs = deliveryHours(delivery.quantity, rate, faina) * HOUR_MS;
+    start = earliestOpenStart(request.location, start, serviceMs);
+    if (start > windowEnd) return null;
+    const end = start + serviceMs;
+    planned.push({ ...delivery, start, end });
+    start = ceilToMinute(end);
+  }
+
+  return { runtime, reload, deliveries: planned };
+};
+
+const applyAssignment = (assignment: Assignment, request: RequestForPrompt, schedule: ScheduleItem[]) => {
+  const { runtime, reload, deliveries } = assignment;
+
+  if (reload) {
+    reload.products.forEach(product => {
+      schedule.push({
+        bargeId: runtime.barge.id,
+        locationId: reload.terminal.id,
+        shipName: TERMINAL_NAME,
+        bargeName: runtime.barge.name,
+        scheduledTime: toLocalIsoMinutes(reload.arrival),
+        product: product as ProductType,
+        quantity: 0,
+        locationName: reload.terminal.name,
+      });
+      runtime.volumes[product] = runtime.capacities[product];
+    });
+    runtime.location = reload.terminal;
+  }
+
+  deliveries.forEach(d => {
+    schedule.push({
+      bargeId: runtime.barge.id,
+      requestId: request.id,
+      locationId: request.location.id,
+      shipName: request.shipName,
+      bargeName: runtime.barge.name,
+      scheduledTime: toLocalIsoMinutes(d.start),
+      product: d.product as ProductType,
+      quantity: d.quantity,
+      locationName: request.location.name,
+    });
+    runtime.volumes[d.product] -= d.quantity;
+  });
+
+  runtime.location = request.location;
+  runtime.availableAt = deliveries[deliveries.length - 1].end;
+};
+
+const pickBest = (candidates: (Assignment | null)[]): Assignment | null =>
+  candidates.reduce<Assignment | null>((best, candidate) => {
+    if (!candidate) return best;
+    if (!best) return candidate;
+    const candidateEnd = candidate.deliveries[candidate.deliveries.length - 1].end;
+    const bestEnd = best.deliveries[best.deliveries.length - 1].end;
+    return candidateEnd < bestEnd ? candidate : best;
+  }, null);
+
+// For a split line: the single delivery moving the most product, the earliest finishing one on a tie.
+const pickLargest = (candidates: (Assignment | null)[]): Assignment | null =>
+  candidates.reduce<Assignment | null>((best, candidate) => {
+    if (!candidate) return best;
+    if (!best) return candidate;
+    const difference = candidate.deliveries[0].quantity - best.deliveries[0].quantity;
+    return difference > 0 || (difference === 0 && candidate.deliveries[0].end < best.deliveries[0].end) ? candidate : best;
+  }, null);
+
+/**
+ * Deterministic, offline scheduler implementing the same rules as the Gemini prompt.
+ * Requests are served greedily in priority order; each one is assigned to the barge (or barges)
+ * that finish it earliest, preferring a single hybrid barge for multi-product orders. A product line no
+ * barge can carry at once is split into consecutive deliveries, each as large as possible. Reloads go to
+ * whichever terminal supplying the missing products gets the barge to the ship first.
+ */
+export const generateLocalSchedule = (
+  barges: BargeForPrompt[],
+  requests: RequestForPrompt[],
+  priorities: Priority[],
+  simulationStartTime: string,
+  parameters: OperationalParameters,
+  terminals: Location[] = [],
+  products: Product[] = [],
+): ScheduleItem[] => {
+  if (barges.length === 0 || requests.length === 0) {
+    return [];
+  }
+
+  const startTime = new Date(simulationStartTime).getTime();
+  if (isNaN(startTime)) {
+    throw new Error("O horário de início da simulação é inválido.");
+  }
+
+  const knownTerminals = terminals.length > 0
+    ? terminals
+    : barges.map(b => b.initialLocation).filter((l, i, all) => isTerminalLocation(l) && all.findIndex(o => o.id === l.id) === i);
+  const context: PlanningContext = { parameters, terminals: knownTerminals, products };
+  const runtimes = barges.map(b => initialRuntime(b, startTime, context));
+  const orderedRequests = [...requests].sort(buildRequestComparator(priorities));
+  const schedule: ScheduleItem[] = [];
+
+  orderedRequests.forEach(request => {
+    const lines: PlannedDelivery[] = request.products
+      .filter(p => p.quantity > 0)
+      .map(p => ({ product: p.productType, quantity: p.quantity }));
+    if (lines.length === 0) return;
+
+    // Preferred: a single (hybrid) barge serving every product line of the request.
+    const single = pickBest(runtimes.map(r => planOnBarge(r, request, lines, startTime, context)));
+    if (single) {
+      applyAssignment(single, request, schedule);
+      return;
+    }
+
+    // Fallback: one specialised barge per product, never overlapping on the same ship. A line that no barge can
+    // serve whole is delivered in parts, one after the other, until nothing is left or no barge can go on.
+    let shipAvailableAt = startTime;
+    lines.forEach(line => {
+      let remaining = line.quantity;
+      while (remaining > 0) {
+        const candidates = runtimes
+          .filter(r => (r.capacities[line.product] || 0) > 0)
+          .map(r => planOnBarge(r, request, [{ product: line.product, quantity: Math.min(remaining, r.capacities[line.product]) }], shipAvailableAt, context));
+        const best = pickBest(candidates.filter(c => c?.deliveries[0].quantity === remaining)) || pickLargest(candidates);
+        if (!best) return;
+        applyAssignment(best, request, schedule);
+        shipAvailableAt = best.deliveries[0].end;
+        remaining -= best.deliveries[0].quantity;
+      }
+    });
+  });
+
+  return schedule.sort((a, b) => new Date(a.scheduledTime).getTime() - new Date(b.scheduledTime).getTime());
+};
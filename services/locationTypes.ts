@@ -0,0 +1,22 @@
+import { LocationType } from '../types';
+import type { Location, ProductType } from '../types';
+
+export const locationTypeLabels: Record<LocationType, string> = {
+  [LocationType.Terminal]: 'Terminal',
+  [LocationType.Anchorage]: 'Fundeadouro',
+  [LocationType.Berth]: 'Berço',
+};
+
+// Barges reload at terminals; ships are served at anchorages and berths.
+export const isTerminalLocation = (location: Location | undefined): location is Location & { type: LocationType.Terminal } =>
+  location?.type === LocationType.Terminal;
+
+export const terminalSupplies = (terminal: Location, product: ProductType | string): boolean =>
+  !terminal.products || terminal.products.includes(product as ProductType);
+
+// Saved locations predate the location type; the single reload point used to be the location named 'TERMINAL'.
+export const normalizeLocations = (saved: Location[]): Location[] =>
+  saved.map(location => ({
+    ...location,
+    type: location.type || (location.name === 'TERMINAL' ? LocationType.Terminal : LocationType.Anchorage),
+  }));
@@ -0,0 +1,173 @@
+import type { AdHocClosure, Location, LocationClosure } from '../types';
+import { normalizeHeader, parseCsv } from './spreadsheet';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// How far ahead an operation is pushed looking for an open slot before the location is considered closed for good.
+const SEARCH_DAYS = 30;
+
+// Forecast wave heights (m) above this limit close the location, unless the planner sets another one.
+export const DEFAULT_MAX_WAVE_HEIGHT = 2.5;
+
+export interface ClosedInterval {
+  start: number;
+  end: number;
+  closure: LocationClosure;
+}
+
+const parseClock = (clock: string): number => {
+  const match = /^(\d{1,2}):(\d{2})$/.exec(clock.trim());
+  return match ? Number(match[1]) * 60 + Number(match[2]) : NaN;
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Closed intervals of a location overlapping [from, until), with recurring closures expanded day by day in local time.
+export const closedIntervals = (location: Location | undefined, from: number, until: number): ClosedInterval[] => {
+  const intervals: ClosedInterval[] = [];
+  (location?.closures || []).forEach(closure => {
+    if (closure.kind === 'ad-hoc') {
+      const start = new Date(closure.from).getTime();
+      const end = new Date(closure.until).getTime();
+      if (start < until && end > from) intervals.push({ start, end, closure });
+      return;
+    }
+    const fromMinutes = parseClock(closure.from);
+    const untilMinutes = parseClock(closure.until);
+    if (isNaN(fromMinutes) || isNaN(untilMinutes)) return;
+    // Starting the day before catches a closure that crosses midnight into `from`.
+    const day = new Date(from);
+    day.setHours(0, 0, 0, 0);
+    day.setDate(day.getDate() - 1);
+    for (; day.getTime() < until; day.setDate(day.getDate() + 1)) {
+      const start = new Date(day).setHours(0, fromMinutes);
+      const end = new Date(day).setHours(0, untilMinutes + (untilMinutes <= fromMinutes ? 24 * 60 : 0));
+      if (start < until && end > from) intervals.push({ start, end, closure });
+    }
+  });
+  return intervals.sort((a, b) => a.start - b.start);
+};
+
+// The first closed interval the period [start, end) runs into, if any.
+export const findClosureConflict = (location: Location | undefined, start: number, end: number): ClosedInterval | undefined =>
+  closedIntervals(location, start, Math.max(end, start + 1))[0];
+
+/**
+ * Earliest start, not before `earliest`, at which an operation lasting `durationMs` fits entirely between the
+ * closures of the location. Returns Infinity when no such slot exists within the search horizon.
+ */
+export const earliestOpenStart = (location: Location | undefined, earliest: number, durationMs: number): number => {
+  if (!location?.closures?.length || isNaN(earliest)) return earliest;
+  const horizon = earliest + SEARCH_DAYS * DAY_MS;
+  let start = earliest;
+  for (const interval of closedIntervals(location, earliest, horizon + durationMs)) {
+    if (interval.start >= start + durationMs) break;
+    if (interval.end > start) start = interval.end;
+  }
+  return start > horizon ? Infinity : start;
+};
+
+// --- Forecast import ---
+
+export interface ForecastImport {
+  closures: { locationId: string; closure: AdHocClosure }[];
+  errors: string[]; // one message per rejected line
+}
+
+const columnAliases = {
+  location: ['local', 'location', 'fundeadouro'],
+  from: ['inicio', 'de', 'start', 'from'],
+  until: ['fim', 'ate', 'end', 'until'],
+  waveHeight: ['altura_onda', 'onda', 'hs', 'wave_height'],
+  reason: ['motivo', 'reason'],
+};
+
+// Accepts 'YYYY-MM-DDTHH:MM', 'YYYY-MM-DD HH:MM' and 'DD/MM/YYYY HH:MM', returning the local ISO form used in the app.
+const parseForecastTime = (text: string): string | null => {
+  const value = text.trim();
+  const iso = /^(\d{4})-(\d{2})-(\d{2})[T ](\d{1,2}):(\d{2})/.exec(value);
+  const br = /^(\d{2})\/(\d{2})\/(\d{4}) (\d{1,2}):(\d{2})/.exec(value);
+  const parts = iso ? [iso[1], iso[2], iso[3], iso[4], iso[5]] : br ? [br[3], br[2], br[1], br[4], br[5]] : null;
+  if (!parts) return null;
+  const [year, month, day, hour, minute] = parts.map(Number);
+  const date = new Date(year, month - 1, day, hour, minute);
+  return isNaN(date.getTime()) ? null : `${year}-${pad(month)}-${pad(day)}T${pad(hour)}:${pad(minute)}`;
+};
+
+/**
+ * Reads a forecast CSV (comma or semicolon separated, quoted cells allowed, with a header line) into ad-hoc
+ * closures. Each line names a location by name or id and a period. When the file has a wave height column, only
+ * periods above `maxWaveHeight` close the location. Consecutive or overlapping closed periods of the same location are merged.
+ */
+export const parseForecastCsv = (text: string, locations: Location[], maxWaveHeight = DEFAULT_MAX_WAVE_HEIGHT): ForecastImport => {
+  const rows = parseCsv(text);
+  if (rows.length < 2) throw new Error("O arquivo de previsão está vazio.");
+  const headers = rows[0].map(normalizeHeader);
+  const column = (aliases: string[]) => headers.findIndex(h => aliases.includes(h));
+  const columns = {
+    location: column(columnAliases.location),
+    from: column(columnAliases.from),
+    until: column(columnAliases.until),
+    waveHeight: column(columnAliases.waveHeight),
+    reason: column(columnAliases.reason),
+  };
+  if (columns.location < 0 || columns.from < 0 || columns.until < 0) {
+    throw new Error("O arquivo de previsão deve ter as colunas 'local', 'inicio' e 'fim'.");
+  }
+
+  const errors: string[] = [];
+  const periods: { locationId: string; from: string; until: string; reason: string }[] = [];
+  rows.slice(1).forEach((cells, i) => {
+    const lineNumber = i + 2;
+    const name = cells[columns.location] || '';
+    const location = locations.find(l => l.id === name) || locations.find(l => l.name.trim().toLowerCase() === name.toLowerCase());
+    const from = parseForecastTime(cells[columns.from] || '');
+    const until = parseForecastTime(cells[columns.until] || '');
+    if (!location) {
+      errors.push(`Linha ${lineNumber}: local desconhecido '${name}'.`);
+      return;
+    }
+    if (!from || !until || until <= from) {
+      errors.push(`Linha ${lineNumber}: período inválido.`);
+      return;
+    }
+    let reason = columns.reason >= 0 ? cells[columns.reason] || '' : '';
+    if (columns.waveHeight >= 0) {
+      const waveHeight = parseFloat((cells[columns.waveHeight] || '').replace(',', '.'));
+      if (isNaN(waveHeight)) {
+        errors.push(`Linha ${lineNumber}: altura de onda inválida.`);
+        return;
+      }
+      if (waveHeight <= maxWaveHeight) return;
+      reason = reason || `Onda de ${waveHeight.toLocaleString('pt-BR')} m prevista`;
+    }
+    periods.push({ locationId: location.id, from, until, reason: reason || 'Previsão meteorológica' });
+  });
+
+  periods.sort((a, b) => a.locationId.localeCompare(b.locationId) || a.from.localeCompare(b.from));
+  const merged: typeof periods = [];
+  periods.forEach(period => {
+    const last = merged[merged.length - 1];
+    if (last && last.locationId === period.locationId && period.from <= last.until) {
+      if (period.until > last.until) last.until = period.until;
+    } else {
+      merged.push({ ...period });
+    }
+  });
+
+  return {
+    closures: merged.map(({ locationId, from, until, reason }) => ({
+      locationId,
+      closure: { id: crypto.randomUUID(), kind: 'ad-hoc', from, until, reason, source: 'forecast' },
+    })),
+    errors,
+  };
+};
+
+// A new forecast supersedes the previous one for the locations it covers; manual and recurring closures are kept.
+export const applyForecastClosures = (locations: Location[], imported: ForecastImport['closures']): Location[] =>
+  locations.map(location => {
+    const closures = imported.filter(c => c.locationId === location.id).map(c => c.closure);
+    if (closures.length === 0) return location;
+    const kept = (location.closures || []).filter(c => c.kind !== 'ad-hoc' || c.source !== 'forecast');
+    return { ...location, closures: [...kept, ...closures] };
+  });
@@ -0,0 +1,64 @@
+import type { ScheduleItem, ProductType } from '../types';
+import type { BargeForPrompt, RequestForPrompt } from './geminiService';
+import { toLocalIsoMinutes } from './localScheduler';
+import { initialBargeState, isTerminalItem, replaySchedule } from './scheduleTimeline';
+import type { ScheduleContext } from './scheduleTimeline';
+
+// An item is locked on its own or because its whole barge is locked.
+export const isLockedItem = (item: ScheduleItem, lockedBargeIds: string[]): boolean =>
+  !!item.locked || lockedBargeIds.includes(item.bargeId);
+
+/**
+ * Narrows a generation to what is left once the locked operations are kept as they are.
+ * Locked barges are left out entirely. Barges with locked items start from where and when their last locked
+ * operation releases them, with the volumes it leaves on board. Quantities already delivered by locked items
+ * are taken off their requests, and a ship partly served by a locked item only becomes free after it.
+ */
+export const constrainToLockedOperations = (
+  barges: BargeForPrompt[],
+  requests: RequestForPrompt[],
+  lockedItems: ScheduleItem[],
+  lockedBargeIds: string[],
+  context: ScheduleContext,
+): { barges: BargeForPrompt[]; requests: RequestForPrompt[] } => {
+  const replayed = replaySchedule(lockedItems, context).filter(r => r.barge && !isNaN(r.start));
+
+  const constrainedBarges = barges
+    .filter(b => !lockedBargeIds.includes(b.id))
+    .map(bargeForPrompt => {
+      const entries = replayed.filter(r => r.barge?.id === bargeForPrompt.id);
+      const barge = context.barges.find(b => b.id === bargeForPrompt.id);
+      if (entries.length === 0 || !barge) return bargeForPrompt;
+
+      const volumes = initialBargeState(barge, context).volumes;
+      entries.forEach(r => { volumes[r.item.product] = r.volumeAfter; });
+      const last = entries[entries.length - 1];
+      return {
+        ...bargeForPrompt,
+        initialLocation: last.location || bargeForPrompt.initialLocation,
+        availableFrom: toLocalIsoMinutes(Math.max(...entries.map(r => r.release))),
+        products: bargeForPrompt.products.map(p => ({ ...p, currentVolume: volumes[p.productType] ?? p.currentVolume })),
+      };
+    });
+
+  const lockedDeliveries = replayed.filter(r => !isTerminalItem(r.item));
+  const constrainedRequests = requests
+    .map(request => {
+      const served = lockedDeliveries.filter(r => r.item.requestId === request.id);
+      if (served.length === 0) return request;
+
+      const deliveredByProduct = (product: ProductType) =>
+        served.filter(r => r.item.product === product).reduce((sum, r) => sum + r.item.quantity, 0);
+      const shipFreeAt = Math.max(new Date(request.windowStart).getTime(), ...served.map(r => r.release));
+      return {
+        ...request,
+        windowStart: toLocalIsoMinutes(shipFreeAt),
+        products: request.products
+          .map(p => ({ ...p, quantity: Math.max(0, p.quantity - deliveredByProduct(p.productType)) }))
+          .filter(p => p.quantity > 0),
+      };
+    })
+    .filter(request => request.products.length > 0);
+
+  return { barges: constrainedBarges, requests: constrainedRequests };
+};
@@ -0,0 +1,207 @@
+import { RequestStatus } from '../types';
+import type { Location, Product, ProductDetail, ProductType, RefuelingRequest } from '../types';
+import { isTerminalLocation } from './locationTypes';
+import { isValidImoNumber, normalizeImoNumber } from './bunkerDeliveryNote';
+import { normalizeHeader, parseSpreadsheetDateTime, parseSpreadsheetNumber } from './spreadsheet';
+
+export type NominationField = 'shipName' | 'imoNumber' | 'location' | 'windowStart' | 'windowEnd' | 'contractualDate';
+
+export const nominationFieldLabels: Record<NominationField, string> = {
+  shipName: 'Nome do Navio',
+  imoNumber: 'Nº IMO',
+  location: 'Local',
+  windowStart: 'Início da Janela',
+  windowEnd: 'Fim da Janela',
+  contractualDate: 'Data Contratual',
+};
+
+// Without a contractual date column, the date of the window start is used.
+const requiredFields: NominationField[] = ['shipName', 'location', 'windowStart', 'windowEnd'];
+
+// Column of the file holding each field and each product quantity; -1 when it is not imported.
+export interface NominationColumnMapping {
+  fields: Record<NominationField, number>;
+  products: Record<ProductType, number>;
+}
+
+const fieldAliases: Record<NominationField, string[]> = {
+  shipName: ['navio', 'nome_do_navio', 'nome_navio', 'embarcacao', 'ship', 'ship_name', 'vessel'],
+  imoNumber: ['imo', 'n_imo', 'no_imo', 'numero_imo', 'imo_number', 'imo_no'],
+  location: ['local', 'fundeadouro', 'berco', 'porto', 'location', 'port', 'anchorage'],
+  windowStart: ['inicio', 'inicio_da_janela', 'inicio_janela', 'janela_inicio', 'window_start', 'laycan_start', 'from'],
+  windowEnd: ['fim', 'fim_da_janela', 'fim_janela', 'janela_fim', 'window_end', 'laycan_end', 'until'],
+  contractualDate: ['data_contratual', 'data_do_contrato', 'contrato', 'contractual_date', 'contract_date'],
+};
+
+// Guesses the mapping from the header line: known field names, and product codes found in a header.
+export const guessNominationMapping = (headers: string[], products: Product[]): NominationColumnMapping => {
+  const normalized = headers.map(normalizeHeader);
+  const fields = Object.fromEntries(
+    (Object.keys(fieldAliases) as NominationField[]).map(field => [field, normalized.findIndex(h => fieldAliases[field].includes(h))]),
+  ) as Record<NominationField, number>;
+  const productColumns: Record<ProductType, number> = {};
+  products.forEach(product => {
+    const code = normalizeHeader(product.code);
+    productColumns[product.code] = normalized.findIndex(h => h === code || h.split('_').includes(code));
+  });
+  return { fields, products: productColumns };
+};
+
+// Labels of the fields a mapping still lacks; at least one product column is needed as well.
+export const missingNominationMappings = (mapping: NominationColumnMapping): string[] => [
+  ...requiredFields.filter(field => mapping.fields[field] < 0).map(field => nominationFieldLabels[field]),
+  ...(Object.values(mapping.products).some(column => column >= 0) ? [] : ['ao menos um produto']),
+];
+
+// --- Location matching ---
+
+const simplify = (name: string) => normalizeHeader(name).replace(/[^a-z0-9]+/g, ' ').trim();
+
+const editDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    previous = current;
+  }
+  return previous[b.length];
+};
+
+// 1 for equal names, down to 0; a name contained in the other scores high, as in 'Fundeadouro 3' and 'Fund. 3'.
+const similarity = (a: string, b: string): number => {
+  if (a === b) return 1;
+  if (Math.min(a.length, b.length) >= 3 && (a.includes(b) || b.includes(a))) return 0.9;
+  return 1 - editDistance(a, b) / Math.max(a.length, b.length);
+};
+
+const MIN_LOCATION_SIMILARITY = 0.75;
+
+export interface LocationMatch {
+  location?: Location;
+  exact: boolean;
+}
+
+/**
+ * Finds the location a spreadsheet names, by id or by name regardless of case, accents and punctuation.
+ * Otherwise the most similar name is taken when it is close enough and no other name is as close.
+ */
+export const matchLocation = (name: string, locations: Location[]): LocationMatch => {
+  const wanted = simplify(name);
+  if (!wanted) return { exact: false };
+  const exact = locations.find(l => l.id === name.trim() || simplify(l.name) === wanted);
+  if (exact) return { location: exact, exact: true };
+  const scored = locations
+    .map(location => ({ location, score: similarity(simplify(location.name), wanted) }))
+    .sort((a, b) => b.score - a.score);
+  const [best, second] = scored;
+  if (!best || best.score < MIN_LOCATION_SIMILARITY || (second && second.score === best.score)) return { exact: false };
+  return { location: best.location, exact: false };
+};
+
+// --- Preview ---
+
+export interface NominationPreviewRow {
+  rowNumber: number; // line of the file, the header being line 1
+  cells: Record<NominationField, string>;
+  quantities: Record<ProductType, number>;
+  location?: Location;
+  request?: RefuelingRequest; // built only when the row has no errors
+  errors: string[];
+  notes: string[]; // approximate location matches and defaults applied
+  duplicateOf?: string; // the existing request, or earlier row, the nomination repeats
+}
+
+const normalizeShip = (name: string) => simplify(name).replace(/^(mv|m v|mt|m t|nm|n m) /, '');
+
+// Same ship at the same location with overlapping windows: most likely the same nomination sent twice.
+export const isDuplicateNomination = (a: RefuelingRequest, b: RefuelingRequest): boolean =>
+  normalizeShip(a.shipName) === normalizeShip(b.shipName)
+  && a.locationId === b.locationId
+  && a.windowStart <= b.windowEnd
+  && b.windowStart <= a.windowEnd;
+
+/**
+ * Reads the rows below the header into requests, one per row, checking every field. Locations are matched
+ * against the non-terminal locations, and each request is compared with the existing ones that are not
+ * cancelled and with the earlier rows of the file to flag duplicates. `decimalDot` is set for XLSX files, whose
+ * quantities are raw numbers.
+ */
+export const buildNominationPreview = (
+  rows: string[][],
+  mapping: NominationColumnMapping,
+  locations: Location[],
+  products: Product[],
+  existing: RefuelingRequest[],
+  decimalDot = false,
+): NominationPreviewRow[] => {
+  const serviceable = locations.filter(l => !isTerminalLocation(l));
+  const candidates = existing.filter(r => r.status !== RequestStatus.Cancelled);
+  const imported: { request: RefuelingRequest; rowNumber: number }[] = [];
+
+  return rows.slice(1).map((row, i) => {
+    const rowNumber = i + 2;
+    const cell = (column: number) => (column >= 0 ? row[column] || '' : '');
+    const cells = Object.fromEntries(
+      (Object.keys(nominationFieldLabels) as NominationField[]).map(field => [field, cell(mapping.fields[field]).trim()]),
+    ) as Record<NominationField, string>;
+    const errors: string[] = [];
+    const notes: string[] = [];
+
+    if (!cells.shipName) errors.push('Nome do navio em branco.');
+    const imoNumber = normalizeImoNumber(cells.imoNumber) || undefined;
+    if (imoNumber && !isValidImoNumber(imoNumber)) errors.push(`Número IMO inválido: '${cells.imoNumber}'.`);
+
+    const { location, exact } = matchLocation(cells.location, serviceable);
+    if (!location) errors.push(cells.location ? `Local desconhecido: '${cells.location}'.` : 'Local em branco.');
+    else if (!exact) notes.push(`Local '${cells.location}' associado a ${location.name}.`);
+
+    const quantities: Record<ProductType, number> = {};
+    products.forEach(product => {
+      const column = mapping.products[product.code];
+      if (column === undefined || column < 0) return;
+      const quantity = parseSpreadsheetNumber(cell(column), decimalDot);
+      if (isNaN(quantity) || quantity < 0) errors.push(`Quantidade de ${product.code} inválida: '${cell(column)}'.`);
+      else quantities[product.code] = quantity;
+    });
+    const productLines: ProductDetail[] = products
+      .filter(product => (quantities[product.code] || 0) > 0)
+      .map(product => ({ productType: product.code, quantity: quantities[product.code] }));
+    if (productLines.length === 0 && !errors.some(e => e.startsWith('Quantidade'))) errors.push('Nenhuma quantidade de produto informada.');
+
+    const windowStart = parseSpreadsheetDateTime(cells.windowStart);
+    const windowEnd = parseSpreadsheetDateTime(cells.windowEnd);
+    if (!windowStart) errors.push(`Início da janela inválido: '${cells.windowStart}'.`);
+    if (!windowEnd) errors.push(`Fim da janela inválido: '${cells.windowEnd}'.`);
+    if (windowStart && windowEnd && windowEnd <= windowStart) errors.push('O fim da janela é anterior ao início.');
+
+    let contractualDate = cells.contractualDate ? parseSpreadsheetDateTime(cells.contractualDate)?.slice(0, 10) : undefined;
+    if (cells.contractualDate && !contractualDate) errors.push(`Data contratual inválida: '${cells.contractualDate}'.`);
+    if (!cells.contractualDate && windowStart) {
+      contractualDate = windowStart.slice(0, 10);
+      notes.push('Data contratual assumida como a data do início da janela.');
+    }
+
+    const preview: NominationPreviewRow = { rowNumber, cells, quantities, location, errors, notes };
+    if (errors.length > 0 || !location || !windowStart || !windowEnd || !contractualDate) return preview;
+
+    const request: RefuelingRequest = {
+      id: crypto.randomUUID(),
+      shipName: cells.shipName,
+      imoNumber,
+      products: productLines,
+      windowStart,
+      windowEnd,
+      contractualDate,
+      status: RequestStatus.Nominated,
+      locationId: location.id,
+    };
+    const duplicate = candidates.find(other => isDuplicateNomination(other, request));
+    const repeated = imported.find(other => isDuplicateNomination(other.request, request));
+    if (duplicate) preview.duplicateOf = `pedido existente de ${duplicate.shipName} (${duplicate.windowStart} a ${duplicate.windowEnd})`;
+    else if (repeated) preview.duplicateOf = `linha ${repeated.rowNumber} do arquivo`;
+    imported.push({ request, rowNumber });
+    return { ...preview, request };
+  });
+};
@@ -0,0 +1,50 @@
+import type { LlmClient } from './schedulingProvider';
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string;
+  model: string;
+  apiKey: string;
+}
+
+// Endpoints without structured output support only get the JSON shape as an instruction.
+const outputInstructions = (productCodes: string[]) => `
+    Responda SOMENTE com um objeto JSON no formato:
+    {"schedule": [{"shipName": string, "bargeName": string, "bargeId": string, "requestId": string, "scheduledTime": "YYYY-MM-DDTHH:MM", "product": ${productCodes.length > 0 ? productCodes.map(code => JSON.stringify(code)).join(' | ') : 'string'}, "quantity": number, "locationName": string, "locationId": string}]}
+    `;
+
+// Client for any server exposing the OpenAI chat completions API, such as an on-prem model server.
+export const createOpenAICompatibleClient = ({ baseUrl, model, apiKey }: OpenAICompatibleConfig): LlmClient => ({
+  name: `openai-compatible:${model}`,
+  complete: async (prompt: string, productCodes: string[]) => {
+    if (!baseUrl.trim() || !model.trim()) {
+      throw new Error("CONFIGURAÇÃO NECESSÁRIA: Informe a URL base e o modelo do servidor LLM local na aba 'Motor'.");
+    }
+
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+
+    let response: Response;
+    try {
+      response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model,
+          messages: [{ role: 'user', content: prompt + outputInstructions(productCodes) }],
+          response_format: { type: 'json_object' },
+          temperature: 0,
+        }),
+      });
+    } catch (error) {
+      console.error("Erro ao contatar o servidor LLM local:", error);
+      throw new Error(`Não foi possível conectar ao servidor LLM em ${baseUrl}.`);
+    }
+
+    if (!response.ok) {
+      throw new Error(`O servidor LLM respondeu com erro ${response.status} (${response.statusText}).`);
+    }
+
+    const data = await response.json();
+    return data?.choices?.[0]?.message?.content || '';
+  },
+});
@@ -0,0 +1,60 @@
+import type { OperationalParameters } from '../types';
+
+export const defaultOperationalParameters: OperationalParameters = {
+  pumpRate: 300,
+  terminalLoadingRate: 400,
+  initialFainaHours: 1.5,
+  finalFainaHours: 2,
+  travelRoundingHours: 0.5,
+  bargePumpRates: {},
+  terminalLoadingRates: {},
+  locationFaina: {},
+  requestMaxReceivingRates: {},
+};
+
+// Rates divide quantities into hours, so only positive ones are usable.
+const isPositiveRate = (rate: number | undefined): rate is number => typeof rate === 'number' && isFinite(rate) && rate > 0;
+
+export const resolveBargePumpRate = (parameters: OperationalParameters, bargeId: string): number => {
+  const override = parameters.bargePumpRates[bargeId];
+  if (isPositiveRate(override)) return override;
+  return isPositiveRate(parameters.pumpRate) ? parameters.pumpRate : defaultOperationalParameters.pumpRate;
+};
+
+// The effective delivery rate is limited by whichever is slower: the barge pumps or the ship's receiving rate.
+export const resolveDeliveryRate = (bargePumpRate: number, maxReceivingRate?: number): number =>
+  maxReceivingRate && maxReceivingRate > 0 ? Math.min(bargePumpRate, maxReceivingRate) : bargePumpRate;
+
+export const resolveTerminalLoadingRate = (parameters: OperationalParameters, locationId?: string): number => {
+  const override = locationId ? parameters.terminalLoadingRates[locationId] : undefined;
+  if (isPositiveRate(override)) return override;
+  return isPositiveRate(parameters.terminalLoadingRate) ? parameters.terminalLoadingRate : defaultOperationalParameters.terminalLoadingRate;
+};
+
+export const resolveFaina = (parameters: OperationalParameters, locationId?: string): { initial: number; final: number } => {
+  const override = locationId ? parameters.locationFaina[locationId] : undefined;
+  return {
+    initial: override?.initialFainaHours ?? parameters.initialFainaHours,
+    final: override?.finalFainaHours ?? parameters.finalFainaHours,
+  };
+};
+
+export const roundTravelHours = (parameters: OperationalParameters, hours: number): number =>
+  parameters.travelRoundingHours > 0
+    ? Math.round(hours / parameters.travelRoundingHours) * parameters.travelRoundingHours
+    : hours;
+
+const positiveRates = (rates?: Record<string, number>): Record<string, number> =>
+  Object.fromEntries(Object.entries(rates || {}).filter(([, rate]) => isPositiveRate(rate)));
+
+// Saved states may predate some fields; fill them from the defaults. Rates that are not positive are dropped.
+export const normalizeOperationalParameters = (saved?: Partial<OperationalParameters>): OperationalParameters => ({
+  ...defaultOperationalParameters,
+  ...saved,
+  pumpRate: isPositiveRate(saved?.pumpRate) ? saved.pumpRate : defaultOperationalParameters.pumpRate,
+  terminalLoadingRate: isPositiveRate(saved?.terminalLoadingRate) ? saved.terminalLoadingRate : defaultOperationalParameters.terminalLoadingRate,
+  bargePumpRates: positiveRates(saved?.bargePumpRates),
+  terminalLoadingRates: positiveRates(saved?.terminalLoadingRates),
+  locationFaina: { ...saved?.locationFaina },
+  requestMaxReceivingRates: positiveRates(saved?.requestMaxReceivingRates),
+});
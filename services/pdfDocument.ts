@@ -0,0 +1,106 @@
+// A minimal PDF writer for printable documents: A4 pages of text and rules in the standard Helvetica fonts.
+
+export const PDF_PAGE_WIDTH = 595;
+export const PDF_PAGE_HEIGHT = 842;
+export const PDF_MARGIN = 40;
+
+export interface PdfPage {
+  operations: string[];
+}
+
+export interface PdfTextOptions {
+  size?: number;
+  bold?: boolean;
+  align?: 'left' | 'right' | 'center';
+}
+
+export const newPdfPage = (): PdfPage => ({ operations: [] });
+
+// Characters outside Latin-1 that the WinAnsi encoding of the standard fonts still has.
+const winAnsiExtras: Record<string, number> = { '€': 0x80, '•': 0x95, '–': 0x96, '—': 0x97, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '…': 0x85 };
+
+// Escapes a string for a PDF literal, writing non-ASCII characters as octal codes of the WinAnsi encoding.
+const pdfString = (text: string) =>
+  [...text].map(char => {
+    const code = winAnsiExtras[char] ?? char.charCodeAt(0);
+    if (char === '(' || char === ')' || char === '\\') return `\\${char}`;
+    if (code < 32) return ' ';
+    if (code < 128) return String.fromCharCode(code);
+    return code <= 0xff ? `\\${code.toString(8).padStart(3, '0')}` : '?';
+  }).join('');
+
+// Approximate width of Helvetica text: good enough to right-align numbers and cut text to a column.
+export const pdfTextWidth = (text: string, size: number) => text.length * size * 0.5;
+
+// Cuts text that would not fit in `width` points, ending it with an ellipsis.
+export const fitPdfText = (text: string, width: number, size: number): string => {
+  if (pdfTextWidth(text, size) <= width) return text;
+  const chars = Math.max(1, Math.floor(width / (size * 0.5)) - 1);
+  return `${text.slice(0, chars)}…`;
+};
+
+// Splits text into lines of at most `width` points, breaking between words.
+export const wrapPdfText = (text: string, width: number, size: number): string[] =>
+  text.split(/\r?\n/).flatMap(paragraph => {
+    const lines: string[] = [];
+    let line = '';
+    paragraph.split(/\s+/).forEach(word => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && pdfTextWidth(candidate, size) > width) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    });
+    return [...lines, line];
+  });
+
+// Writes text with its baseline `y` points from the top of the page.
+export const pdfText = (page: PdfPage, x: number, y: number, text: string, options: PdfTextOptions = {}) => {
+  const size = options.size ?? 10;
+  const width = pdfTextWidth(text, size);
+  const left = options.align === 'right' ? x - width : options.align === 'center' ? x - width / 2 : x;
+  page.operations.push(`BT /${options.bold ? 'F2' : 'F1'} ${size} Tf ${left.toFixed(2)} ${(PDF_PAGE_HEIGHT - y).toFixed(2)} Td (${pdfString(text)}) Tj ET`);
+};
+
+export const pdfLine = (page: PdfPage, x1: number, y1: number, x2: number, y2: number, width = 0.5) => {
+  page.operations.push(`${width} w ${x1.toFixed(2)} ${(PDF_PAGE_HEIGHT - y1).toFixed(2)} m ${x2.toFixed(2)} ${(PDF_PAGE_HEIGHT - y2).toFixed(2)} l S`);
+};
+
+export const pdfRect = (page: PdfPage, x: number, y: number, width: number, height: number) => {
+  page.operations.push(`0.5 w ${x.toFixed(2)} ${(PDF_PAGE_HEIGHT - y - height).toFixed(2)} ${width.toFixed(2)} ${height.toFixed(2)} re S`);
+};
+
+/**
+ * Assembles the pages into a PDF file. Everything written is ASCII, so string lengths are byte offsets
+ * for the cross-reference table.
+ */
+export const buildPdf = (pages: PdfPage[], title: string): Blob => {
+  const objects: string[] = [];
+  const add = (body: string) => objects.push(body) + 2; // object numbers start at 3; 1 and 2 are the catalog and page tree
+  const regular = add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+  const bold = add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+  const info = add(`<< /Title (${pdfString(title)}) /Producer (Programacao de Abastecimentos) >>`);
+  const pageIds = pages.map(page => {
+    const stream = page.operations.join('\n');
+    const content = add(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+    return add(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_WIDTH} ${PDF_PAGE_HEIGHT}] /Resources << /Font << /F1 ${regular} 0 R /F2 ${bold} 0 R >> >> /Contents ${content} 0 R >>`);
+  });
+
+  const bodies = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`,
+    ...objects,
+  ];
+  let pdf = '%PDF-1.4\n';
+  const offsets = bodies.map((body, i) => {
+    const offset = pdf.length;
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+  const xref = pdf.length;
+  pdf += `xref\n0 ${bodies.length + 1}\n0000000000 65535 f \n${offsets.map(o => `${String(o).padStart(10, '0')} 00000 n \n`).join('')}`;
+  pdf += `trailer\n<< /Size ${bodies.length + 1} /Root 1 0 R /Info ${info} 0 R >>\nstartxref\n${xref}\n%%EOF`;
+  return new Blob([pdf], { type: 'application/pdf' });
+};
@@ -0,0 +1,60 @@
+import type { Barge, BargeProduct, Location, Product, ProductType, RefuelingRequest } from '../types';
+
+// The two products supplied before the catalogue became configurable.
+export const defaultProducts: Product[] = [
+  { code: 'VLSFO', name: 'Very Low Sulphur Fuel Oil 0,5%', density: 0.94, sulphurContent: 0.5, tankGroups: ['Residual'] },
+  { code: 'MGO', name: 'Marine Gas Oil', density: 0.85, sulphurContent: 0.1, tankGroups: ['Destilado'] },
+];
+
+export const parseTankGroups = (text: string): string[] =>
+  [...new Set(text.split(',').map(group => group.trim()).filter(Boolean))];
+
+// Every group some product may be carried in, for the tank group choices of a barge.
+export const knownTankGroups = (products: Product[]): string[] =>
+  [...new Set(products.flatMap(p => p.tankGroups))].sort((a, b) => a.localeCompare(b));
+
+// A tank may hold a product that lists no tank groups, or one that lists the tank's group.
+export const isTankCompatible = (productType: ProductType, tankGroup: string | undefined, products: Product[]): boolean => {
+  const product = products.find(p => p.code === productType);
+  if (!product || product.tankGroups.length === 0) return true;
+  return !!tankGroup && product.tankGroups.includes(tankGroup);
+};
+
+export const incompatibleTanks = (barge: Barge, products: Product[]): BargeProduct[] =>
+  barge.products.filter(tank => !isTankCompatible(tank.productType, tank.tankGroup, products));
+
+export const describeIncompatibleTank = (tank: BargeProduct, products: Product[]): string => {
+  const accepted = products.find(p => p.code === tank.productType)?.tankGroups.join(', ');
+  return `${tank.productType} em tanque ${tank.tankGroup ? `do grupo ${tank.tankGroup}` : 'sem grupo'} (aceita: ${accepted})`;
+};
+
+// Barges saved before tanks had a group get the first group of the product each tank holds.
+export const normalizeBargeTankGroups = (barges: Barge[], products: Product[]): Barge[] =>
+  barges.map(barge => (barge.products.every(tank => tank.tankGroup !== undefined) ? barge : {
+    ...barge,
+    products: barge.products.map(tank => (tank.tankGroup !== undefined ? tank : {
+      ...tank,
+      tankGroup: products.find(p => p.code === tank.productType)?.tankGroups[0] ?? '',
+    })),
+  }));
+
+// Barges, requests and terminals refer to products by code, so a referenced product cannot leave the catalogue.
+export const isProductInUse = (code: string, barges: Barge[], requests: RefuelingRequest[], locations: Location[]): boolean =>
+  barges.some(b => b.products.some(p => p.productType === code)) ||
+  requests.some(r => r.products.some(p => p.productType === code)) ||
+  locations.some(l => !!l.products?.includes(code));
+
+/**
+ * Saved states without a catalogue start from the default one. Any product code still referenced by a barge
+ * or request but missing from the catalogue gets a bare entry, so nothing saved becomes unreadable.
+ */
+export const normalizeProductCatalogue = (saved: Product[] | undefined, barges: Barge[], requests: RefuelingRequest[]): Product[] => {
+  const catalogue = saved && saved.length > 0 ? saved : defaultProducts;
+  const known = new Set(catalogue.map(p => p.code));
+  const referenced = [
+    ...barges.flatMap(b => b.products.map(p => p.productType)),
+    ...requests.flatMap(r => r.products.map(p => p.productType)),
+  ];
+  const missing = [...new Set(referenced)].filter(code => !known.has(code));
+  return [...catalogue, ...missing.map(code => ({ code, name: code, density: 0, tankGroups: [] }))];
+};
@@ -0,0 +1,87 @@
+import type { LlmClient } from './schedulingProvider';
+
+// A recorded model call. The prompt embeds the full fleet, requests, priorities and start time,
+// so an exact prompt match reproduces a past generation without network access.
+export interface PromptRecording {
+  id: string;
+  client: string;
+  prompt: string;
+  response: string;
+  recordedAt: string;
+}
+
+const RECORDINGS_STORAGE_KEY = 'bargeSchedulerRecordings_v1';
+const RECORDINGS_FILE_VERSION = 1;
+
+export const loadRecordings = (): PromptRecording[] => {
+  try {
+    const saved = localStorage.getItem(RECORDINGS_STORAGE_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (error) {
+    console.error("Could not load prompt recordings from localStorage", error);
+    return [];
+  }
+};
+
+export const saveRecordings = (recordings: PromptRecording[]) => {
+  localStorage.setItem(RECORDINGS_STORAGE_KEY, JSON.stringify(recordings));
+};
+
+// Wraps a real client and stores every prompt/response pair, replacing older recordings of the same prompt.
+export const createRecordingClient = (inner: LlmClient): LlmClient => ({
+  name: `record:${inner.name}`,
+  complete: async (prompt: string, productCodes: string[]) => {
+    const response = await inner.complete(prompt, productCodes);
+    const recording: PromptRecording = {
+      id: crypto.randomUUID(),
+      client: inner.name,
+      prompt,
+      response,
+      recordedAt: new Date().toISOString(),
+    };
+    // The response is still used when the recording cannot be stored, e.g. with localStorage full.
+    try {
+      saveRecordings([...loadRecordings().filter(r => r.prompt !== prompt), recording]);
+    } catch (error) {
+      console.error("Could not save the prompt recording to localStorage", error);
+    }
+    return response;
+  },
+});
+
+// Answers only from stored recordings; never touches the network.
+export const createReplayClient = (): LlmClient => ({
+  name: 'replay',
+  complete: async (prompt: string) => {
+    const recording = loadRecordings().find(r => r.prompt === prompt);
+    if (!recording) {
+      throw new Error("Nenhuma gravação corresponde aos dados atuais. Grave esta geração primeiro ou importe o arquivo de gravações correspondente.");
+    }
+    return recording.response;
+  },
+});
+
+// Serialises the recordings into a file that can be saved to disk and versioned alongside test fixtures.
+export const serializeRecordings = (recordings: PromptRecording[]): string =>
+  JSON.stringify({ version: RECORDINGS_FILE_VERSION, recordings }, null, 2);
+
+export const parseRecordingsFile = (text: string): PromptRecording[] => {
+  const parsed = JSON.parse(text);
+  const recordings = Array.isArray(parsed) ? parsed : parsed?.recordings;
+  if (!Array.isArray(recordings) || recordings.some(r => typeof r?.prompt !== 'string' || typeof r?.response !== 'string')) {
+    throw new Error("O arquivo não contém gravações válidas.");
+  }
+  return recordings.map(r => ({
+    id: r.id || crypto.randomUUID(),
+    client: r.client || 'desconhecido',
+    prompt: r.prompt,
+    response: r.response,
+    recordedAt: r.recordedAt || new Date().toISOString(),
+  }));
+};
+
+// Imported recordings win over stored ones with the same prompt.
+export const mergeRecordings = (current: PromptRecording[], imported: PromptRecording[]): PromptRecording[] => [
+  ...current.filter(r => !imported.some(i => i.prompt === r.prompt)),
+  ...imported,
+];
@@ -0,0 +1,44 @@
+import type { OperationHistoryItem, ProductType, RefuelingRequest, ScheduleItem } from '../types';
+import { isTerminalItem } from './scheduleTimeline';
+
+// How far a product line of a request has come: published deliveries, deliveries in the current schedule and what is left.
+export interface ProductLineProgress {
+  productType: ProductType;
+  requested: number;
+  delivered: number;
+  scheduled: number;
+  remaining: number;
+}
+
+const sumFor = (items: { requestId?: string; product: ProductType; quantity: number }[], requestId: string, product: ProductType) =>
+  items.filter(item => item.requestId === requestId && item.product === product).reduce((sum, item) => sum + item.quantity, 0);
+
+// Published deliveries count with the quantity actually delivered once it has been recorded.
+const deliveredItems = (history: OperationHistoryItem[]) =>
+  history.map(item => ({ ...item, quantity: item.actuals?.deliveredQuantity ?? item.quantity }));
+
+export const productLineProgress = (request: RefuelingRequest, history: OperationHistoryItem[], schedule: ScheduleItem[]): ProductLineProgress[] => {
+  const deliveries = schedule.filter(item => !isTerminalItem(item));
+  return request.products.map(p => {
+    const delivered = sumFor(deliveredItems(history), request.id, p.productType);
+    const scheduled = sumFor(deliveries, request.id, p.productType);
+    return { productType: p.productType, requested: p.quantity, delivered, scheduled, remaining: Math.max(0, p.quantity - delivered - scheduled) };
+  });
+};
+
+// A request is fulfilled once the published deliveries of every product line add up to the requested quantity.
+export const isRequestFulfilled = (request: RefuelingRequest, history: OperationHistoryItem[]): boolean =>
+  request.products.every(p => sumFor(deliveredItems(history), request.id, p.productType) >= p.quantity);
+
+/**
+ * The requests as they stand for planning: every product line reduced by what was already published for it,
+ * and lines with nothing left removed. Fulfilled requests are kept with no product lines, so schedule items
+ * still pointing at them resolve and any further delivery shows up as exceeding the request.
+ */
+export const outstandingRequests = (requests: RefuelingRequest[], history: OperationHistoryItem[]): RefuelingRequest[] =>
+  requests.map(request => ({
+    ...request,
+    products: request.products
+      .map(p => ({ ...p, quantity: Math.max(0, p.quantity - sumFor(deliveredItems(history), request.id, p.productType)) }))
+      .filter(p => p.quantity > 0),
+  }));
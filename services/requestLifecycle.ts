@@ -0,0 +1,94 @@
+import { RequestStatus } from '../types';
+import type { OperationHistoryItem, RefuelingRequest, RequestStatusChange, ScheduleItem } from '../types';
+import { isRequestFulfilled } from './requestFulfilment';
+import { isTerminalItem } from './scheduleTimeline';
+
+// Statuses a request may move to from each status. Delivered only goes back to In Service when the recorded actuals
+// fall short of the plan; a cancelled request can only be nominated again.
+export const requestStatusTransitions: Record<RequestStatus, RequestStatus[]> = {
+  [RequestStatus.Nominated]: [RequestStatus.Confirmed, RequestStatus.Cancelled],
+  [RequestStatus.Confirmed]: [RequestStatus.Nominated, RequestStatus.Scheduled, RequestStatus.Cancelled],
+  [RequestStatus.Scheduled]: [RequestStatus.Confirmed, RequestStatus.InService, RequestStatus.Delivered, RequestStatus.Cancelled],
+  [RequestStatus.InService]: [RequestStatus.Delivered, RequestStatus.Cancelled],
+  [RequestStatus.Delivered]: [RequestStatus.InService],
+  [RequestStatus.Cancelled]: [RequestStatus.Nominated],
+};
+
+// Scheduled and In Service are set by generation and publication only; the planner moves requests between the others.
+export const manualRequestStatuses: RequestStatus[] = [RequestStatus.Nominated, RequestStatus.Confirmed, RequestStatus.Cancelled];
+
+// Requests the scheduler plans for, as long as something is left to deliver.
+export const schedulableRequestStatuses: RequestStatus[] = [RequestStatus.Confirmed, RequestStatus.Scheduled, RequestStatus.InService];
+
+export const canChangeRequestStatus = (from: RequestStatus, to: RequestStatus): boolean =>
+  requestStatusTransitions[from]?.includes(to) ?? false;
+
+/**
+ * Moves a request to a new status and records the change. Throws when the lifecycle does not allow the move;
+ * a request already in the status is returned unchanged.
+ */
+export const changeRequestStatus = (request: RefuelingRequest, to: RequestStatus, reason: string, automatic = false): RefuelingRequest => {
+  if (request.status === to) return request;
+  if (!canChangeRequestStatus(request.status, to)) {
+    throw new Error(`O pedido de ${request.shipName} não pode passar de '${request.status}' para '${to}'.`);
+  }
+  const change = { from: request.status, to, at: new Date().toISOString(), reason, automatic };
+  return { ...request, status: to, statusHistory: [...(request.statusHistory || []), change] };
+};
+
+// Applies the change only where the lifecycle allows it, leaving the other requests as they are.
+const moveWhereAllowed = (request: RefuelingRequest, to: RequestStatus, reason: string): RefuelingRequest =>
+  canChangeRequestStatus(request.status, to) ? changeRequestStatus(request, to, reason, true) : request;
+
+/**
+ * After a generation: confirmed requests the schedule delivers to become scheduled, and scheduled ones it no
+ * longer serves go back to confirmed. Requests already in service keep their status.
+ */
+export const applyScheduleStatuses = (requests: RefuelingRequest[], schedule: ScheduleItem[], reason: string): RefuelingRequest[] => {
+  const served = new Set(schedule.filter(item => !isTerminalItem(item)).map(item => item.requestId));
+  return requests.map(request => {
+    if (request.status === RequestStatus.Confirmed && served.has(request.id)) return moveWhereAllowed(request, RequestStatus.Scheduled, reason);
+    if (request.status === RequestStatus.Scheduled && !served.has(request.id)) return moveWhereAllowed(request, RequestStatus.Confirmed, reason);
+    return request;
+  });
+};
+
+/**
+ * After a publication, or after the actuals of published deliveries are recorded: requests whose every product
+ * line has now been delivered are delivered; the others that received part of their quantity are in service
+ * until the rest is scheduled and published.
+ */
+export const applyPublicationStatuses = (requests: RefuelingRequest[], published: OperationHistoryItem[], history: OperationHistoryItem[], reason: string): RefuelingRequest[] => {
+  const served = new Set(published.map(item => item.requestId));
+  return requests.map(request => {
+    if (!served.has(request.id)) return request;
+    return moveWhereAllowed(request, isRequestFulfilled(request, history) ? RequestStatus.Delivered : RequestStatus.InService, reason);
+  });
+};
+
+// Statuses saved before the lifecycle: 'A Confirmar' requests were the ones sent to the scheduler, while
+// 'Em Atendimento' ones were kept out of it, so they wait for the planner to confirm them again.
+const legacyStatuses: Record<string, RequestStatus> = {
+  'A Confirmar': RequestStatus.Confirmed,
+  'Em Atendimento': RequestStatus.Nominated,
+};
+
+/**
+ * Requests without a status history were saved before the lifecycle and are moved from their legacy status;
+ * a status the lifecycle does not know becomes Nominated. Either move is recorded in the history.
+ */
+export const normalizeRequestStatuses = (saved: RefuelingRequest[]): RefuelingRequest[] =>
+  saved.map(request => {
+    const isLegacy = !request.statusHistory;
+    const known = (Object.values(RequestStatus) as string[]).includes(request.status);
+    const status = isLegacy ? legacyStatuses[request.status] || (known ? request.status : RequestStatus.Nominated)
+      : known ? request.status : RequestStatus.Nominated;
+    if (status === request.status && !isLegacy) return request;
+    const change: RequestStatusChange = {
+      to: status,
+      at: new Date().toISOString(),
+      reason: status === request.status ? 'Pedido anterior ao histórico de status' : `Migrado do status anterior '${request.status}'`,
+      automatic: true,
+    };
+    return { ...request, status, statusHistory: [...(request.statusHistory || []), change] };
+  });
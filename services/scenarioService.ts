@@ -0,0 +1,54 @@
+import { RequestStatus } from '../types';
+import type { Barge, BargeState, Priority, RefuelingRequest, ScheduleItem } from '../types';
+import { normalizeRequestStatuses, schedulableRequestStatuses } from './requestLifecycle';
+import { isTerminalItem } from './scheduleTimeline';
+
+// A named snapshot of the planning inputs and the schedule generated from them.
+export interface Scenario {
+  id: string;
+  name: string;
+  createdAt: string;
+  simulationStartTime: string;
+  barges: Barge[];
+  bargeStates: BargeState[];
+  requests: RefuelingRequest[];
+  priorities: Priority[];
+  schedule: ScheduleItem[];
+}
+
+const SCENARIOS_STORAGE_KEY = 'bargeSchedulerScenarios_v1';
+
+export const loadScenarios = (): Scenario[] => {
+  try {
+    const saved = localStorage.getItem(SCENARIOS_STORAGE_KEY);
+    const scenarios: Scenario[] = saved ? JSON.parse(saved) : [];
+    return scenarios.map(scenario => ({ ...scenario, requests: normalizeRequestStatuses(scenario.requests) }));
+  } catch (error) {
+    console.error("Could not load scenarios from localStorage", error);
+    return [];
+  }
+};
+
+export const saveScenarios = (scenarios: Scenario[]) => {
+  localStorage.setItem(SCENARIOS_STORAGE_KEY, JSON.stringify(scenarios));
+};
+
+// Requests the scenario's schedule serves that received a publication after the scenario was saved.
+export const requestsPublishedSince = (scenario: Scenario, requests: RefuelingRequest[]): RefuelingRequest[] => {
+  const served = new Set(scenario.schedule.filter(item => !isTerminalItem(item)).map(item => item.requestId));
+  const savedAt = new Date(scenario.createdAt).getTime();
+  return requests.filter(request => served.has(request.id) && (request.statusHistory || []).some(change =>
+    (change.to === RequestStatus.InService || change.to === RequestStatus.Delivered) && new Date(change.at).getTime() > savedAt));
+};
+
+/**
+ * The part of a scenario's schedule that still fits the current records: operations of barges that are still in
+ * the fleet, delivering to requests that can still be scheduled. The rest is counted as dropped.
+ */
+export const scheduleForPromotion = (scenario: Scenario, barges: Barge[], requests: RefuelingRequest[]): { schedule: ScheduleItem[]; dropped: number } => {
+  const bargeIds = new Set(barges.map(b => b.id));
+  const schedulable = new Set(requests.filter(r => schedulableRequestStatuses.includes(r.status)).map(r => r.id));
+  const schedule = scenario.schedule.filter(item =>
+    bargeIds.has(item.bargeId) && (isTerminalItem(item) || (!!item.requestId && schedulable.has(item.requestId))));
+  return { schedule, dropped: scenario.schedule.length - schedule.length };
+};
@@ -0,0 +1,138 @@
+import type { Barge, ScheduleItem, ProductType } from '../types';
+import { ceilToMinute, deliveryHours, planTerminalVisit, terminalVisitHours, toLocalIsoMinutes, travelHours, HOUR_MS, TERMINAL_NAME } from './localScheduler';
+import { resolveBargePumpRate, resolveDeliveryRate, resolveFaina, resolveTerminalLoadingRate } from './operationalParameters';
+import { initialBargeState, isTerminalItem } from './scheduleTimeline';
+import { isTerminalLocation, terminalSupplies } from './locationTypes';
+import { earliestOpenStart } from './locationWindows';
+import type { ScheduleContext } from './scheduleTimeline';
+
+// A manual edit of one delivery: move it to another barge or time, or change its quantity.
+export interface ScheduleItemChange {
+  bargeId?: string;
+  scheduledTime?: string;
+  quantity?: number;
+}
+
+const startOf = (item: ScheduleItem) => new Date(item.scheduledTime).getTime();
+
+/**
+ * Rebuilds the operations of one barge after a manual edit. Deliveries keep their order by start time and are
+ * only pushed later when the barge cannot have finished the previous operation and sailed there in time, or when
+ * the location is closed during the service; the pinned delivery and locked items keep exactly their time. Unlocked reloads are dropped and planned again
+ * wherever the projected volume on board is short, at the terminal the engine would pick.
+ */
+const reflowBarge = (barge: Barge, items: ScheduleItem[], pinned: ScheduleItem | undefined, context: ScheduleContext): ScheduleItem[] => {
+  const { locations, requests, parameters } = context;
+  const terminals = locations.filter(isTerminalLocation);
+  const capacities: Record<string, number> = {};
+  barge.products.forEach(p => { capacities[p.productType] = p.capacity; });
+
+  const state = initialBargeState(barge, context);
+  let location = state.location;
+  let release = state.release;
+  const volumes = state.volumes;
+  const result: ScheduleItem[] = [];
+
+  const kept = items.filter(item => !isTerminalItem(item) || item.locked);
+  // On equal start times the pinned delivery goes first, so a card dropped onto another pushes that one back.
+  const ordered = kept.sort((a, b) => startOf(a) - startOf(b) || (a === pinned ? -1 : b === pinned ? 1 : 0));
+
+  ordered.forEach(operation => {
+    if (isTerminalItem(operation)) {
+      const terminal = terminals.find(t => t.id === operation.locationId);
+      const supplied = !!terminal && terminalSupplies(terminal, operation.product);
+      const loadingHours = terminalVisitHours(
+        [supplied ? (capacities[operation.product] || 0) - (volumes[operation.product] || 0) : 0],
+        resolveTerminalLoadingRate(parameters, terminal?.id),
+        resolveFaina(parameters, terminal?.id),
+      );
+      result.push(operation);
+      if (supplied) volumes[operation.product] = capacities[operation.product] || 0;
+      if (terminal) location = terminal;
+      release = Math.max(release, startOf(operation) + loadingHours * HOUR_MS);
+      return;
+    }
+
+    const destination = locations.find(l => l.id === operation.locationId);
+    const sail = (to: typeof destination) => (location && to ? travelHours(location, to, barge.speed, parameters) : 0) * HOUR_MS;
+
+    const needsReload = (volumes[operation.product] || 0) < operation.quantity && (capacities[operation.product] || 0) >= operation.quantity;
+    const visit = needsReload && location
+      ? planTerminalVisit(location, release, barge.speed, volumes, capacities, [operation.product], destination, terminals, parameters)
+      : null;
+    if (visit) {
+      visit.products.forEach(product => {
+        result.push({
+          bargeId: barge.id,
+          locationId: visit.terminal.id,
+          shipName: TERMINAL_NAME,
+          bargeName: barge.name,
+          scheduledTime: toLocalIsoMinutes(visit.arrival),
+          product: product as ProductType,
+          quantity: 0,
+          locationName: visit.terminal.name,
+        });
+        volumes[product] = capacities[product];
+      });
+      location = visit.terminal;
+      release = visit.end;
+    }
+
+    const request = requests.find(r => r.id === operation.requestId);
+    const rate = resolveDeliveryRate(
+      resolveBargePumpRate(parameters, barge.id),
+      request ? parameters.requestMaxReceivingRates[request.id] : undefined,
+    );
+    const serviceMs = deliveryHours(operation.quantity, rate, resolveFaina(parameters, destination?.id)) * HOUR_MS;
+
+    const earliest = ceilToMinute(release + sail(destination));
+    const opening = operation === pinned || operation.locked || isNaN(startOf(operation))
+      ? startOf(operation)
+      : earliestOpenStart(destination, Math.max(startOf(operation), earliest), serviceMs);
+    // With no open slot in sight the delivery stays where the barge can first do it and the validator reports the closure.
+    const start = isFinite(opening) ? opening : Math.max(startOf(operation), earliest);
+
+    result.push({ ...operation, bargeId: barge.id, bargeName: barge.name, scheduledTime: isNaN(start) ? operation.scheduledTime : toLocalIsoMinutes(start) });
+    if (!isNaN(start)) {
+      release = start + serviceMs;
+    }
+    volumes[operation.product] = Math.max(0, (volumes[operation.product] || 0) - operation.quantity);
+    if (destination) location = destination;
+  });
+
+  return result;
+};
+
+/**
+ * Applies a manual edit to a delivery and replans the barges it touches: later operations shift automatically
+ * and TERMINAL reloads are recomputed. Reload items are derived and cannot be edited themselves, nor can locked items.
+ * Returns the schedule sorted by start time; violations are left for the validator to report.
+ */
+export const editScheduleItem = (schedule: ScheduleItem[], index: number, change: ScheduleItemChange, context: ScheduleContext): ScheduleItem[] => {
+  const original = schedule[index];
+  if (!original || isTerminalItem(original) || original.locked) return schedule;
+
+  const edited: ScheduleItem = {
+    ...original,
+    bargeId: change.bargeId ?? original.bargeId,
+    scheduledTime: change.scheduledTime ?? original.scheduledTime,
+    quantity: change.quantity !== undefined ? Math.max(0, change.quantity) : original.quantity,
+  };
+  delete edited.timeline;
+
+  const updated = schedule.map((item, i) => (i === index ? edited : item));
+  const affected = new Set([original.bargeId, edited.bargeId]);
+
+  const replanned = updated.filter(item => !affected.has(item.bargeId));
+  affected.forEach(bargeId => {
+    const items = updated.filter(item => item.bargeId === bargeId);
+    const barge = context.barges.find(b => b.id === bargeId);
+    if (!barge) {
+      replanned.push(...items);
+      return;
+    }
+    replanned.push(...reflowBarge(barge, items, items.includes(edited) ? edited : undefined, context));
+  });
+
+  return replanned.sort((a, b) => startOf(a) - startOf(b));
+};
@@ -0,0 +1,224 @@
+import type { Barge, Location, OperationHistoryItem, RefuelingRequest, ScheduleItem } from '../types';
+import type { SpreadsheetCell } from './spreadsheet';
+import { isTerminalItem } from './scheduleTimeline';
+import { buildPdf, fitPdfText, newPdfPage, pdfLine, pdfText, PDF_MARGIN, PDF_PAGE_HEIGHT, PDF_PAGE_WIDTH } from './pdfDocument';
+import type { PdfPage } from './pdfDocument';
+
+// 'YYYY-MM-DDTHH:MM' -> 'DD/MM/YYYY HH:MM'; dates without a time keep just the date.
+export const formatLocalDateTime = (value: string | undefined): string => {
+  const match = /^(\d{4})-(\d{2})-(\d{2})(?:T(\d{2}:\d{2}))?/.exec(value || '');
+  return match ? `${match[3]}/${match[2]}/${match[1]}${match[4] ? ` ${match[4]}` : ''}` : '';
+};
+
+const time = (iso: string | undefined) => (iso ? new Date(iso).getTime() : NaN);
+
+// --- Tables ---
+
+// The columns of the schedule table view, with transit and pumping split so they stay usable in a spreadsheet.
+export const scheduleExportRows = (schedule: ScheduleItem[], requests: RefuelingRequest[]): SpreadsheetCell[][] => [
+  [
+    'Nome do Navio', 'Local', 'Produto', 'Quantidade (t)', 'Início da Janela', 'Fim da Janela', 'Data Contratual', 'Barcaça Designada',
+    'Saída', 'Distância (nm)', 'Trânsito (h)', 'Horário Agendado', 'Início do Bombeio', 'Fim do Bombeio', 'Liberação', 'A Bordo Após (t)',
+  ],
+  ...[...schedule]
+    .sort((a, b) => time(a.scheduledTime) - time(b.scheduledTime))
+    .map(item => {
+      const request = isTerminalItem(item) ? undefined : requests.find(r => r.id === item.requestId);
+      const timeline = item.timeline;
+      return [
+        item.shipName, item.locationName, item.product, item.quantity,
+        formatLocalDateTime(request?.windowStart), formatLocalDateTime(request?.windowEnd), formatLocalDateTime(request?.contractualDate), item.bargeName,
+        formatLocalDateTime(timeline?.departureTime), timeline?.distanceNm ?? '', timeline?.transitHours ?? '', formatLocalDateTime(item.scheduledTime),
+        formatLocalDateTime(timeline?.pumpingStartTime), formatLocalDateTime(timeline?.pumpingEndTime), formatLocalDateTime(timeline?.releaseTime),
+        timeline?.onboardVolume !== undefined ? Math.round(timeline.onboardVolume) : '',
+      ];
+    }),
+];
+
+// Published operations with what was recorded as actually happening.
+export const historyExportRows = (history: OperationHistoryItem[]): SpreadsheetCell[][] => [
+  [
+    'Nome do Navio', 'Local', 'Barcaça', 'Produto', 'Quantidade (t)', 'Horário Agendado', 'Conclusão', 'Fim da Janela', 'Data Contratual',
+    'Chegada Real', 'Conexão Real', 'Início do Bombeio Real', 'Fim do Bombeio Real', 'Desconexão Real', 'Quantidade Entregue (t)', 'Observações',
+  ],
+  ...history.map(item => [
+    item.shipName, item.locationName || '', item.bargeName, item.product, item.quantity,
+    formatLocalDateTime(item.scheduledTime), formatLocalDateTime(item.completionTime), formatLocalDateTime(item.windowEnd), formatLocalDateTime(item.contractualDate),
+    formatLocalDateTime(item.actuals?.arrivalTime), formatLocalDateTime(item.actuals?.hoseConnectedTime), formatLocalDateTime(item.actuals?.pumpingStartTime),
+    formatLocalDateTime(item.actuals?.pumpingEndTime), formatLocalDateTime(item.actuals?.hoseDisconnectedTime),
+    item.actuals?.deliveredQuantity ?? '', item.actuals?.remarks || '',
+  ]),
+];
+
+// --- Service orders ---
+
+const serviceOrderColumns: { label: string; width: number; right?: boolean }[] = [
+  { label: 'Chegada', width: 45 },
+  { label: 'Local', width: 95 },
+  { label: 'Navio / Operação', width: 110 },
+  { label: 'Produto', width: 45 },
+  { label: 'Qtd (t)', width: 45, right: true },
+  { label: 'Bombeio', width: 75 },
+  { label: 'Liberação', width: 50 },
+  { label: 'A bordo (t)', width: 50, right: true },
+];
+const ROW_HEIGHT = 14;
+const FOOTER_TOP = PDF_PAGE_HEIGHT - 110;
+
+const clock = (value: string | undefined) => value?.slice(11, 16) || '-';
+// Times on another day than the operation's arrival carry the date as well.
+const clockOn = (day: string, value: string | undefined) => (value && value.slice(0, 10) !== day ? `${value.slice(8, 10)}/${value.slice(5, 7)} ${clock(value)}` : clock(value));
+
+const dayHeading = (day: string) => {
+  const heading = new Date(`${day}T12:00`).toLocaleDateString('pt-BR', { weekday: 'long', day: '2-digit', month: '2-digit', year: 'numeric' });
+  return heading.charAt(0).toUpperCase() + heading.slice(1);
+};
+
+/**
+ * One service order per barge, listing its operations day by day as the crew carries them out: arrival,
+ * location, ship or reload, product, quantity, pumping and release times and the volume left on board.
+ * Barges with more operations than fit a page continue on the next one.
+ */
+export const buildServiceOrdersPdf = (schedule: ScheduleItem[], barges: Barge[]): Blob => {
+  const pages: PdfPage[] = [];
+  const issuedAt = new Date().toLocaleString('pt-BR', { dateStyle: 'short', timeStyle: 'short' });
+
+  barges.forEach(barge => {
+    const items = schedule
+      .filter(item => item.bargeId === barge.id)
+      .sort((a, b) => time(a.scheduledTime) - time(b.scheduledTime));
+    const days = [...new Set(items.map(item => (item.timeline?.arrivalTime || item.scheduledTime).slice(0, 10)))];
+
+    let page: PdfPage = newPdfPage();
+    let y = 0;
+    const startPage = (continued: boolean) => {
+      page = newPdfPage();
+      pages.push(page);
+      pdfText(page, PDF_MARGIN, PDF_MARGIN + 12, `ORDEM DE SERVIÇO — ${barge.name}${continued ? ' (continuação)' : ''}`, { size: 16, bold: true });
+      const period = days.length > 0 ? `Programação de ${formatLocalDateTime(days[0])} a ${formatLocalDateTime(days[days.length - 1])}` : 'Sem operações programadas';
+      pdfText(page, PDF_MARGIN, PDF_MARGIN + 30, period, { size: 10 });
+      pdfText(page, PDF_PAGE_WIDTH - PDF_MARGIN, PDF_MARGIN + 30, `Emitida em ${issuedAt}`, { size: 8, align: 'right' });
+      pdfText(page, PDF_MARGIN, PDF_MARGIN + 44, `Tanques: ${barge.products.map(p => `${p.productType} ${p.capacity}t`).join(' · ')} · Velocidade ${barge.speed} nós`, { size: 8 });
+      pdfLine(page, PDF_MARGIN, PDF_MARGIN + 52, PDF_PAGE_WIDTH - PDF_MARGIN, PDF_MARGIN + 52, 1);
+      y = PDF_MARGIN + 72;
+    };
+    const ensureRoom = (height: number) => {
+      if (y + height > FOOTER_TOP) startPage(true);
+    };
+    const row = (cells: string[], bold = false) => {
+      let x = PDF_MARGIN;
+      cells.forEach((cell, i) => {
+        const column = serviceOrderColumns[i];
+        const text = fitPdfText(cell, column.width - 4, 8);
+        pdfText(page, column.right ? x + column.width - 6 : x, y, text, { size: 8, bold, align: column.right ? 'right' : 'left' });
+        x += column.width;
+      });
+      y += ROW_HEIGHT;
+    };
+
+    startPage(false);
+    if (items.length === 0) {
+      pdfText(page, PDF_MARGIN, y, 'Nenhuma operação programada para esta barcaça.', { size: 10 });
+    }
+    days.forEach(day => {
+      ensureRoom(ROW_HEIGHT * 4);
+      pdfText(page, PDF_MARGIN, y, dayHeading(day), { size: 11, bold: true });
+      y += ROW_HEIGHT + 2;
+      row(serviceOrderColumns.map(c => c.label), true);
+      pdfLine(page, PDF_MARGIN, y - ROW_HEIGHT + 4, PDF_PAGE_WIDTH - PDF_MARGIN, y - ROW_HEIGHT + 4);
+      items
+        .filter(item => (item.timeline?.arrivalTime || item.scheduledTime).slice(0, 10) === day)
+        .forEach(item => {
+          ensureRoom(ROW_HEIGHT);
+          const { timeline } = item;
+          row([
+            clock(timeline?.arrivalTime || item.scheduledTime),
+            item.locationName,
+            isTerminalItem(item) ? 'Recarga no terminal' : item.shipName,
+            item.product,
+            isTerminalItem(item) ? '-' : String(item.quantity),
+            timeline ? `${clockOn(day, timeline.pumpingStartTime)}–${clockOn(day, timeline.pumpingEndTime)}` : '-',
+            timeline ? clockOn(day, timeline.releaseTime) : '-',
+            timeline?.onboardVolume !== undefined ? String(Math.round(timeline.onboardVolume)) : '-',
+          ]);
+        });
+      y += 8;
+    });
+
+    // Signatures close the order on its last page.
+    [{ label: 'Programação', x: PDF_MARGIN }, { label: 'Comandante da barcaça', x: PDF_PAGE_WIDTH / 2 + 20 }].forEach(({ label, x }) => {
+      pdfLine(page, x, FOOTER_TOP + 60, x + 200, FOOTER_TOP + 60);
+      pdfText(page, x, FOOTER_TOP + 72, label, { size: 9 });
+    });
+  });
+
+  return buildPdf(pages, 'Ordens de Serviço');
+};
+
+// --- iCalendar ---
+
+const icsTime = (iso: string) => new Date(iso).toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+const icsText = (text: string) => text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+
+// Lines longer than 75 octets are folded onto continuation lines starting with a space (RFC 5545).
+const foldIcsLine = (line: string): string => {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  for (const char of line) {
+    if (encoder.encode(current + char).length > (parts.length === 0 ? 75 : 74)) {
+      parts.push(current);
+      current = '';
+    }
+    current += char;
+  }
+  return [...parts, current].join('\r\n ');
+};
+
+/**
+ * The operations of one barge as calendar events, from arrival to release, each with the location and its
+ * coordinates. Deliveries name the ship and quantity; terminal visits name the product loaded.
+ */
+export const buildBargeCalendar = (barge: Barge, schedule: ScheduleItem[], locations: Location[]): string => {
+  const stamp = icsTime(new Date().toISOString());
+  const events = schedule
+    .map((item, index) => ({ item, index }))
+    .filter(({ item }) => item.bargeId === barge.id && !isNaN(time(item.scheduledTime)))
+    .flatMap(({ item, index }) => {
+      const { timeline } = item;
+      const location = locations.find(l => l.id === item.locationId);
+      const summary = isTerminalItem(item)
+        ? `Recarga de ${item.product} – ${item.locationName}`
+        : `Entrega de ${item.quantity}t de ${item.product} – ${item.shipName}`;
+      const description = timeline
+        ? [
+          `Saída: ${formatLocalDateTime(timeline.departureTime)} (${timeline.distanceNm} nm)`,
+          `Chegada: ${formatLocalDateTime(timeline.arrivalTime)}`,
+          `Bombeio: ${formatLocalDateTime(timeline.pumpingStartTime)} a ${formatLocalDateTime(timeline.pumpingEndTime)}`,
+          `Liberação: ${formatLocalDateTime(timeline.releaseTime)}`,
+        ].join('\n')
+        : `Início: ${formatLocalDateTime(item.scheduledTime)}`;
+      return [
+        'BEGIN:VEVENT',
+        `UID:${barge.id}-${index}-${icsTime(item.scheduledTime)}@programacao-abastecimentos`,
+        `DTSTAMP:${stamp}`,
+        `DTSTART:${icsTime(timeline?.arrivalTime || item.scheduledTime)}`,
+        `DTEND:${icsTime(timeline?.releaseTime || item.scheduledTime)}`,
+        `SUMMARY:${icsText(summary)}`,
+        `LOCATION:${icsText(item.locationName)}`,
+        ...(location ? [`GEO:${location.latitude};${location.longitude}`] : []),
+        `DESCRIPTION:${icsText(description)}`,
+        'END:VEVENT',
+      ];
+    });
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Programacao de Abastecimentos//PT-BR',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${icsText(barge.name)}`,
+    ...events,
+    'END:VCALENDAR',
+  ].map(foldIcsLine).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,182 @@
+import type { OperationHistoryItem, RefuelingRequest, ScheduleItem } from '../types';
+import { HOUR_MS } from './localScheduler';
+import { reconcileSchedule } from './scheduleReconciliation';
+import { initialBargeState, isTerminalItem, replaySchedule } from './scheduleTimeline';
+import type { ScheduleContext } from './scheduleTimeline';
+
+export interface ScheduleKpis {
+  requestsServed: number; // requests whose every product line is fully scheduled
+  requestsTotal: number;
+  transitNm: number;
+  idleHours: number; // time barges spend waiting between operations they are already committed to
+  lateDeliveries: number; // deliveries starting after the ship's window closes
+  terminalVisits: number;
+}
+
+export type KpiKey = keyof Omit<ScheduleKpis, 'requestsTotal'>;
+
+// Labels and whether a higher value is the better one, for comparisons.
+export const kpiDefinitions: { key: KpiKey; label: string; higherIsBetter: boolean; unit: string }[] = [
+  { key: 'requestsServed', label: 'Pedidos Atendidos', higherIsBetter: true, unit: '' },
+  { key: 'transitNm', label: 'Trânsito Total', higherIsBetter: false, unit: 'nm' },
+  { key: 'idleHours', label: 'Horas Ociosas', higherIsBetter: false, unit: 'h' },
+  { key: 'lateDeliveries', label: 'Entregas Atrasadas', higherIsBetter: false, unit: '' },
+  { key: 'terminalVisits', label: 'Visitas ao Terminal', higherIsBetter: false, unit: '' },
+];
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+/**
+ * Summarises a schedule for the requests it had to serve. Idle time only counts the gaps between a barge's
+ * release and its next departure, not the time after its last operation.
+ */
+export const computeScheduleKpis = (schedule: ScheduleItem[], requests: RefuelingRequest[], context: ScheduleContext): ScheduleKpis => {
+  const replayed = replaySchedule(schedule, context).filter(r => r.barge && !isNaN(r.start));
+  const unserved = reconcileSchedule(requests, schedule, context);
+
+  return {
+    requestsServed: requests.length - unserved.length,
+    requestsTotal: requests.length,
+    transitNm: round1(replayed.reduce((sum, r) => sum + r.distanceNm, 0)),
+    idleHours: round1(replayed
+      .filter(r => !r.sameTerminalVisit)
+      .reduce((sum, r) => sum + Math.max(0, r.departure - r.previousRelease), 0) / HOUR_MS),
+    lateDeliveries: replayed.filter(r => !isTerminalItem(r.item) && r.request && r.start > new Date(r.request.windowEnd).getTime()).length,
+    terminalVisits: replayed.filter(r => isTerminalItem(r.item) && !r.sameTerminalVisit).length,
+  };
+};
+
+// Hours each barge spends on every kind of activity between the simulation start and the end of the schedule.
+// Delivery fainas count as pumping and terminal fainas as reloading; whatever is left is idle.
+export interface BargeUtilisation {
+  bargeId: string;
+  bargeName: string;
+  pumpingHours: number;
+  transitHours: number;
+  reloadingHours: number;
+  idleHours: number;
+}
+
+export const computeBargeUtilisation = (schedule: ScheduleItem[], context: ScheduleContext): BargeUtilisation[] => {
+  const replayed = replaySchedule(schedule, context).filter(r => r.barge && !isNaN(r.start));
+  const simulationStart = new Date(context.simulationStartTime).getTime();
+  const horizon = Math.max(simulationStart, ...replayed.map(r => r.release)) - simulationStart;
+
+  return context.barges.map(barge => {
+    const entries = replayed.filter(r => r.barge?.id === barge.id);
+    // A barge starting at a terminal is still loading until its initial release.
+    let reloading = Math.max(0, initialBargeState(barge, context).release - simulationStart);
+    let pumping = 0;
+    let transit = 0;
+    entries.forEach(r => {
+      if (r.sameTerminalVisit) {
+        // Tanks loading in parallel only extend the visit by what outlasts the previous item.
+        reloading += Math.max(0, r.release - r.previousRelease);
+        return;
+      }
+      transit += r.transitHours * HOUR_MS;
+      if (isTerminalItem(r.item)) reloading += r.release - r.start;
+      else pumping += r.release - r.start;
+    });
+    const toHours = (ms: number) => round1(ms / HOUR_MS);
+    return {
+      bargeId: barge.id,
+      bargeName: barge.name,
+      pumpingHours: toHours(pumping),
+      transitHours: toHours(transit),
+      reloadingHours: toHours(reloading),
+      idleHours: toHours(Math.max(0, horizon - pumping - transit - reloading)),
+    };
+  });
+};
+
+// Deliveries made per reload cycle. A cycle is the run of deliveries between two terminal visits (or before the
+// first one); cycles without any delivery are not counted.
+export const servicesPerReloadCycle = (schedule: ScheduleItem[], context: ScheduleContext): number => {
+  const replayed = replaySchedule(schedule, context).filter(r => r.barge && !isNaN(r.start));
+  let deliveries = 0;
+  let cycles = 0;
+  context.barges.forEach(barge => {
+    let inCycle = false;
+    replayed.filter(r => r.barge?.id === barge.id).forEach(r => {
+      if (isTerminalItem(r.item)) {
+        inCycle = false;
+        return;
+      }
+      deliveries++;
+      if (!inCycle) cycles++;
+      inCycle = true;
+    });
+  });
+  return cycles > 0 ? round1(deliveries / cycles) : 0;
+};
+
+export const tonnageByProduct = (items: { product: string; quantity: number }[]): Record<string, number> =>
+  items.reduce<Record<string, number>>((totals, item) => {
+    totals[item.product] = (totals[item.product] || 0) + item.quantity;
+    return totals;
+  }, {});
+
+export interface OnTimeRate {
+  onTime: number;
+  total: number;
+}
+
+// A delivery is on time against the window when it starts before the window closes, and against the contract when
+// it is completed on or before the contractual date. Deliveries whose request is unknown are left out.
+const isOnTime = (item: OperationHistoryItem, requests: RefuelingRequest[]) => {
+  const request = requests.find(r => r.id === item.requestId);
+  const windowEnd = item.windowEnd ?? request?.windowEnd;
+  const contractualDate = item.contractualDate ?? request?.contractualDate;
+  const start = new Date(item.scheduledTime || item.completionTime).getTime();
+  return {
+    window: windowEnd ? start <= new Date(windowEnd).getTime() : undefined,
+    contractual: contractualDate ? item.completionTime.slice(0, 10) <= contractualDate : undefined,
+  };
+};
+
+const rate = (results: (boolean | undefined)[]): OnTimeRate => {
+  const known = results.filter((r): r is boolean => r !== undefined);
+  return { onTime: known.filter(Boolean).length, total: known.length };
+};
+
+export const onTimeRates = (history: OperationHistoryItem[], requests: RefuelingRequest[]): { window: OnTimeRate; contractual: OnTimeRate } => {
+  const results = history.map(item => isOnTime(item, requests));
+  return { window: rate(results.map(r => r.window)), contractual: rate(results.map(r => r.contractual)) };
+};
+
+export type TrendGranularity = 'day' | 'week';
+
+export interface TrendPoint {
+  period: string; // first day of the period, YYYY-MM-DD
+  tonnage: number;
+  services: number;
+  onTimeWindow: OnTimeRate;
+}
+
+// Weeks start on Monday.
+const periodOf = (completionTime: string, granularity: TrendGranularity): string => {
+  const day = completionTime.slice(0, 10);
+  if (granularity === 'day') return day;
+  const [year, month, date] = day.split('-').map(Number);
+  const monday = new Date(year, month - 1, date);
+  monday.setDate(monday.getDate() - ((monday.getDay() + 6) % 7));
+  return `${monday.getFullYear()}-${String(monday.getMonth() + 1).padStart(2, '0')}-${String(monday.getDate()).padStart(2, '0')}`;
+};
+
+// Published deliveries grouped by the day or week they were completed, oldest first.
+export const historyTrend = (history: OperationHistoryItem[], requests: RefuelingRequest[], granularity: TrendGranularity): TrendPoint[] => {
+  const groups = new Map<string, OperationHistoryItem[]>();
+  history.forEach(item => {
+    const period = periodOf(item.completionTime, granularity);
+    groups.set(period, [...(groups.get(period) || []), item]);
+  });
+  return [...groups.entries()]
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([period, items]) => ({
+      period,
+      tonnage: items.reduce((sum, item) => sum + item.quantity, 0),
+      services: items.length,
+      onTimeWindow: rate(items.map(item => isOnTime(item, requests).window)),
+    }));
+};
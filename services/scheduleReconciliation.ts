@@ -0,0 +1,118 @@
+import type { Barge, Location, ProductType, RefuelingRequest, ScheduleItem } from '../types';
+import { deliveryHours, travelHours, HOUR_MS } from './localScheduler';
+import { resolveBargePumpRate, resolveDeliveryRate, resolveFaina } from './operationalParameters';
+import { initialBargeState, isTerminalItem, replaySchedule, usableTanks } from './scheduleTimeline';
+import { earliestOpenStart } from './locationWindows';
+import type { ReplayedItem, ScheduleContext } from './scheduleTimeline';
+
+// Ordered from the most to the least fundamental cause; a request reports the first one found.
+// 'model-omission' leaves room after a barge's last operation, where "Replanejar Pendentes" can plan; room found
+// only between operations is reported apart, as only a full generation can use it.
+export type UnservedReason = 'no-barge-for-product' | 'unreachable-in-time' | 'insufficient-capacity' | 'fits-between-operations' | 'model-omission';
+
+export const unservedReasonLabels: Record<UnservedReason, string> = {
+  'no-barge-for-product': 'Nenhuma barcaça transporta o produto',
+  'unreachable-in-time': 'Local inalcançável antes do fim da janela',
+  'insufficient-capacity': 'Frota sem capacidade livre antes do fim da janela',
+  'fits-between-operations': 'Omitido pelo motor de programação; só cabe entre operações já programadas (gere a programação completa)',
+  'model-omission': 'Omitido pelo motor de programação',
+};
+
+const reasonOrder: UnservedReason[] = ['no-barge-for-product', 'unreachable-in-time', 'insufficient-capacity', 'fits-between-operations', 'model-omission'];
+
+export interface UnservedLine {
+  productType: ProductType;
+  requested: number;
+  scheduled: number;
+}
+
+export interface UnservedRequest {
+  request: RefuelingRequest;
+  lines: UnservedLine[]; // only the product lines still short
+  partial: boolean; // part of the request was scheduled
+  reason: UnservedReason;
+}
+
+type FreeSlot = 'after-last-operation' | 'between-operations';
+
+// Where the barge has a free slot to start this delivery before the window closes, preferring one after its last
+// operation; null when it has none.
+const findFreeSlot = (
+  barge: Barge,
+  entries: ReplayedItem[],
+  request: RefuelingRequest,
+  location: Location,
+  quantity: number,
+  context: ScheduleContext,
+): FreeSlot | null => {
+  const { parameters } = context;
+  const windowStart = new Date(request.windowStart).getTime();
+  const windowEnd = new Date(request.windowEnd).getTime();
+  const rate = resolveDeliveryRate(resolveBargePumpRate(parameters, barge.id), parameters.requestMaxReceivingRates[request.id]);
+  const serviceMs = deliveryHours(quantity, rate, resolveFaina(parameters, location.id)) * HOUR_MS;
+  const sail = (from: Location | undefined, to: Location | undefined) => (from && to ? travelHours(from, to, barge.speed, parameters) : 0) * HOUR_MS;
+
+  const initial = initialBargeState(barge, context);
+  let free = { release: initial.release, location: initial.location };
+  let between = false;
+  for (let i = 0; i <= entries.length; i++) {
+    const start = earliestOpenStart(location, Math.max(windowStart, free.release + sail(free.location, location)), serviceMs);
+    if (start > windowEnd) break;
+    const next = entries[i];
+    if (!next) return 'after-last-operation';
+    if (start + serviceMs + sail(location, next.location) <= next.departure) between = true;
+    free = { release: Math.max(free.release, next.release), location: next.location || free.location };
+  }
+  return between ? 'between-operations' : null;
+};
+
+const lineReason = (request: RefuelingRequest, line: UnservedLine, replayed: ReplayedItem[], context: ScheduleContext): UnservedReason => {
+  const location = context.locations.find(l => l.id === request.locationId);
+  const carriers = context.barges.filter(b => usableTanks(b, context).some(p => p.productType === line.productType && p.capacity > 0));
+  if (carriers.length === 0) return 'no-barge-for-product';
+  if (!location) return 'unreachable-in-time';
+
+  const windowEnd = new Date(request.windowEnd).getTime();
+  // Even an idle fleet cannot get there in time.
+  const reachable = carriers.filter(barge => {
+    const initial = initialBargeState(barge, context);
+    const sailHours = initial.location ? travelHours(initial.location, location, barge.speed, context.parameters) : 0;
+    return initial.release + sailHours * HOUR_MS <= windowEnd;
+  });
+  if (reachable.length === 0) return 'unreachable-in-time';
+
+  const missing = line.requested - line.scheduled;
+  const slots = reachable.map(barge => {
+    const capacity = usableTanks(barge, context).find(p => p.productType === line.productType)?.capacity || 0;
+    const entries = replayed.filter(r => r.barge?.id === barge.id && !isNaN(r.start));
+    return findFreeSlot(barge, entries, request, location, Math.min(missing, capacity), context);
+  });
+  if (slots.includes('after-last-operation')) return 'model-omission';
+  return slots.includes('between-operations') ? 'fits-between-operations' : 'insufficient-capacity';
+};
+
+/**
+ * Compares the product lines of the requests that had to be scheduled with the deliveries in the schedule and
+ * explains every request left short. The reason is a best-effort diagnosis from the fleet, the locations and the
+ * time the schedule leaves free on each barge; it does not account for the volume on board.
+ */
+export const reconcileSchedule = (requests: RefuelingRequest[], schedule: ScheduleItem[], context: ScheduleContext): UnservedRequest[] => {
+  const replayed = replaySchedule(schedule, context);
+  const deliveries = schedule.filter(item => !isTerminalItem(item));
+
+  return requests.flatMap(request => {
+    const served = deliveries.filter(item => item.requestId === request.id);
+    const lines = request.products
+      .map(p => ({
+        productType: p.productType,
+        requested: p.quantity,
+        scheduled: served.filter(item => item.product === p.productType).reduce((sum, item) => sum + item.quantity, 0),
+      }))
+      .filter(line => line.scheduled < line.requested);
+    if (lines.length === 0) return [];
+
+    const reasons = lines.map(line => lineReason(request, line, replayed, context));
+    const reason = reasonOrder.find(r => reasons.includes(r)) || 'model-omission';
+    return [{ request, lines, partial: served.length > 0, reason }];
+  });
+};
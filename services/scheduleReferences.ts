@@ -0,0 +1,62 @@
+import type { Barge, Location, OperationHistoryItem, RefuelingRequest, ScheduleItem } from '../types';
+import { TERMINAL_NAME } from './localScheduler';
+import { isTerminalLocation } from './locationTypes';
+
+// The records schedule and history items point to.
+export interface ReferenceData {
+  barges: Barge[];
+  requests: RefuelingRequest[];
+  locations: Location[];
+}
+
+// A name only identifies a record when exactly one record carries it.
+const findUniqueByName = <T>(records: T[], name: string | undefined, nameOf: (record: T) => string): T | undefined => {
+  if (!name) return undefined;
+  const matches = records.filter(record => nameOf(record) === name);
+  return matches.length === 1 ? matches[0] : undefined;
+};
+
+/**
+ * Resolves the ids of schedule items returned by a provider. Valid ids win and the display names are
+ * refreshed from the records they point to. Missing ids (older recordings, models that skip them) are
+ * filled from unambiguous names. Ids that match nothing are kept as returned so the validator reports them.
+ */
+export const linkScheduleReferences = (items: Partial<ScheduleItem>[], { barges, requests, locations }: ReferenceData): ScheduleItem[] => {
+  // A reload without a location id can only be placed when its terminal is named or is the only one.
+  const terminals = locations.filter(isTerminalLocation);
+  return items.map(raw => {
+    const isTerminal = raw.shipName === TERMINAL_NAME;
+    const barge = barges.find(b => b.id === raw.bargeId) || (!raw.bargeId ? findUniqueByName(barges, raw.bargeName, b => b.name) : undefined);
+    const request = isTerminal
+      ? undefined
+      : requests.find(r => r.id === raw.requestId) || (!raw.requestId ? findUniqueByName(requests, raw.shipName, r => r.shipName) : undefined);
+    const location = locations.find(l => l.id === raw.locationId) || (!raw.locationId
+      ? (isTerminal ? findUniqueByName(terminals, raw.locationName, l => l.name) || (terminals.length === 1 ? terminals[0] : undefined) : locations.find(l => l.id === request?.locationId)) || findUniqueByName(locations, raw.locationName, l => l.name)
+      : undefined);
+
+    return {
+      ...raw,
+      bargeId: barge?.id ?? raw.bargeId ?? '',
+      requestId: isTerminal ? undefined : request?.id ?? (raw.requestId || undefined),
+      locationId: location?.id ?? raw.locationId ?? '',
+      shipName: request?.shipName ?? raw.shipName ?? '',
+      bargeName: barge?.name ?? raw.bargeName ?? '',
+      locationName: location?.name ?? raw.locationName ?? '',
+      scheduledTime: raw.scheduledTime ?? '',
+      product: raw.product!,
+      quantity: Number(raw.quantity) || 0,
+    };
+  });
+};
+
+// History saved before records carried ids is linked back to its barges, requests and locations by name.
+export const migrateHistoryReferences = (history: OperationHistoryItem[], { barges, requests, locations }: ReferenceData): OperationHistoryItem[] =>
+  history.map(item => {
+    const request = item.requestId ? undefined : findUniqueByName(requests, item.shipName, r => r.shipName);
+    return {
+      ...item,
+      bargeId: item.bargeId ?? findUniqueByName(barges, item.bargeName, b => b.name)?.id,
+      requestId: item.requestId ?? request?.id,
+      locationId: item.locationId ?? (findUniqueByName(locations, item.locationName, l => l.name)?.id || request?.locationId),
+    };
+  });
@@ -0,0 +1,179 @@
+import type { Barge, BargeProduct, BargeState, RefuelingRequest, Location, ScheduleItem, ScheduleTimeline, OperationalParameters, Product } from '../types';
+import { haversineDistanceNm, toLocalIsoMinutes, travelHours, HOUR_MS, TERMINAL_NAME } from './localScheduler';
+import { isTerminalLocation, terminalSupplies } from './locationTypes';
+import { isTankCompatible } from './productCatalogue';
+import { resolveBargePumpRate, resolveDeliveryRate, resolveFaina, resolveTerminalLoadingRate } from './operationalParameters';
+
+// The data a schedule is replayed against.
+export interface ScheduleContext {
+  barges: Barge[];
+  bargeStates: BargeState[];
+  requests: RefuelingRequest[];
+  locations: Location[];
+  simulationStartTime: string;
+  parameters: OperationalParameters;
+  products?: Product[]; // the catalogue, for the tank group checks; absent checks nothing
+}
+
+// One schedule item after replaying its barge's operations in time order. Times are epoch milliseconds.
+export interface ReplayedItem {
+  index: number;
+  item: ScheduleItem;
+  barge?: Barge;
+  location?: Location;
+  request?: RefuelingRequest;
+  start: number;
+  departure: number;
+  arrival: number;
+  pumpingStart: number;
+  pumpingEnd: number;
+  release: number;
+  distanceNm: number;
+  transitHours: number;
+  // Volume of the item's product on board when the operation starts and once it is released.
+  volumeBefore: number;
+  volumeAfter: number;
+  // When the barge became free before this item, and which item freed it (null for the initial state).
+  previousRelease: number;
+  previousIndex: number | null;
+  // Several TERMINAL items starting together describe one visit loading different tanks in parallel.
+  sameTerminalVisit: boolean;
+}
+
+export const isTerminalItem = (item: ScheduleItem) => item.shipName === TERMINAL_NAME;
+
+export interface BargeStartState {
+  location?: Location;
+  volumes: Record<string, number>;
+  // When the barge is first available at its initial location.
+  release: number;
+}
+
+interface BargeReplayState extends BargeStartState {
+  lastStart: number;
+  lastIndex: number | null;
+}
+
+// The tanks a barge can use: like the local scheduler, those in a group their product does not accept are left out.
+export const usableTanks = (barge: Barge, { products }: ScheduleContext): BargeProduct[] =>
+  products ? barge.products.filter(p => isTankCompatible(p.productType, p.tankGroup, products)) : barge.products;
+
+// The position, volumes and availability of a barge at the start of the simulation.
+export const initialBargeState = (barge: Barge, context: ScheduleContext): BargeStartState => {
+  const { bargeStates, locations, simulationStartTime, parameters } = context;
+  const state = bargeStates.find(s => s.bargeId === barge.id);
+  const location = locations.find(l => l.id === state?.locationId);
+  const tanks = usableTanks(barge, context);
+  const volumes: Record<string, number> = {};
+  tanks.forEach(p => {
+    volumes[p.productType] = state?.volumes.find(v => v.productType === p.productType)?.volume || 0;
+  });
+
+  let release = new Date(simulationStartTime).getTime();
+  // Barges starting at a terminal are still loading what it supplies and only become available after topping up
+  // and the final faina.
+  if (isTerminalLocation(location)) {
+    const loading = tanks.filter(p => terminalSupplies(location, p.productType));
+    const loadingRate = resolveTerminalLoadingRate(parameters, location.id);
+    const loadingHours = Math.max(0, ...loading.map(p => (p.capacity - volumes[p.productType]) / loadingRate));
+    release += (loadingHours + resolveFaina(parameters, location.id).final) * HOUR_MS;
+    loading.forEach(p => { volumes[p.productType] = p.capacity; });
+  }
+  return { location, volumes, release };
+};
+
+/**
+ * Replays every barge's operations in time order from its initial state, deriving transit, faina, pumping
+ * and release times from the barge speed, the location coordinates and the operational parameters.
+ * Items that cannot be placed (invalid time or unknown barge) keep their start time for every phase.
+ */
+export const replaySchedule = (schedule: ScheduleItem[], context: ScheduleContext): ReplayedItem[] => {
+  const { barges, requests, locations, simulationStartTime, parameters } = context;
+  const simulationStart = new Date(simulationStartTime).getTime();
+
+  const states = new Map<string, BargeReplayState>();
+  barges.forEach(barge => {
+    states.set(barge.id, { ...initialBargeState(barge, context), lastStart: simulationStart, lastIndex: null });
+  });
+
+  return schedule
+    .map((item, index) => ({ item, index, start: new Date(item.scheduledTime).getTime() }))
+    .sort((a, b) => a.start - b.start)
+    .map(({ item, index, start }): ReplayedItem => {
+      const barge = barges.find(b => b.id === item.bargeId);
+      const location = locations.find(l => l.id === item.locationId);
+      const request = isTerminalItem(item) ? undefined : requests.find(r => r.id === item.requestId);
+      const state = barge ? states.get(barge.id) : undefined;
+
+      const replayed: ReplayedItem = {
+        index, item, barge, location, request, start,
+        departure: start, arrival: start, pumpingStart: start, pumpingEnd: start, release: start,
+        distanceNm: 0, transitHours: 0, volumeBefore: 0, volumeAfter: 0,
+        previousRelease: state?.release ?? start,
+        previousIndex: state?.lastIndex ?? null,
+        sameTerminalVisit: false,
+      };
+      if (isNaN(start) || !barge || !state) return replayed;
+
+      const previousItem = state.lastIndex !== null ? schedule[state.lastIndex] : undefined;
+      replayed.sameTerminalVisit = isTerminalItem(item) && !!previousItem && isTerminalItem(previousItem) && state.lastStart === start;
+      if (state.location && location && !replayed.sameTerminalVisit) {
+        replayed.transitHours = travelHours(state.location, location, barge.speed, parameters);
+        replayed.distanceNm = replayed.transitHours > 0 ? haversineDistanceNm(state.location, location) : 0;
+      }
+
+      // The barge is assumed to sail just in time for the scheduled start; any idle time is spent where it was.
+      replayed.arrival = start;
+      replayed.departure = start - replayed.transitHours * HOUR_MS;
+
+      const faina = resolveFaina(parameters, location?.id);
+      const capacity = usableTanks(barge, context).find(p => p.productType === item.product)?.capacity;
+      replayed.volumeBefore = state.volumes[item.product] || 0;
+      replayed.pumpingStart = start + faina.initial * HOUR_MS;
+
+      if (isTerminalItem(item)) {
+        const supplied = isTerminalLocation(location) && terminalSupplies(location, item.product);
+        const missing = capacity !== undefined && supplied ? Math.max(0, capacity - replayed.volumeBefore) : 0;
+        replayed.pumpingEnd = replayed.pumpingStart + (missing / resolveTerminalLoadingRate(parameters, location?.id)) * HOUR_MS;
+        if (capacity !== undefined && supplied) state.volumes[item.product] = capacity;
+      } else {
+        const rate = resolveDeliveryRate(
+          resolveBargePumpRate(parameters, barge.id),
+          request ? parameters.requestMaxReceivingRates[request.id] : undefined,
+        );
+        replayed.pumpingEnd = replayed.pumpingStart + (item.quantity / rate) * HOUR_MS;
+        if (capacity !== undefined) state.volumes[item.product] = Math.max(0, replayed.volumeBefore - item.quantity);
+      }
+      replayed.release = replayed.pumpingEnd + faina.final * HOUR_MS;
+      replayed.volumeAfter = state.volumes[item.product] || 0;
+
+      state.release = replayed.sameTerminalVisit ? Math.max(state.release, replayed.release) : replayed.release;
+      state.lastStart = start;
+      state.lastIndex = index;
+      if (location) state.location = location;
+      return replayed;
+    });
+};
+
+const toTimeline = (r: ReplayedItem): ScheduleTimeline => ({
+  departureTime: toLocalIsoMinutes(r.departure),
+  distanceNm: Math.round(r.distanceNm * 10) / 10,
+  transitHours: r.transitHours,
+  arrivalTime: toLocalIsoMinutes(r.arrival),
+  pumpingStartTime: toLocalIsoMinutes(r.pumpingStart),
+  pumpingEndTime: toLocalIsoMinutes(r.pumpingEnd),
+  releaseTime: toLocalIsoMinutes(r.release),
+  onboardVolume: r.volumeAfter,
+});
+
+// Returns the schedule with the timeline of every item that could be replayed, keeping the original order.
+export const attachTimelines = (schedule: ScheduleItem[], context: ScheduleContext): ScheduleItem[] => {
+  const timelines = new Map<number, ScheduleTimeline>();
+  replaySchedule(schedule, context).forEach(r => {
+    if (r.barge && !isNaN(r.start)) timelines.set(r.index, toTimeline(r));
+  });
+  return schedule.map((item, index) => {
+    const timeline = timelines.get(index);
+    return timeline ? { ...item, timeline } : item;
+  });
+};
@@ -0,0 +1,141 @@
+import type { ScheduleItem } from '../types';
+import { replaySchedule, isTerminalItem } from './scheduleTimeline';
+import { isTerminalLocation, terminalSupplies } from './locationTypes';
+import { findClosureConflict } from './locationWindows';
+import { toLocalIsoMinutes } from './localScheduler';
+import { describeIncompatibleTank, isTankCompatible } from './productCatalogue';
+import type { ScheduleContext } from './scheduleTimeline';
+
+export type ViolationCode =
+  | 'invalid-time'
+  | 'unknown-barge'
+  | 'unknown-ship'
+  | 'unknown-location'
+  | 'location-mismatch'
+  | 'not-a-terminal'
+  | 'product-not-supplied'
+  | 'product-not-carried'
+  | 'incompatible-tank'
+  | 'outside-window'
+  | 'location-closed'
+  | 'insufficient-volume'
+  | 'quantity-exceeded'
+  | 'barge-double-booked'
+  | 'ship-overlap';
+
+export interface ScheduleViolation {
+  itemIndex: number;
+  code: ViolationCode;
+  message: string;
+}
+
+export type ValidationContext = ScheduleContext;
+
+/**
+ * Replays a generated schedule against the fleet, its initial state, the requests and the locations,
+ * returning every rule the schedule breaks. Each violation points to the index of the offending item.
+ */
+export const validateSchedule = (schedule: ScheduleItem[], context: ValidationContext): ScheduleViolation[] => {
+  const violations: ScheduleViolation[] = [];
+  const add = (itemIndex: number, code: ViolationCode, message: string) => violations.push({ itemIndex, code, message });
+
+  const replayed = replaySchedule(schedule, context);
+
+  replayed.forEach(entry => {
+    const { item, index, start, barge, location, request } = entry;
+
+    if (isNaN(start)) {
+      add(index, 'invalid-time', `Horário agendado inválido: '${item.scheduledTime}'.`);
+      return;
+    }
+
+    if (!location) {
+      add(index, 'unknown-location', `Local desconhecido: '${item.locationName}' (ID '${item.locationId}').`);
+    }
+    if (!isTerminalItem(item) && !request) {
+      add(index, 'unknown-ship', `Navio desconhecido: '${item.shipName}' (ID '${item.requestId ?? ''}') não corresponde a nenhum pedido.`);
+    }
+    if (isTerminalItem(item) && location) {
+      if (!isTerminalLocation(location)) {
+        add(index, 'not-a-terminal', `${location.name} não é um terminal; a recarga de ${item.product} não pode ser feita ali.`);
+      } else if (!terminalSupplies(location, item.product)) {
+        add(index, 'product-not-supplied', `O terminal ${location.name} não fornece ${item.product}.`);
+      }
+    }
+    if (request && location && request.locationId !== location.id) {
+      add(index, 'location-mismatch', `O pedido de ${request.shipName} é atendido em outro local, não em ${location.name}.`);
+    }
+
+    if (request) {
+      const windowStart = new Date(request.windowStart).getTime();
+      const windowEnd = new Date(request.windowEnd).getTime();
+      if (start < windowStart || start > windowEnd) {
+        add(index, 'outside-window', `Início fora da janela do navio (${request.windowStart} a ${request.windowEnd}).`);
+      }
+    }
+
+    if (!barge) {
+      add(index, 'unknown-barge', `Barcaça desconhecida: '${item.bargeName}' (ID '${item.bargeId}').`);
+      return;
+    }
+
+    const tank = barge.products.find(p => p.productType === item.product);
+    const carriesProduct = !!tank;
+    if (!tank) {
+      add(index, 'product-not-carried', `A barcaça ${barge.name} não transporta ${item.product}.`);
+    } else if (context.products && !isTankCompatible(tank.productType, tank.tankGroup, context.products)) {
+      add(index, 'incompatible-tank', `A barcaça ${barge.name} leva ${describeIncompatibleTank(tank, context.products)}.`);
+    }
+
+    // Double-booking: the barge must have finished its previous operation and sailed here before starting.
+    if (!entry.sameTerminalVisit && entry.departure < entry.previousRelease) {
+      const previousLabel = entry.previousIndex === null ? 'a liberação inicial' : `a operação anterior (${schedule[entry.previousIndex].shipName})`;
+      add(index, 'barge-double-booked', `A barcaça ${barge.name} ainda está ocupada com ${previousLabel} ou em trânsito neste horário.`);
+    }
+
+    // No faina or pumping inside a closure of the location, from the initial faina to the end of the final one.
+    const closure = findClosureConflict(location, start, entry.release);
+    if (location && closure) {
+      const reason = closure.closure.reason ? ` (${closure.closure.reason})` : '';
+      add(index, 'location-closed', `${location.name} está fechado de ${toLocalIsoMinutes(closure.start)} a ${toLocalIsoMinutes(closure.end)}${reason}; a operação não pode ocorrer nesse período.`);
+    }
+
+    if (!isTerminalItem(item) && carriesProduct && item.quantity > entry.volumeBefore) {
+      add(index, 'insufficient-volume', `Entrega de ${item.quantity}t de ${item.product} excede o volume a bordo de ${barge.name} (${entry.volumeBefore}t).`);
+    }
+  });
+
+  // Split deliveries of a product line may not add up to more than the request still asks for.
+  const deliveredSoFar = new Map<string, number>();
+  replayed.forEach(({ item, index, request }) => {
+    if (isTerminalItem(item) || !request) return;
+    const key = `${request.id}:${item.product}`;
+    const total = (deliveredSoFar.get(key) || 0) + item.quantity;
+    deliveredSoFar.set(key, total);
+    const requested = request.products.find(p => p.productType === item.product)?.quantity || 0;
+    if (total > requested) {
+      add(index, 'quantity-exceeded', `As entregas de ${item.product} para ${request.shipName} somam ${total}t, acima dos ${requested}t pendentes no pedido.`);
+    }
+  });
+
+  // Ship overlap: a ship can only be served by one barge at a time.
+  const deliveries = replayed.filter(e => !isTerminalItem(e.item) && e.barge && !isNaN(e.start));
+  deliveries.forEach((a, i) => {
+    deliveries.slice(i + 1).forEach(b => {
+      if (a.item.requestId === b.item.requestId && a.start < b.release && b.start < a.release) {
+        add(b.index, 'ship-overlap', `Sobreposição de serviço no navio ${b.item.shipName} com a entrega de ${a.item.product} por ${a.item.bargeName}.`);
+      }
+    });
+  });
+
+  return violations.sort((a, b) => a.itemIndex - b.itemIndex);
+};
+
+// Groups violations by the index of the schedule item they refer to.
+export const groupViolationsByItem = (violations: ScheduleViolation[]): Map<number, ScheduleViolation[]> => {
+  const grouped = new Map<number, ScheduleViolation[]>();
+  violations.forEach(v => {
+    grouped.set(v.itemIndex, [...(grouped.get(v.itemIndex) || []), v]);
+  });
+  return grouped;
+};
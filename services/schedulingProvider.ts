@@ -0,0 +1,135 @@
+import type { ScheduleItem, Priority, Location, OperationalParameters, Product } from '../types';
+import type { BargeForPrompt, RequestForPrompt } from './geminiService';
+import { buildSchedulePrompt, parseScheduleResponse, createGeminiClient } from './geminiService';
+import { createOpenAICompatibleClient } from './openAICompatibleService';
+import { createRecordingClient, createReplayClient } from './replayService';
+import { generateLocalSchedule } from './localScheduler';
+
+// Everything a provider needs to build a schedule.
+export interface ScheduleInput {
+  barges: BargeForPrompt[];
+  requests: RequestForPrompt[];
+  priorities: Priority[];
+  simulationStartTime: string;
+  parameters: OperationalParameters;
+  terminals: Location[];
+  products: Product[];
+}
+
+export interface SchedulingProvider {
+  label: string;
+  generateSchedule: (input: ScheduleInput) => Promise<ScheduleItem[]>;
+}
+
+// A text-in/text-out model endpoint. LLM-backed providers share the same prompt and only differ by client.
+// The product codes let clients constrain the product field of their structured output.
+export interface LlmClient {
+  name: string;
+  complete: (prompt: string, productCodes: string[]) => Promise<string>;
+}
+
+export type SchedulingProviderKind = 'gemini' | 'openai-compatible' | 'replay' | 'local';
+export type LlmBackendKind = 'gemini' | 'openai-compatible';
+
+export interface SchedulingProviderSettings {
+  kind: SchedulingProviderKind;
+  gemini: {
+    model: string;
+  };
+  openAICompatible: {
+    baseUrl: string;
+    model: string;
+    apiKey: string;
+  };
+  replay: {
+    // In 'record' mode generations go to the backend below and every prompt/response pair is stored.
+    mode: 'record' | 'replay';
+    backend: LlmBackendKind;
+  };
+}
+
+export const defaultProviderSettings: SchedulingProviderSettings = {
+  kind: 'gemini',
+  gemini: { model: 'gemini-2.5-flash' },
+  openAICompatible: { baseUrl: 'http://localhost:11434/v1', model: 'llama3.1', apiKey: '' },
+  replay: { mode: 'replay', backend: 'gemini' },
+};
+
+// The model server API key lives in sessionStorage for the browser session only, never in the saved configuration.
+const API_KEY_SESSION_KEY = 'bargeSchedulerApiKey';
+
+export const loadSessionApiKey = (): string => {
+  try {
+    return sessionStorage.getItem(API_KEY_SESSION_KEY) || '';
+  } catch (error) {
+    console.error("Could not read the API key from sessionStorage", error);
+    return '';
+  }
+};
+
+export const saveSessionApiKey = (apiKey: string) => {
+  try {
+    if (apiKey) sessionStorage.setItem(API_KEY_SESSION_KEY, apiKey);
+    else sessionStorage.removeItem(API_KEY_SESSION_KEY);
+  } catch (error) {
+    console.error("Could not save the API key to sessionStorage", error);
+  }
+};
+
+export const withoutApiKey = (settings: SchedulingProviderSettings): SchedulingProviderSettings => ({
+  ...settings,
+  openAICompatible: { ...settings.openAICompatible, apiKey: '' },
+});
+
+export const providerKindLabels: Record<SchedulingProviderKind, string> = {
+  gemini: 'IA (Gemini)',
+  'openai-compatible': 'LLM Local (OpenAI)',
+  replay: 'Gravar/Reproduzir',
+  local: 'Motor Local (offline)',
+};
+
+const createLlmClient = (backend: LlmBackendKind, settings: SchedulingProviderSettings): LlmClient =>
+  backend === 'gemini'
+    ? createGeminiClient(settings.gemini.model)
+    : createOpenAICompatibleClient(settings.openAICompatible);
+
+const createLlmProvider = (label: string, client: LlmClient): SchedulingProvider => ({
+  label,
+  generateSchedule: async ({ barges, requests, priorities, simulationStartTime, parameters, terminals, products }) => {
+    if (barges.length === 0 || requests.length === 0) {
+      return [];
+    }
+    const prompt = buildSchedulePrompt(barges, requests, priorities, simulationStartTime, parameters, terminals, products);
+    const text = await client.complete(prompt, products.map(p => p.code));
+    try {
+      return parseScheduleResponse(text);
+    } catch (error) {
+      console.error("Resposta inválida do modelo:", error);
+      throw new Error(`A resposta de ${client.name} não é um JSON de programação válido.`);
+    }
+  },
+});
+
+const localProvider: SchedulingProvider = {
+  label: providerKindLabels.local,
+  generateSchedule: async ({ barges, requests, priorities, simulationStartTime, parameters, terminals, products }) =>
+    generateLocalSchedule(barges, requests, priorities, simulationStartTime, parameters, terminals, products),
+};
+
+export const createSchedulingProvider = (settings: SchedulingProviderSettings): SchedulingProvider => {
+  switch (settings.kind) {
+    case 'local':
+      return localProvider;
+    case 'openai-compatible':
+      return createLlmProvider(providerKindLabels['openai-compatible'], createLlmClient('openai-compatible', settings));
+    case 'replay': {
+      const client = settings.replay.mode === 'record'
+        ? createRecordingClient(createLlmClient(settings.replay.backend, settings))
+        : createReplayClient();
+      return createLlmProvider(providerKindLabels.replay, client);
+    }
+    case 'gemini':
+    default:
+      return createLlmProvider(providerKindLabels.gemini, createLlmClient('gemini', settings));
+  }
+};
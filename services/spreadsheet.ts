@@ -0,0 +1,293 @@
+// Reading and writing of the spreadsheets planners exchange with traders and agents: CSV text and XLSX workbooks (first sheet).
+
+// Lower case, without accents, with spaces and dashes as underscores: how column headers are compared.
+export const normalizeHeader = (text: string) => text.trim().toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[\s-]+/g, '_');
+
+/**
+ * Splits CSV text into rows of cells. The separator is a semicolon when the first line has one, a comma otherwise;
+ * double-quoted cells may hold separators, line breaks and escaped quotes. Blank lines are dropped.
+ */
+export const parseCsv = (text: string): string[][] => {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const separator = firstLine.includes(';') ? ';' : ',';
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  const endRow = () => {
+    row.push(cell);
+    if (row.some(c => c.trim())) rows.push(row.map(c => c.trim()));
+    row = [];
+    cell = '';
+  };
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === separator) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n') {
+      endRow();
+    } else if (char !== '\r') {
+      cell += char;
+    }
+  }
+  endRow();
+  return rows;
+};
+
+// --- XLSX ---
+
+const ZIP_END_OF_DIRECTORY = 0x06054b50;
+const ZIP_DIRECTORY_ENTRY = 0x02014b50;
+
+interface ZipEntry {
+  method: number;
+  compressedSize: number;
+  localHeaderOffset: number;
+}
+
+const readZipDirectory = (data: DataView): Map<string, ZipEntry> => {
+  let end = data.byteLength - 22;
+  while (end >= 0 && data.getUint32(end, true) !== ZIP_END_OF_DIRECTORY) end--;
+  if (end < 0) throw new Error("O arquivo não é uma planilha XLSX válida.");
+  const count = data.getUint16(end + 10, true);
+  let offset = data.getUint32(end + 16, true);
+  const entries = new Map<string, ZipEntry>();
+  const decoder = new TextDecoder();
+  for (let i = 0; i < count && data.getUint32(offset, true) === ZIP_DIRECTORY_ENTRY; i++) {
+    const nameLength = data.getUint16(offset + 28, true);
+    const extraLength = data.getUint16(offset + 30, true);
+    const commentLength = data.getUint16(offset + 32, true);
+    const name = decoder.decode(new Uint8Array(data.buffer, data.byteOffset + offset + 46, nameLength));
+    entries.set(name, {
+      method: data.getUint16(offset + 10, true),
+      compressedSize: data.getUint32(offset + 20, true),
+      localHeaderOffset: data.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+  return entries;
+};
+
+const readZipEntry = async (data: DataView, entry: ZipEntry): Promise<string> => {
+  const header = entry.localHeaderOffset;
+  const start = header + 30 + data.getUint16(header + 26, true) + data.getUint16(header + 28, true);
+  const bytes = new Uint8Array(data.buffer, data.byteOffset + start, entry.compressedSize);
+  if (entry.method === 0) return new TextDecoder().decode(bytes);
+  if (entry.method !== 8) throw new Error("A planilha usa uma compactação não suportada.");
+  const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+};
+
+// 'AB12' -> 27 (zero-based column of the cell reference).
+const columnIndex = (reference: string): number =>
+  [...reference.replace(/\d+$/, '')].reduce((index, letter) => index * 26 + letter.charCodeAt(0) - 64, 0) - 1;
+
+const textOf = (element: Element) => [...element.getElementsByTagName('t')].map(t => t.textContent || '').join('');
+
+/**
+ * Reads the cell values of the first sheet of an XLSX workbook as text. Dates come as Excel serial numbers,
+ * since telling them apart would need the cell styles; `parseSpreadsheetDateTime` understands them.
+ */
+export const parseXlsx = async (buffer: ArrayBuffer): Promise<string[][]> => {
+  const data = new DataView(buffer);
+  const entries = readZipDirectory(data);
+  const read = async (name: string) => {
+    const entry = entries.get(name);
+    return entry ? new DOMParser().parseFromString(await readZipEntry(data, entry), 'application/xml') : null;
+  };
+
+  const workbook = await read('xl/workbook.xml');
+  const relations = await read('xl/_rels/workbook.xml.rels');
+  const firstSheet = workbook?.getElementsByTagName('sheet')[0];
+  const relationId = firstSheet?.getAttribute('r:id');
+  const target = [...(relations?.getElementsByTagName('Relationship') || [])].find(r => r.getAttribute('Id') === relationId)?.getAttribute('Target');
+  const sheetPath = target ? (target.startsWith('/') ? target.slice(1) : `xl/${target}`) : 'xl/worksheets/sheet1.xml';
+  const sheet = await read(sheetPath);
+  if (!sheet) throw new Error("A planilha não tem nenhuma aba legível.");
+
+  const sharedStrings = [...((await read('xl/sharedStrings.xml'))?.getElementsByTagName('si') || [])].map(textOf);
+  const rows: string[][] = [];
+  [...sheet.getElementsByTagName('row')].forEach(rowElement => {
+    const row: string[] = [];
+    [...rowElement.getElementsByTagName('c')].forEach((cell, position) => {
+      const reference = cell.getAttribute('r');
+      const index = reference ? columnIndex(reference) : position;
+      const type = cell.getAttribute('t');
+      const value = cell.getElementsByTagName('v')[0]?.textContent ?? '';
+      row[index] = (type === 's' ? sharedStrings[Number(value)] ?? '' : type === 'inlineStr' ? textOf(cell) : value).trim();
+    });
+    const cells = Array.from(row, cell => cell ?? '');
+    if (cells.some(cell => cell)) rows.push(cells);
+  });
+  return rows;
+};
+
+export interface SpreadsheetRows {
+  rows: string[][];
+  decimalDot: boolean; // numbers are the raw XLSX values, always with a decimal dot and no thousands separators
+}
+
+// Rows of a CSV or XLSX file, told apart by the extension.
+export const readSpreadsheet = async (file: File): Promise<SpreadsheetRows> =>
+  /\.xlsx$/i.test(file.name)
+    ? { rows: await parseXlsx(await file.arrayBuffer()), decimalDot: true }
+    : { rows: parseCsv(await file.text()), decimalDot: false };
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const EXCEL_EPOCH = Date.UTC(1899, 11, 30);
+
+/**
+ * Reads a date and time from a spreadsheet cell as the local ISO form used in the app (YYYY-MM-DDTHH:MM).
+ * Accepts ISO dates, Brazilian DD/MM/YYYY dates and Excel serial numbers, with or without a time of day.
+ */
+export const parseSpreadsheetDateTime = (text: string): string | null => {
+  const value = text.trim();
+  let parts: number[] | null = null;
+  const iso = /^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T ](\d{1,2}):(\d{2}))?/.exec(value);
+  const br = /^(\d{1,2})\/(\d{1,2})\/(\d{4})(?: (\d{1,2}):(\d{2}))?/.exec(value);
+  if (iso) parts = [iso[1], iso[2], iso[3], iso[4] || '0', iso[5] || '0'].map(Number);
+  else if (br) parts = [br[3], br[2], br[1], br[4] || '0', br[5] || '0'].map(Number);
+  else if (/^\d+(\.\d+)?$/.test(value)) {
+    // Serial days since 1899-12-30, read as wall-clock time.
+    const date = new Date(EXCEL_EPOCH + Math.round(Number(value) * 24 * 60) * 60 * 1000);
+    parts = [date.getUTCFullYear(), date.getUTCMonth() + 1, date.getUTCDate(), date.getUTCHours(), date.getUTCMinutes()];
+  }
+  if (!parts) return null;
+  const [year, month, day, hour, minute] = parts;
+  const date = new Date(year, month - 1, day, hour, minute);
+  if (isNaN(date.getTime()) || date.getMonth() !== month - 1 || hour > 23 || minute > 59) return null;
+  return `${year}-${pad(month)}-${pad(day)}T${pad(hour)}:${pad(minute)}`;
+};
+
+// Dots grouping digits in threes, as in '3.000' or '1.200.000', are thousands separators rather than a decimal point.
+const THOUSANDS_GROUPED = /^-?[1-9]\d{0,2}(\.\d{3})+$/;
+
+/**
+ * Reads quantities written either way: '1200', '1200.5', '1.200', '1.200,5' or '1200,5'. With `decimalDot`,
+ * as for XLSX values, a dot is always the decimal point and only text with a comma is read the Brazilian way.
+ */
+export const parseSpreadsheetNumber = (text: string, decimalDot = false): number => {
+  const value = text.replace(/\s/g, '');
+  if (!value) return 0;
+  if (value.includes(',') || (!decimalDot && THOUSANDS_GROUPED.test(value))) return Number(value.replace(/\./g, '').replace(',', '.'));
+  return Number(value);
+};
+
+// --- Writing ---
+
+export type SpreadsheetCell = string | number;
+
+const csvCell = (cell: SpreadsheetCell) => {
+  const text = typeof cell === 'number' ? String(cell).replace('.', ',') : cell;
+  return /[;"\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// Semicolon separated with decimal commas, as spreadsheet software set to Portuguese expects.
+export const toCsv = (rows: SpreadsheetCell[][]): string => rows.map(row => row.map(csvCell).join(';')).join('\r\n');
+
+const crcTable = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xffffffff;
+  bytes.forEach(byte => { crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8); });
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// A ZIP archive with the files stored uncompressed, which is all an XLSX package needs.
+const buildZip = (files: { name: string; content: string }[]): Uint8Array => {
+  const encoder = new TextEncoder();
+  const local: Uint8Array[] = [];
+  const directory: Uint8Array[] = [];
+  let offset = 0;
+  files.forEach(file => {
+    const name = encoder.encode(file.name);
+    const content = encoder.encode(file.content);
+    const crc = crc32(content);
+    const header = new DataView(new ArrayBuffer(30));
+    header.setUint32(0, 0x04034b50, true);
+    header.setUint16(4, 20, true);
+    header.setUint32(14, crc, true);
+    header.setUint32(18, content.length, true);
+    header.setUint32(22, content.length, true);
+    header.setUint16(26, name.length, true);
+    local.push(new Uint8Array(header.buffer), name, content);
+
+    const entry = new DataView(new ArrayBuffer(46));
+    entry.setUint32(0, ZIP_DIRECTORY_ENTRY, true);
+    entry.setUint16(4, 20, true);
+    entry.setUint16(6, 20, true);
+    entry.setUint32(16, crc, true);
+    entry.setUint32(20, content.length, true);
+    entry.setUint32(24, content.length, true);
+    entry.setUint16(28, name.length, true);
+    entry.setUint32(42, offset, true);
+    directory.push(new Uint8Array(entry.buffer), name);
+    offset += 30 + name.length + content.length;
+  });
+  const directorySize = directory.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, ZIP_END_OF_DIRECTORY, true);
+  end.setUint16(8, files.length, true);
+  end.setUint16(10, files.length, true);
+  end.setUint32(12, directorySize, true);
+  end.setUint32(16, offset, true);
+
+  const parts = [...local, ...directory, new Uint8Array(end.buffer)];
+  const zip = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  parts.reduce((position, part) => { zip.set(part, position); return position + part.length; }, 0);
+  return zip;
+};
+
+const escapeXml = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const columnName = (index: number): string => (index >= 26 ? columnName(Math.floor(index / 26) - 1) : '') + String.fromCharCode(65 + (index % 26));
+
+// A workbook with a single sheet; numbers are written as numbers and everything else as text.
+export const buildXlsx = (rows: SpreadsheetCell[][], sheetName: string): Blob => {
+  const sheetRows = rows.map((row, r) => `<row r="${r + 1}">${row.map((cell, c) => {
+    const reference = `${columnName(c)}${r + 1}`;
+    return typeof cell === 'number' && isFinite(cell)
+      ? `<c r="${reference}"><v>${cell}</v></c>`
+      : `<c r="${reference}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(cell))}</t></is></c>`;
+  }).join('')}</row>`).join('');
+  const xml = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+  const zip = buildZip([
+    {
+      name: '[Content_Types].xml',
+      content: `${xml}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/></Types>`,
+    },
+    {
+      name: '_rels/.rels',
+      content: `${xml}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/></Relationships>`,
+    },
+    {
+      name: 'xl/workbook.xml',
+      content: `${xml}<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"><sheets><sheet name="${escapeXml(sheetName.slice(0, 31))}" sheetId="1" r:id="rId1"/></sheets></workbook>`,
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      content: `${xml}<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/></Relationships>`,
+    },
+    {
+      name: 'xl/worksheets/sheet1.xml',
+      content: `${xml}<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${sheetRows}</sheetData></worksheet>`,
+    },
+  ]);
+  return new Blob([zip], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' });
+};
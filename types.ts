@@ -1,18 +1,60 @@
-export enum ProductType {
-  VLSFO = 'VLSFO',
-  MGO = 'MGO',
+// Product code from the user-managed catalogue (see Product).
+export type ProductType = string;
+
+export interface Product {
+  code: ProductType; // referenced by barges, requests and schedule items
+  name: string;
+  density: number; // t/m³ at 15 °C
+  sulphurContent?: number; // % m/m, printed on bunker delivery notes
+  tankGroups: string[]; // barge tank groups the product may be carried in
 }
 
+// Lifecycle of a request; the allowed transitions are in services/requestLifecycle.ts.
 export enum RequestStatus {
-  InProgress = 'Em Atendimento',
-  Confirmed = 'A Confirmar',
+  Nominated = 'Nomeado',
+  Confirmed = 'Confirmado',
+  Scheduled = 'Programado',
+  InService = 'Em Atendimento',
+  Delivered = 'Entregue',
+  Cancelled = 'Cancelado',
+}
+
+export enum LocationType {
+  Terminal = 'terminal',
+  Anchorage = 'anchorage',
+  Berth = 'berth',
 }
 
+// Periods in which no faina or pumping may take place at a location.
+// Recurring closures repeat every day between two local times ('HH:MM'), crossing midnight when `until` is not after `from`.
+export interface RecurringClosure {
+  id: string;
+  kind: 'recurring';
+  from: string;
+  until: string;
+  reason: string;
+}
+
+// Ad-hoc closures cover a fixed period (local 'YYYY-MM-DDTHH:MM'), entered by hand or imported from a weather forecast.
+export interface AdHocClosure {
+  id: string;
+  kind: 'ad-hoc';
+  from: string;
+  until: string;
+  reason: string;
+  source: 'manual' | 'forecast';
+}
+
+export type LocationClosure = RecurringClosure | AdHocClosure;
+
 export interface Location {
   id: string;
   name: string;
   latitude: number;
   longitude: number;
+  type: LocationType;
+  products?: ProductType[]; // terminals only: products that can be loaded; every product when unset
+  closures?: LocationClosure[];
 }
 
 export interface ProductDetail {
@@ -23,6 +65,7 @@ export interface ProductDetail {
 export interface BargeProduct {
   productType: ProductType;
   capacity: number;
+  tankGroup?: string; // group of the tank holding the product; must be one of the product's tank groups
 }
 
 export interface BargeVolume {
@@ -52,27 +95,117 @@ export interface RefuelingRequest {
   contractualDate: string;
   status: RequestStatus;
   locationId: string;
+  imoNumber?: string; // 7 digits, required on the bunker delivery note
+  statusHistory?: RequestStatusChange[]; // oldest first; absent on requests saved before the lifecycle
+}
+
+export interface RequestStatusChange {
+  from?: RequestStatus; // absent on the entry recording the creation of the request or its migration from an older save
+  to: RequestStatus;
+  at: string; // ISO timestamp
+  reason: string;
+  automatic: boolean; // moved by generation or publication rather than by the planner
+}
+
+// Operation phases derived from barge speed, location coordinates and operational parameters.
+// For TERMINAL visits the pumping phase is the loading of the barge.
+export interface ScheduleTimeline {
+  departureTime: string;
+  distanceNm: number;
+  transitHours: number;
+  arrivalTime: string;
+  pumpingStartTime: string;
+  pumpingEndTime: string;
+  releaseTime: string;
+  onboardVolume?: number; // tonnes of the item's product left on board after the operation
 }
 
+// Records reference barges, requests and locations by id; the names are kept for display.
 export interface ScheduleItem {
+  bargeId: string;
+  requestId?: string; // absent on TERMINAL reloads
+  locationId: string;
   shipName: string;
   bargeName: string;
-  scheduledTime: string;
+  scheduledTime: string; // start of the initial faina
   product: ProductType;
   quantity: number;
   locationName: string;
+  timeline?: ScheduleTimeline;
+  locked?: boolean; // kept as is when the schedule is regenerated
+}
+
+// What really happened in a published delivery, entered after the fact. Times are local 'YYYY-MM-DDTHH:MM'.
+export interface OperationActuals {
+  arrivalTime?: string;
+  hoseConnectedTime?: string;
+  pumpingStartTime?: string;
+  pumpingEndTime?: string;
+  hoseDisconnectedTime?: string;
+  deliveredQuantity?: number;
+  remarks?: string;
+  recordedAt: string; // ISO timestamp of the last edit
 }
 
 export interface OperationHistoryItem {
   id: string;
+  // Missing only on records migrated from older versions that could not be matched by name.
+  bargeId?: string;
+  requestId?: string;
+  locationId?: string;
   shipName: string;
   bargeName: string;
   completionTime: string;
   product: ProductType;
   quantity: number;
+  scheduledTime?: string;
+  locationName?: string;
+  timeline?: ScheduleTimeline;
+  // The request's deadlines at publication, kept for on-time reporting after the request changes or is removed.
+  windowEnd?: string;
+  contractualDate?: string;
+  actuals?: OperationActuals;
+  bdn?: BunkerDeliveryNote;
+}
+
+// Fuel oil supplier details printed on every bunker delivery note.
+export interface BdnSupplier {
+  name: string;
+  address: string;
+  phone: string;
+  port: string;
+}
+
+// Bunker delivery note (MARPOL Annex VI, Appendix V) issued for a published delivery. The ship, product and
+// supplier data are copied at issue so reprints stay identical when the master data changes.
+export interface BunkerDeliveryNote {
+  number: string; // sequential across all notes, e.g. 'BDN-000042'
+  issuedAt: string; // ISO timestamp
+  imoNumber?: string;
+  productName: string;
+  density: number; // kg/m³ at 15 °C
+  sulphurContent?: number; // % m/m
+  supplier: BdnSupplier;
 }
 
 export interface Priority {
   id: string;
   text: string;
-}
\ No newline at end of file
+}
+
+export interface LocationFainaOverride {
+  initialFainaHours?: number;
+  finalFainaHours?: number;
+}
+
+export interface OperationalParameters {
+  pumpRate: number; // default barge pump rate in t/h
+  terminalLoadingRate: number; // default terminal loading rate in t/h
+  initialFainaHours: number;
+  finalFainaHours: number;
+  travelRoundingHours: number; // travel times are rounded to the nearest multiple; 0 disables rounding
+  bargePumpRates: Record<string, number>; // by barge id
+  terminalLoadingRates: Record<string, number>; // by location id
+  locationFaina: Record<string, LocationFainaOverride>; // by location id
+  requestMaxReceivingRates: Record<string, number>; // by request id
+}